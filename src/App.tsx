@@ -8,6 +8,7 @@ import { ThemeProvider } from "@/contexts/ThemeContext";
 import Index from "./pages/Index";
 import CreateGame from "./pages/CreateGame";
 import GameRoom from "./pages/GameRoom";
+import ComputerGame from "./pages/ComputerGame";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
@@ -25,6 +26,7 @@ const App = () => (
               <Route path="/" element={<Index />} />
               <Route path="/create" element={<CreateGame />} />
               <Route path="/game/:roomCode" element={<GameRoom />} />
+              <Route path="/computer" element={<ComputerGame />} />
               <Route path="/settings" element={<Settings />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -1,6 +1,10 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Board, Position, getLegalMoves, PieceType } from '@/lib/chess';
+import { useTheme } from '@/contexts/ThemeContext';
+import { ANIMATION_SECONDS, BoardChanges, getBoardChanges } from '@/lib/boardAnimation';
+import { Board, CastlingRights, Position, getLegalMoves, resolveCastlingInput, PieceType } from '@/lib/chess';
+import { Premove, applyPremoves, getPremoveTargets } from '@/lib/premoves';
+import { VariantId, getVariant } from '@/lib/variants';
 import { ChessPiece } from './ChessPieces';
 import { cn } from '@/lib/utils';
 
@@ -10,41 +14,127 @@ interface ChessBoardProps {
   playerColor?: 'white' | 'black' | null;
   lastMove?: { from: Position; to: Position };
   enPassantTarget?: Position;
+  castlingRights?: CastlingRights;
+  variant?: VariantId;
   onMove?: (from: Position, to: Position, promotion?: PieceType) => void;
+  // Queued moves are shown played; with onPremove a player can queue moves
+  // while the opponent is to move
+  premoves?: Premove[];
+  onPremove?: (premove: Premove) => void;
+  onClearPremoves?: () => void;
   disabled?: boolean;
   flipped?: boolean;
 }
 
+// Pixels a pointer has to travel before a press becomes a drag
+const DRAG_THRESHOLD = 4;
+
+const samePosition = (a: Position | null | undefined, b: Position) => a?.row === b.row && a?.col === b.col;
+
 export const ChessBoard: React.FC<ChessBoardProps> = ({
   board,
   turn,
   playerColor,
   lastMove,
   enPassantTarget,
+  castlingRights,
+  variant,
   onMove,
+  premoves,
+  onPremove,
+  onClearPremoves,
   disabled = false,
   flipped = false,
 }) => {
   const [selectedSquare, setSelectedSquare] = useState<Position | null>(null);
   const [legalMoves, setLegalMoves] = useState<Position[]>([]);
   const [promotionSquare, setPromotionSquare] = useState<{ from: Position; to: Position } | null>(null);
+  // A piece being dragged, with the pointer's offset into the board
+  const [drag, setDrag] = useState<{ from: Position; x: number; y: number; moved: boolean } | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // The square a piece was just dropped from; it is already where it belongs
+  const droppedFromRef = useRef<Position | null>(null);
+  const { animationSpeed } = useTheme();
+  const duration = ANIMATION_SECONDS[animationSpeed];
 
   const isFlipped = flipped || playerColor === 'black';
+  const { promotionPieces } = getVariant(variant);
+  const isPremoving = Boolean(onPremove && playerColor && playerColor !== turn);
+  // The side whose moves are being picked
+  const mover = isPremoving ? playerColor : turn;
+  const shownBoard = useMemo(() => premoves?.length ? applyPremoves(board, premoves) : board, [board, premoves]);
+
+  // Whenever the position changes, slide the pieces that moved (both of
+  // them when castling) and fade out any taken
+  const [previousBoard, setPreviousBoard] = useState(shownBoard);
+  const [changes, setChanges] = useState<(BoardChanges & { key: number }) | null>(null);
+  if (previousBoard !== shownBoard) {
+    const diff = getBoardChanges(previousBoard, shownBoard);
+    const droppedFrom = droppedFromRef.current;
+    droppedFromRef.current = null;
+    setPreviousBoard(shownBoard);
+    if (!diff || diff.slides.length + diff.captured.length > 0) {
+      setChanges(diff && {
+        key: (changes?.key ?? 0) + 1,
+        slides: diff.slides.filter(slide => !samePosition(droppedFrom, slide.from)),
+        captured: diff.captured,
+      });
+    }
+  }
+
+  // A piece picked for a premove isn't picked for the move itself
+  useEffect(() => {
+    setSelectedSquare(null);
+    setLegalMoves([]);
+  }, [turn]);
+
+  // Premoves are only checked against how the pieces move; they are played,
+  // or dropped, when the turn comes back (usePremoves)
+  const handlePremoveClick = useCallback((clicked: Position) => {
+    const piece = shownBoard[clicked.row][clicked.col];
+
+    if (selectedSquare && legalMoves.some(m => m.row === clicked.row && m.col === clicked.col)) {
+      const selectedPiece = shownBoard[selectedSquare.row][selectedSquare.col];
+      // Premoved pawns promote to the variant's first choice
+      const promotes = selectedPiece?.type === 'pawn' && (clicked.row === 0 || clicked.row === 7);
+      onPremove?.({ from: selectedSquare, to: clicked, promotion: promotes ? promotionPieces[0] : undefined });
+      setSelectedSquare(null);
+      setLegalMoves([]);
+      return;
+    }
+
+    if (piece && piece.color === playerColor) {
+      setSelectedSquare(clicked);
+      setLegalMoves(getPremoveTargets(shownBoard, clicked, castlingRights, variant));
+    } else {
+      // Clicking away from a selection drops it; clicking away again drops the queue
+      if (!selectedSquare) onClearPremoves?.();
+      setSelectedSquare(null);
+      setLegalMoves([]);
+    }
+  }, [shownBoard, selectedSquare, legalMoves, playerColor, castlingRights, variant, promotionPieces, onPremove, onClearPremoves]);
 
   const handleSquareClick = useCallback((row: number, col: number) => {
-    if (disabled || (playerColor && playerColor !== turn)) {
+    if (disabled) return;
+    if (isPremoving) {
+      handlePremoveClick({ row, col });
+      return;
+    }
+    if (playerColor && playerColor !== turn) {
       return;
     }
 
-    const pos = { row, col };
+    const clicked = { row, col };
     const piece = board[row][col];
+    // Clicking the king's own rook castles, in Chess960 and standard chess alike
+    const pos = selectedSquare ? resolveCastlingInput(board, selectedSquare, clicked, castlingRights, variant) : clicked;
 
     // If we have a selected piece and clicking on a legal move
-    if (selectedSquare && legalMoves.some(m => m.row === row && m.col === col)) {
+    if (selectedSquare && legalMoves.some(m => m.row === pos.row && m.col === pos.col)) {
       const selectedPiece = board[selectedSquare.row][selectedSquare.col];
       
-      // Check for pawn promotion
-      if (selectedPiece?.type === 'pawn' && (row === 0 || row === 7)) {
+      // Check for pawn promotion; ask only when there is a choice
+      if (selectedPiece?.type === 'pawn' && (row === 0 || row === 7) && promotionPieces.length > 1) {
         setPromotionSquare({ from: selectedSquare, to: pos });
         return;
       }
@@ -57,14 +147,14 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
 
     // If clicking on own piece, select it
     if (piece && piece.color === turn && (!playerColor || piece.color === playerColor)) {
-      setSelectedSquare(pos);
-      const moves = getLegalMoves(board, pos, enPassantTarget);
+      setSelectedSquare(clicked);
+      const moves = getLegalMoves(board, clicked, enPassantTarget, castlingRights, variant);
       setLegalMoves(moves);
     } else {
       setSelectedSquare(null);
       setLegalMoves([]);
     }
-  }, [board, selectedSquare, legalMoves, turn, playerColor, disabled, enPassantTarget, onMove]);
+  }, [board, selectedSquare, legalMoves, turn, playerColor, disabled, isPremoving, handlePremoveClick, enPassantTarget, castlingRights, variant, promotionPieces, onMove]);
 
   const handlePromotion = (pieceType: PieceType) => {
     if (promotionSquare) {
@@ -75,7 +165,61 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
     }
   };
 
+  // The square under a pointer, or null off the board
+  const squareAt = (clientX: number, clientY: number): Position | null => {
+    const rect = gridRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const col = Math.floor(((clientX - rect.left) / rect.width) * 8);
+    const row = Math.floor(((clientY - rect.top) / rect.height) * 8);
+    if (row < 0 || row > 7 || col < 0 || col > 7) return null;
+    return isFlipped ? { row: 7 - row, col: 7 - col } : { row, col };
+  };
+
+  const isTarget = (pos: Position) => {
+    if (!selectedSquare) return false;
+    const to = isPremoving ? pos : resolveCastlingInput(board, selectedSquare, pos, castlingRights, variant);
+    return legalMoves.some(m => samePosition(m, to));
+  };
+
+  // A press works as a click, and on a piece that can move also picks it up
+  // to be dragged to its square, with a mouse or a finger alike
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    const pos = squareAt(e.clientX, e.clientY);
+    if (!pos) return;
+    const piece = shownBoard[pos.row][pos.col];
+    const canPick = !disabled && (isPremoving || !playerColor || playerColor === turn) &&
+      piece?.color === mover && !isTarget(pos);
+
+    handleSquareClick(pos.row, pos.col);
+    if (!canPick) return;
+    const rect = gridRef.current!.getBoundingClientRect();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ from: pos, x: e.clientX - rect.left, y: e.clientY - rect.top, moved: false });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const rect = gridRef.current!.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const y = e.clientY - rect.top;
+    const moved = drag.moved || Math.hypot(x - drag.x, y - drag.y) > DRAG_THRESHOLD;
+    setDrag({ ...drag, x, y, moved });
+  };
+
+  // Dropped on one of its squares the piece snaps there; anywhere else it
+  // goes back and stays picked
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    setDrag(null);
+    const pos = squareAt(e.clientX, e.clientY);
+    if (!drag.moved || !pos || samePosition(drag.from, pos) || !isTarget(pos)) return;
+    droppedFromRef.current = drag.from;
+    handleSquareClick(pos.row, pos.col);
+  };
+
   // Memoize board rendering for performance
+  const dragFrom = drag?.moved ? drag.from : null;
   const boardSquares = useMemo(() => {
     const squares: React.ReactNode[] = [];
     
@@ -85,11 +229,22 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
         const actualCol = isFlipped ? 7 - col : col;
         
         const isLight = (actualRow + actualCol) % 2 === 0;
-        const piece = board[actualRow][actualCol];
+        const piece = shownBoard[actualRow][actualCol];
+        const isPremoveSquare = premoves?.some(p =>
+          (p.from.row === actualRow && p.from.col === actualCol) || (p.to.row === actualRow && p.to.col === actualCol)
+        );
         const isSelected = selectedSquare?.row === actualRow && selectedSquare?.col === actualCol;
         const isLegalMove = legalMoves.some(m => m.row === actualRow && m.col === actualCol);
         const isLastMoveFrom = lastMove?.from.row === actualRow && lastMove?.from.col === actualCol;
         const isLastMoveTo = lastMove?.to.row === actualRow && lastMove?.to.col === actualCol;
+        const slide = changes?.slides.find(s => samePosition(s.to, { row: actualRow, col: actualCol }));
+        const captured = changes?.captured.find(c => samePosition(c.at, { row: actualRow, col: actualCol }));
+        const isDragged = dragFrom?.row === actualRow && dragFrom?.col === actualCol;
+        // How far the sliding piece starts from this square, in squares as shown
+        const slideFrom = slide && {
+          x: (slide.from.col - actualCol) * (isFlipped ? -1 : 1),
+          y: (slide.from.row - actualRow) * (isFlipped ? -1 : 1),
+        };
         const showRowLabel = col === 0;
         const showColLabel = row === 7;
 
@@ -101,10 +256,16 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
               isLight ? 'bg-board-light' : 'bg-board-dark',
               isSelected && 'ring-4 ring-inset ring-primary/70',
               (isLastMoveFrom || isLastMoveTo) && !isSelected && 'ring-2 ring-inset ring-accent/50',
-              disabled ? 'cursor-default' : 'active:scale-95'
+              disabled ? 'cursor-default' : 'active:scale-95',
+              // A sliding piece passes over the squares after this one
+              slide && 'z-10'
             )}
-            onClick={() => handleSquareClick(actualRow, actualCol)}
           >
+            {/* Premove highlight */}
+            {isPremoveSquare && (
+              <div className="absolute inset-0 bg-sky-500/40 pointer-events-none" />
+            )}
+
             {/* Coordinate labels */}
             {showRowLabel && (
               <span className={cn(
@@ -129,26 +290,56 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
             )}
 
             {/* Capture indicator - ring around enemy piece */}
-            {isLegalMove && piece && (
+            {isLegalMove && piece && piece.color !== mover && (
               <div className="absolute inset-[6%] rounded-full ring-[4px] ring-destructive/60 z-10 animate-in fade-in duration-150" />
             )}
 
+            {/* Castling indicator - ring around the king's own rook (Chess960) */}
+            {isLegalMove && piece && piece.color === mover && (
+              <div className="absolute inset-[6%] rounded-full ring-[4px] ring-primary/60 z-10 animate-in fade-in duration-150" />
+            )}
+
+            {/* Captured piece fading out */}
+            {captured && duration > 0 && (
+              <motion.div
+                key={`captured-${changes.key}`}
+                initial={{ opacity: 1, scale: 1 }}
+                animate={{ opacity: 0, scale: 0.8 }}
+                transition={{ duration }}
+                className="absolute inset-0 flex items-center justify-center z-20 pointer-events-none"
+              >
+                <ChessPiece type={captured.piece.type} color={captured.piece.color} className="w-[85%] h-[85%]" />
+              </motion.div>
+            )}
+
             {/* Chess piece */}
             {piece && (
-              <div className="w-[85%] h-[85%] flex items-center justify-center drop-shadow-md z-30 transform-gpu">
-                <ChessPiece 
-                  type={piece.type} 
-                  color={piece.color} 
-                  className="w-full h-full"
-                />
-              </div>
+              <motion.div
+                key={slideFrom ? `slide-${changes.key}` : 'piece'}
+                initial={slideFrom && duration > 0 ? { x: `${slideFrom.x * 100}%`, y: `${slideFrom.y * 100}%` } : false}
+                animate={{ x: 0, y: 0 }}
+                transition={{ duration, ease: 'easeOut' }}
+                className={cn(
+                  'absolute inset-0 flex items-center justify-center z-30 pointer-events-none',
+                  isDragged && 'opacity-30'
+                )}
+              >
+                <div className="w-[85%] h-[85%] flex items-center justify-center drop-shadow-md transform-gpu">
+                  <ChessPiece 
+                    type={piece.type} 
+                    color={piece.color} 
+                    className="w-full h-full"
+                  />
+                </div>
+              </motion.div>
             )}
           </div>
         );
       }
     }
     return squares;
-  }, [board, isFlipped, selectedSquare, legalMoves, lastMove, disabled, handleSquareClick]);
+  }, [shownBoard, premoves, isFlipped, selectedSquare, legalMoves, lastMove, disabled, mover, changes, duration, dragFrom]);
+  const draggedPiece = drag?.moved ? shownBoard[drag.from.row][drag.from.col] : null;
 
   return (
     <div className="relative w-full max-w-[min(500px,95vw)] sm:max-w-[min(500px,85vw)] mx-auto">
@@ -157,9 +348,32 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
         {/* Decorative border */}
         <div className="absolute inset-0 bg-gradient-to-br from-primary/20 via-transparent to-accent/20 pointer-events-none z-40 rounded-xl" />
         
-        {/* The board grid */}
-        <div className="grid grid-cols-8 aspect-square">
+        {/* The board grid; right-click drops any premoves. The board reads
+            left to right whatever the page direction. */}
+        <div
+          ref={gridRef}
+          dir="ltr"
+          className="relative grid grid-cols-8 aspect-square touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+          onContextMenu={onClearPremoves && (e => {
+            e.preventDefault();
+            onClearPremoves();
+          })}
+        >
           {boardSquares}
+
+          {/* The piece being dragged, under the pointer */}
+          {drag && draggedPiece && (
+            <div
+              className="absolute w-[12.5%] aspect-square -translate-x-1/2 -translate-y-1/2 pointer-events-none z-50 drop-shadow-xl"
+              style={{ left: drag.x, top: drag.y }}
+            >
+              <ChessPiece type={draggedPiece.type} color={draggedPiece.color} className="w-full h-full scale-110" />
+            </div>
+          )}
         </div>
       </div>
 
@@ -169,7 +383,7 @@ export const ChessBoard: React.FC<ChessBoardProps> = ({
           <div className="bg-card p-6 rounded-2xl shadow-2xl border border-border/50 animate-in zoom-in-95 duration-150">
             <p className="text-center text-base font-medium text-foreground mb-4">Choose promotion piece</p>
             <div className="flex gap-3">
-              {(['queen', 'rook', 'bishop', 'knight'] as PieceType[]).map(type => (
+              {promotionPieces.map(type => (
                 <button
                   key={type}
                   onClick={() => handlePromotion(type)}
@@ -165,6 +165,50 @@ export const ChessPiece: React.FC<ChessPieceProps> = ({ type, color, size, class
         </svg>
       );
 
+    case 'ferz':
+      // Shatranj counsellor: eight-pointed star (two overlapping squares) on a low body
+      return (
+        <svg {...commonProps}>
+          {/* Base */}
+          <ellipse cx="24" cy="42" rx="11" ry="4" fill={fill} stroke={stroke} strokeWidth={strokeWidth} />
+          <rect x="13" y="36" width="22" height="6" fill={fill} stroke={stroke} strokeWidth={strokeWidth} />
+
+          {/* Body */}
+          <path d="M16 36 L18 24 Q24 21 30 24 L32 36" fill={fill} stroke={stroke} strokeWidth={strokeWidth} strokeLinejoin="round" />
+
+          {/* Eight-pointed star */}
+          <rect x="17.5" y="6.5" width="13" height="13" fill={fill} stroke={stroke} strokeWidth={strokeWidth} strokeLinejoin="round" />
+          <rect x="17.5" y="6.5" width="13" height="13" fill={fill} stroke={stroke} strokeWidth={strokeWidth} strokeLinejoin="round" transform="rotate(45 24 13)" />
+          <circle cx="24" cy="13" r="2" fill={stroke} />
+
+          {/* Decorative band */}
+          <path d="M17 30 L31 30" stroke={stroke} strokeWidth={strokeWidth} />
+        </svg>
+      );
+
+    case 'alfil':
+      // Shatranj alfil: abstract split top with two rounded horns, as on
+      // historical carved pieces, instead of an elephant
+      return (
+        <svg {...commonProps}>
+          {/* Base */}
+          <ellipse cx="24" cy="42" rx="10" ry="4" fill={fill} stroke={stroke} strokeWidth={strokeWidth} />
+          <rect x="14" y="36" width="20" height="6" fill={fill} stroke={stroke} strokeWidth={strokeWidth} />
+
+          {/* Body with two horns */}
+          <path
+            d="M16 36 L17 22 Q14 14 17 8 Q21 12 22 18 L26 18 Q27 12 31 8 Q34 14 31 22 L32 36 Z"
+            fill={fill}
+            stroke={stroke}
+            strokeWidth={strokeWidth}
+            strokeLinejoin="round"
+          />
+
+          {/* Geometric diamond detail */}
+          <path d="M24 22 L27 27 L24 32 L21 27 Z" fill={stroke} fillOpacity="0.3" stroke={stroke} strokeWidth="1" />
+        </svg>
+      );
+
     default:
       return null;
   }
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { GitBranch } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Textarea } from '@/components/ui/textarea';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { GameState, PieceColor } from '@/lib/chess';
+import { ConditionalMoves, formatConditionalLines, parseConditionalLines } from '@/lib/conditionalMoves';
+
+interface ConditionalMovesPanelProps {
+  gameState: GameState;
+  playerColor: PieceColor;
+  onLoad: () => Promise<ConditionalMoves>;
+  onSave: (moves: ConditionalMoves) => Promise<boolean>;
+}
+
+// Lets a correspondence player write out replies to the opponent's likely
+// moves, one line of SAN per variation
+export const ConditionalMovesPanel: React.FC<ConditionalMovesPanelProps> = ({ gameState, playerColor, onLoad, onSave }) => {
+  const { t } = useLanguage();
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [saving, setSaving] = useState(false);
+  const opponentToMove = gameState.turn !== playerColor;
+
+  const handleOpenChange = async (next: boolean) => {
+    setOpen(next);
+    if (!next || !opponentToMove) return;
+    const moves = await onLoad();
+    setText(formatConditionalLines(gameState, moves).join('\n'));
+  };
+
+  const handleSave = async () => {
+    let moves: ConditionalMoves;
+    try {
+      moves = parseConditionalLines(gameState, text);
+    } catch (err) {
+      toast.error((err as Error).message);
+      return;
+    }
+    setSaving(true);
+    const saved = await onSave(moves);
+    setSaving(false);
+    if (!saved) return;
+    toast.success(t('conditionalMovesSaved'));
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" title={t('conditionalMoves')}>
+          <GitBranch className="w-5 h-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72" align="end">
+        <p className="text-sm font-medium mb-2">{t('conditionalMoves')}</p>
+        {opponentToMove ? (
+          <>
+            <p className="text-xs text-muted-foreground mb-2">{t('conditionalMovesHint')}</p>
+            <Textarea
+              value={text}
+              onChange={e => setText(e.target.value)}
+              placeholder="e5 Nf3 Nc6 Bb5"
+              rows={5}
+              className="font-mono text-sm"
+              dir="ltr"
+            />
+            <Button size="sm" className="w-full mt-2" onClick={handleSave} disabled={saving}>
+              {t('save')}
+            </Button>
+          </>
+        ) : (
+          <p className="text-xs text-muted-foreground">{t('conditionalMovesOnOpponentTurn')}</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ConditionalMovesPanel;
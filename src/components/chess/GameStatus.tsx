@@ -1,8 +1,9 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Clock, User, Crown, Flag } from 'lucide-react';
+import { Clock, User, Crown, Flag, Undo2, RotateCcw, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { GameState, formatTime } from '@/lib/chess';
+import { GameState, DrawReason, Termination, formatTime, getWinner } from '@/lib/chess';
+import { MatchScore } from '@/lib/roomActions';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
 
@@ -17,10 +18,52 @@ interface GameStatusProps {
   onOfferDraw?: () => void;
   onAcceptDraw?: () => void;
   onDeclineDraw?: () => void;
+  onClaimDraw?: () => void;
+  onOfferTakeback?: () => void;
+  onAcceptTakeback?: () => void;
+  onDeclineTakeback?: () => void;
+  onOfferRematch?: () => void;
+  onAcceptRematch?: () => void;
+  onDeclineRematch?: () => void;
   drawOffer?: 'white' | 'black';
+  takebackOffer?: 'white' | 'black';
+  rematchOffer?: 'white' | 'black';
+  matchScore?: MatchScore | null; // Points from earlier games of the match
+  onAbort?: () => void;
+  onClaimAbandonment?: () => void;
+  abortIn?: number | null; // Seconds left to make the first move before the game is aborted
+  connected?: Record<'white' | 'black', boolean>; // Which players are connected, when known
+  claimableDraw?: DrawReason | null;
+  moveDeadline?: number | null; // When the side to move must have moved by, in correspondence games
+  showClocks?: boolean;
   className?: string;
 }
 
+// Wins are followed by who won; draws say it all
+const TERMINATION_KEYS: Record<Termination, string> = {
+  'checkmate': 'checkmate',
+  'stalemate': 'stalemate',
+  'bare-king': 'bareKing',
+  'resignation': 'winByResignation',
+  'timeout': 'winOnTime',
+  'timeout-vs-insufficient-material': 'drawByTimeoutVsInsufficientMaterial',
+  'abandonment': 'winByAbandonment',
+  'aborted': 'gameAborted',
+  'agreement': 'drawByAgreement',
+  'threefold-repetition': 'drawByThreefold',
+  'fivefold-repetition': 'drawByFivefold',
+  'fifty-move-rule': 'drawByFiftyMoves',
+  'seventy-five-move-rule': 'drawBySeventyFiveMoves',
+  'insufficient-material': 'drawByInsufficientMaterial',
+};
+
+// Match points with halves, e.g. "1½"
+function formatScore(points: number): string {
+  const whole = Math.floor(points);
+  if (points === whole) return String(whole);
+  return whole ? `${whole}½` : '½';
+}
+
 export const GameStatus: React.FC<GameStatusProps> = ({
   gameState,
   playerColor,
@@ -32,7 +75,24 @@ export const GameStatus: React.FC<GameStatusProps> = ({
   onOfferDraw,
   onAcceptDraw,
   onDeclineDraw,
+  onClaimDraw,
+  onOfferTakeback,
+  onAcceptTakeback,
+  onDeclineTakeback,
+  onOfferRematch,
+  onAcceptRematch,
+  onDeclineRematch,
   drawOffer,
+  takebackOffer,
+  rematchOffer,
+  matchScore,
+  onAbort,
+  onClaimAbandonment,
+  abortIn,
+  connected,
+  claimableDraw,
+  moveDeadline,
+  showClocks = true,
   className,
 }) => {
   const { t } = useLanguage();
@@ -42,20 +102,25 @@ export const GameStatus: React.FC<GameStatusProps> = ({
   const displayBlackTime = blackTime ?? gameState.blackTime;
 
   const isYourTurn = playerColor === gameState.turn;
-  const isGameOver = ['checkmate', 'stalemate', 'draw', 'resigned'].includes(gameState.status);
+  const isGameOver = gameState.status === 'over';
+  const winner = getWinner(gameState);
+
+  const getResultMessage = () => {
+    // Stalemate wins in some variants
+    const reason = gameState.termination === 'stalemate' && winner
+      ? t('stalemateWin')
+      : gameState.termination && t(TERMINATION_KEYS[gameState.termination]);
+    if (winner) return [reason, winner === 'white' ? t('whiteWins') : t('blackWins')].filter(Boolean).join(' ');
+    if (gameState.result) return reason || t('draw');
+    return reason || t('gameOver');
+  };
 
   const getStatusMessage = () => {
     switch (gameState.status) {
       case 'waiting':
         return t('waitingForOpponent');
-      case 'checkmate':
-        return `${t('checkmate')} ${gameState.winner === 'white' ? t('whiteWins') : t('blackWins')}`;
-      case 'stalemate':
-        return t('stalemate');
-      case 'draw':
-        return t('draw');
-      case 'resigned':
-        return `${gameState.winner === 'white' ? t('whiteWins') : t('blackWins')}`;
+      case 'over':
+        return getResultMessage();
       default:
         return playerColor ? (isYourTurn ? t('yourTurn') : t('opponentTurn')) : `${gameState.turn === 'white' ? t('white') : t('black')} ${t('moves').toLowerCase()}`;
     }
@@ -68,7 +133,7 @@ export const GameStatus: React.FC<GameStatusProps> = ({
     isActive: boolean;
     isTop?: boolean;
   }> = ({ name, color, time, isActive, isTop }) => {
-    const isLowTime = time < 60;
+    const isLowTime = showClocks && time < 60;
     
     return (
       <div
@@ -82,26 +147,51 @@ export const GameStatus: React.FC<GameStatusProps> = ({
         <div className="flex items-center gap-3">
           <div
             className={cn(
-              'w-8 h-8 rounded-full flex items-center justify-center',
+              'relative w-8 h-8 rounded-full flex items-center justify-center',
               color === 'white' ? 'bg-secondary text-secondary-foreground' : 'bg-foreground text-background'
             )}
           >
             <User className="w-4 h-4" />
+            {connected && (
+              <span
+                className={cn(
+                  'absolute -bottom-0.5 -end-0.5 w-3 h-3 rounded-full border-2 border-card',
+                  connected[color] ? 'bg-green-500' : 'bg-muted-foreground'
+                )}
+                title={t(connected[color] ? 'online' : 'offline')}
+              />
+            )}
           </div>
           <div>
-            <p className="font-medium text-sm">{name}</p>
+            <p className="font-medium text-sm">
+              {name}
+              {matchScore && (
+                <span className="ms-2 text-xs font-mono text-muted-foreground" title={t('matchScore')}>
+                  {formatScore(matchScore[color])}
+                </span>
+              )}
+            </p>
             <p className="text-xs text-muted-foreground">{t(color)}</p>
           </div>
         </div>
-        <div className="flex items-center gap-2">
-          <Clock className={cn('w-4 h-4', isActive && gameState.status === 'playing' ? 'text-primary animate-pulse' : 'text-muted-foreground')} />
-          <span className={cn(
-            'font-mono text-lg font-bold tabular-nums',
-            isLowTime ? 'text-destructive' : isActive ? 'text-primary' : ''
-          )}>
-            {formatTime(time)}
-          </span>
+        {showClocks && (
+        <div className="text-end">
+          <div className="flex items-center gap-2">
+            <Clock className={cn('w-4 h-4', isActive && gameState.status === 'playing' ? 'text-primary animate-pulse' : 'text-muted-foreground')} />
+            <span className={cn(
+              'font-mono text-lg font-bold tabular-nums',
+              isLowTime ? 'text-destructive' : isActive ? 'text-primary' : ''
+            )}>
+              {formatTime(time)}
+            </span>
+          </div>
+          {moveDeadline && isActive && gameState.status === 'playing' && (
+            <p className="text-xs text-muted-foreground">
+              {t('moveBy')} {new Date(moveDeadline).toLocaleString()}
+            </p>
+          )}
         </div>
+        )}
       </div>
     );
   };
@@ -126,7 +216,7 @@ export const GameStatus: React.FC<GameStatusProps> = ({
 
       {/* Status message */}
       <div className="py-4 text-center border-y border-border">
-        {isGameOver && gameState.winner && (
+        {isGameOver && winner && (
           <motion.div
             initial={{ scale: 0 }}
             animate={{ scale: 1 }}
@@ -152,6 +242,11 @@ export const GameStatus: React.FC<GameStatusProps> = ({
             {t('moves')}: {gameState.moves.length}
           </p>
         )}
+        {abortIn !== null && abortIn !== undefined && !isGameOver && (
+          <p className="text-xs text-muted-foreground mt-1">
+            {t('abortIn')} {formatTime(abortIn)}
+          </p>
+        )}
       </div>
 
       {/* Bottom player (you or white) */}
@@ -202,17 +297,114 @@ export const GameStatus: React.FC<GameStatusProps> = ({
         </div>
       )}
 
-      {/* Actions */}
-      {playerColor && gameState.status === 'playing' && !drawOffer && (
-        <div className="flex gap-2 mt-4">
+      {/* Takeback Request Received */}
+      {takebackOffer && takebackOffer !== playerColor && playerColor && gameState.status === 'playing' && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-4 p-4 rounded-lg bg-accent/20 border border-accent/30"
+        >
+          <p className="text-sm font-medium text-center mb-3">
+            {t('takebackRequestReceived')}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="default"
+              size="sm"
+              className="flex-1"
+              onClick={onAcceptTakeback}
+            >
+              {t('accept')}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={onDeclineTakeback}
+            >
+              {t('decline')}
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Takeback Request Pending (sent by me) */}
+      {takebackOffer && takebackOffer === playerColor && playerColor && gameState.status === 'playing' && (
+        <div className="mt-4 p-3 rounded-lg bg-muted/50 border border-border">
+          <p className="text-sm text-muted-foreground text-center">
+            {t('takebackRequestPending')}
+          </p>
+        </div>
+      )}
+
+      {/* Ask to take back the last move */}
+      {onOfferTakeback && !takebackOffer && playerColor && gameState.status === 'playing' && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full mt-4"
+          onClick={onOfferTakeback}
+        >
+          <Undo2 className="w-4 h-4 mr-1" />
+          {t('requestTakeback')}
+        </Button>
+      )}
+
+      {/* Opponent has left the game */}
+      {onClaimAbandonment && playerColor && gameState.status === 'playing' && (
+        <div className="mt-4 p-4 rounded-lg bg-accent/20 border border-accent/30">
+          <p className="text-sm font-medium text-center mb-3">
+            {t('opponentLeft')}
+          </p>
           <Button
-            variant="outline"
+            variant="default"
             size="sm"
-            className="flex-1"
-            onClick={onOfferDraw}
+            className="w-full"
+            onClick={onClaimAbandonment}
           >
-            {t('offerDraw')}
+            {t('claimAbandonment')}
           </Button>
+        </div>
+      )}
+
+      {/* Abort before both sides have moved */}
+      {onAbort && playerColor && !isGameOver && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full mt-4"
+          onClick={onAbort}
+        >
+          <X className="w-4 h-4 mr-1" />
+          {t('abortGame')}
+        </Button>
+      )}
+
+      {/* Claimable draw (threefold repetition or 50-move rule) */}
+      {claimableDraw && playerColor && gameState.status === 'playing' && (
+        <Button
+          variant="secondary"
+          size="sm"
+          className="w-full mt-4"
+          onClick={onClaimDraw}
+        >
+          {t('claimDraw')}
+        </Button>
+      )}
+
+      {/* Actions */}
+      {playerColor && gameState.status === 'playing' && !drawOffer && (
+        <div className="flex gap-2 mt-4">
+          {onOfferDraw && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={onOfferDraw}
+            >
+              {t('offerDraw')}
+            </Button>
+          )}
           <Button
             variant="destructive"
             size="sm"
@@ -239,6 +431,59 @@ export const GameStatus: React.FC<GameStatusProps> = ({
           </Button>
         </div>
       )}
+
+      {/* Rematch Offer Received */}
+      {rematchOffer && rematchOffer !== playerColor && playerColor && isGameOver && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mt-4 p-4 rounded-lg bg-accent/20 border border-accent/30"
+        >
+          <p className="text-sm font-medium text-center mb-3">
+            {t('rematchOfferReceived')}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="default"
+              size="sm"
+              className="flex-1"
+              onClick={onAcceptRematch}
+            >
+              {t('accept')}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={onDeclineRematch}
+            >
+              {t('decline')}
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Rematch Offer Pending (sent by me) */}
+      {rematchOffer && rematchOffer === playerColor && playerColor && isGameOver && (
+        <div className="mt-4 p-3 rounded-lg bg-muted/50 border border-border">
+          <p className="text-sm text-muted-foreground text-center">
+            {t('rematchOfferPending')}
+          </p>
+        </div>
+      )}
+
+      {/* Offer a rematch once the game is over */}
+      {onOfferRematch && !rematchOffer && playerColor && isGameOver && (
+        <Button
+          variant="default"
+          size="sm"
+          className="w-full mt-4"
+          onClick={onOfferRematch}
+        >
+          <RotateCcw className="w-4 h-4 mr-1" />
+          {t('offerRematch')}
+        </Button>
+      )}
     </motion.div>
   );
 };
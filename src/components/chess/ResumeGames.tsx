@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Play, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integration-supabase/client';
+import { SavedSeat, forgetSeat, listSavedSeats } from '@/lib/seats';
+import { formatTime } from '@/lib/chess';
+import { getVariant } from '@/lib/variants';
+import { cn } from '@/lib/utils';
+
+interface ResumableGame {
+  seat: SavedSeat;
+  timeControl: string;
+  variant: string;
+  state: 'yourTurn' | 'opponentTurn' | 'waitingForOpponent' | 'gameOver';
+  deadline: number | null; // When the side to move must have moved by
+}
+
+// Games waiting on you first
+const STATE_ORDER: ResumableGame['state'][] = ['yourTurn', 'opponentTurn', 'waitingForOpponent', 'gameOver'];
+
+// Rooms this browser has a seat in, with whose turn it is
+export const ResumeGames: React.FC = () => {
+  const { t } = useLanguage();
+  const [games, setGames] = useState<ResumableGame[]>([]);
+
+  useEffect(() => {
+    const seats = listSavedSeats();
+    if (seats.length === 0) return;
+
+    let cancelled = false;
+    const load = async () => {
+      const { data, error } = await supabase
+        .from('chess_rooms')
+        .select('id, time_control, variant, player_white_id, player_black_id, game_state, move_deadline')
+        .in('id', seats.map(seat => seat.roomId));
+
+      if (error) {
+        console.error('Error fetching saved games:', error);
+        return;
+      }
+      if (cancelled) return;
+
+      const resumable: ResumableGame[] = [];
+      for (const seat of seats) {
+        const room = data?.find(r => r.id === seat.roomId);
+        if (!room) {
+          // The room no longer exists
+          forgetSeat(seat.roomId);
+          continue;
+        }
+        const gameState = (room.game_state || {}) as { status?: string; turn?: string };
+        const isOver = !['waiting', 'playing'].includes(gameState.status || 'waiting');
+        const state: ResumableGame['state'] =
+          isOver ? 'gameOver'
+          : !room.player_white_id || !room.player_black_id ? 'waitingForOpponent'
+          : (gameState.turn || 'white') === seat.color ? 'yourTurn'
+          : 'opponentTurn';
+        resumable.push({
+          seat,
+          timeControl: room.time_control,
+          variant: getVariant(room.variant).id,
+          state,
+          deadline: !isOver && room.move_deadline ? Date.parse(room.move_deadline) : null,
+        });
+      }
+      resumable.sort((a, b) => STATE_ORDER.indexOf(a.state) - STATE_ORDER.indexOf(b.state));
+      setGames(resumable);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleForget = (roomId: string) => {
+    forgetSeat(roomId);
+    setGames(prev => prev.filter(game => game.seat.roomId !== roomId));
+  };
+
+  if (games.length === 0) return null;
+
+  return (
+    <Card className="max-w-xl mx-auto border-2">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-lg">{t('resumeGames')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {games.map(({ seat, timeControl, variant, state, deadline }) => (
+          <div
+            key={seat.roomId}
+            className="flex items-center gap-3 p-2 rounded-lg bg-secondary/50"
+          >
+            <span
+              className={cn(
+                'w-4 h-4 rounded-full border border-border shrink-0',
+                seat.color === 'white' ? 'bg-white' : 'bg-neutral-900'
+              )}
+              title={t(seat.color)}
+            />
+            <div className="flex-1 min-w-0 text-start">
+              <p className="font-mono text-sm">{seat.playerCode}</p>
+              <p className="text-xs text-muted-foreground">
+                {timeControl}
+                {variant !== 'standard' && ` · ${t(`variant.${variant}`)}`}
+              </p>
+              {deadline && (
+                <p className="text-xs text-muted-foreground" title={new Date(deadline).toLocaleString()}>
+                  {t('timeLeft')}: {formatTime(Math.max(0, (deadline - Date.now()) / 1000))}
+                </p>
+              )}
+            </div>
+            <span
+              className={cn(
+                'text-xs px-2 py-1 rounded-full',
+                state === 'yourTurn' ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'
+              )}
+            >
+              {t(state)}
+            </span>
+            <Link to={`/game/${seat.playerCode}`}>
+              <Button size="icon" variant="ghost" title={t('resumeGame')}>
+                <Play className="w-4 h-4" />
+              </Button>
+            </Link>
+            <Button
+              size="icon"
+              variant="ghost"
+              onClick={() => handleForget(seat.roomId)}
+              title={t('forgetGame')}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResumeGames;
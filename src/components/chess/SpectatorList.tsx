@@ -0,0 +1,39 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface SpectatorListProps {
+  spectators: string[]; // Names of everyone watching, from presence
+}
+
+// Count of people watching the room, with their names on click
+export const SpectatorList: React.FC<SpectatorListProps> = ({ spectators }) => {
+  const { t } = useLanguage();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title={t('spectators')}>
+          <Eye className="w-4 h-4 mr-1" />
+          <span className="tabular-nums">{spectators.length}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56" align="end">
+        <p className="text-sm font-medium mb-2">{t('spectators')}</p>
+        {spectators.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{t('noSpectators')}</p>
+        ) : (
+          <ul className="space-y-1 max-h-48 overflow-y-auto">
+            {spectators.map((name, index) => (
+              <li key={index} className="text-sm truncate">{name}</li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SpectatorList;
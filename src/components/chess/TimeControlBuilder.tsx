@@ -0,0 +1,146 @@
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { BonusMode, TimeControl, TimeControlStage, formatTimeControl, parseTimeControl } from '@/lib/timeControl';
+
+interface TimeControlBuilderProps {
+  value: TimeControl;
+  onChange: (value: TimeControl) => void;
+}
+
+const BONUS_MODE_LABELS: Record<BonusMode, string> = {
+  increment: 'increment',
+  'simple-delay': 'simpleDelay',
+  bronstein: 'bronsteinDelay',
+};
+
+const DEFAULT_STAGE_MOVES = 40;
+
+// Builds a time control from stages (moves, minutes and a per-move bonus) or
+// an hourglass, for the time controls the presets don't cover
+export const TimeControlBuilder: React.FC<TimeControlBuilderProps> = ({ value, onChange }) => {
+  const { t } = useLanguage();
+  const isValid = Boolean(parseTimeControl(formatTimeControl(value)));
+
+  const setHourglass = (hourglass: boolean) => {
+    if (hourglass) {
+      onChange({ kind: 'hourglass', minutes: value.kind === 'stages' ? value.stages[0].minutes : 10 });
+    } else {
+      onChange({ kind: 'stages', stages: [{ minutes: value.kind === 'hourglass' ? value.minutes : 10, bonus: 0, mode: 'increment' }] });
+    }
+  };
+
+  const updateStage = (index: number, changes: Partial<TimeControlStage>) => {
+    if (value.kind !== 'stages') return;
+    onChange({ ...value, stages: value.stages.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)) });
+  };
+
+  // A new stage follows the last one, which then needs a move count
+  const addStage = () => {
+    if (value.kind !== 'stages') return;
+    const last = value.stages[value.stages.length - 1];
+    onChange({
+      ...value,
+      stages: [
+        ...value.stages.slice(0, -1),
+        { ...last, moves: last.moves || DEFAULT_STAGE_MOVES },
+        { minutes: 30, bonus: last.bonus, mode: last.mode },
+      ],
+    });
+  };
+
+  const removeStage = (index: number) => {
+    if (value.kind !== 'stages') return;
+    onChange({ ...value, stages: value.stages.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-3 p-4 rounded-lg bg-muted/50">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="hourglass">{t('hourglass')}</Label>
+        <Switch id="hourglass" checked={value.kind === 'hourglass'} onCheckedChange={setHourglass} />
+      </div>
+
+      {value.kind === 'hourglass' ? (
+        <div className="space-y-1">
+          <Label htmlFor="hourglassMinutes" className="text-xs">{t('minutes')}</Label>
+          <Input
+            id="hourglassMinutes"
+            type="number"
+            min={0}
+            step="any"
+            value={value.minutes}
+            onChange={(e) => onChange({ kind: 'hourglass', minutes: Number(e.target.value) })}
+          />
+          <p className="text-xs text-muted-foreground">{t('hourglassDescription')}</p>
+        </div>
+      ) : value.kind === 'stages' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[4rem_4rem_1fr_4rem_2rem] gap-2 text-xs text-muted-foreground">
+            <span>{t('stageMoves')}</span>
+            <span>{t('minutes')}</span>
+            <span>{t('bonusMode')}</span>
+            <span>{t('seconds')}</span>
+          </div>
+          {value.stages.map((stage, index) => (
+            <div key={index} className="grid grid-cols-[4rem_4rem_1fr_4rem_2rem] gap-2 items-center">
+              <Input
+                type="number"
+                min={1}
+                placeholder={index === value.stages.length - 1 ? '∞' : undefined}
+                title={t('restOfGame')}
+                value={stage.moves ?? ''}
+                onChange={(e) => updateStage(index, { moves: e.target.value ? Number(e.target.value) : undefined })}
+              />
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={stage.minutes}
+                onChange={(e) => updateStage(index, { minutes: Number(e.target.value) })}
+              />
+              <Select value={stage.mode} onValueChange={(mode) => updateStage(index, { mode: mode as BonusMode })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BONUS_MODE_LABELS) as BonusMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {t(BONUS_MODE_LABELS[mode])}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                value={stage.bonus}
+                onChange={(e) => updateStage(index, { bonus: Number(e.target.value) })}
+              />
+              {value.stages.length > 1 ? (
+                <Button type="button" size="icon" variant="ghost" onClick={() => removeStage(index)} title={t('removeStage')}>
+                  <X className="w-4 h-4" />
+                </Button>
+              ) : <span />}
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={addStage}>
+            <Plus className="w-4 h-4 mr-1" />
+            {t('addStage')}
+          </Button>
+        </div>
+      )}
+
+      <p className={isValid ? 'text-sm font-mono' : 'text-sm text-destructive'}>
+        {isValid ? formatTimeControl(value) : t('invalidTimeControl')}
+      </p>
+    </div>
+  );
+};
+
+export default TimeControlBuilder;
@@ -33,12 +33,46 @@ const translations: Translations = {
   // Game Setup
   gameSetup: { en: 'Game Setup', ar: 'إعداد اللعبة' },
   timeControl: { en: 'Time Control', ar: 'التحكم بالوقت' },
+  customTimeControl: { en: 'Custom...', ar: 'مخصص...' },
+  hourglass: { en: 'Hourglass', ar: 'الساعة الرملية' },
+  hourglassDescription: { en: "Time used by one player is added to the other's clock", ar: 'الوقت الذي يستهلكه لاعب يضاف إلى ساعة الآخر' },
+  stageMoves: { en: 'Moves', ar: 'النقلات' },
+  restOfGame: { en: 'Leave empty for the rest of the game', ar: 'اتركه فارغًا لبقية اللعبة' },
+  bonusMode: { en: 'Per move', ar: 'لكل نقلة' },
+  simpleDelay: { en: 'Simple delay', ar: 'تأخير بسيط' },
+  bronsteinDelay: { en: 'Bronstein delay', ar: 'تأخير برونشتاين' },
+  addStage: { en: 'Add stage', ar: 'إضافة مرحلة' },
+  removeStage: { en: 'Remove stage', ar: 'حذف المرحلة' },
+  invalidTimeControl: { en: 'Invalid time control', ar: 'تحكم بالوقت غير صالح' },
+  moveBy: { en: 'Move by', ar: 'حرّك قبل' },
+  timeLeft: { en: 'Time left', ar: 'الوقت المتبقي' },
   minutes: { en: 'minutes', ar: 'دقائق' },
   increment: { en: 'increment', ar: 'زيادة' },
   seconds: { en: 'seconds', ar: 'ثواني' },
   allowSpectators: { en: 'Allow Spectators', ar: 'السماح للمشاهدين' },
   startGame: { en: 'Start Game', ar: 'ابدأ اللعبة' },
   yourName: { en: 'Your Name', ar: 'اسمك' },
+  variant: { en: 'Variant', ar: 'نوع اللعبة' },
+  'variant.standard': { en: 'Standard Chess', ar: 'الشطرنج القياسي' },
+  'variant.standard.description': { en: 'Modern chess with the usual rules', ar: 'الشطرنج الحديث بالقواعد المعتادة' },
+  'variant.chess960': { en: 'Chess960', ar: 'شطرنج 960' },
+  'variant.chess960.description': { en: 'Fischer Random: the back-rank pieces start in one of 960 shuffled positions', ar: 'شطرنج فيشر العشوائي: تبدأ القطع الخلفية في أحد 960 ترتيبًا عشوائيًا' },
+  startPosition: { en: 'Start position (0-959)', ar: 'وضعية البداية (0-959)' },
+  randomStartPosition: { en: 'Random', ar: 'عشوائي' },
+  invalidStartPosition: { en: 'Start position must be a number from 0 to 959', ar: 'يجب أن تكون وضعية البداية رقمًا من 0 إلى 959' },
+  chess960Position: { en: 'Chess960 position', ar: 'وضعية شطرنج 960' },
+  'variant.shatranj': { en: 'Shatranj', ar: 'الشطرنج القديم (الشترنج)' },
+  'variant.shatranj.description': { en: 'Historical Arabic chess: ferz and alfil, no castling, a bare king loses', ar: 'الشطرنج العربي التاريخي: الفرزان والفيل القديم، بلا تبييت، والملك المجرد يخسر' },
+  playVsComputer: { en: 'Play vs Computer', ar: 'العب ضد الحاسوب' },
+  computerLevel: { en: 'Computer Level', ar: 'مستوى الحاسوب' },
+  playAs: { en: 'Play As', ar: 'العب بـ' },
+  randomColor: { en: 'Random', ar: 'عشوائي' },
+  engineLevel1: { en: 'Beginner', ar: 'مبتدئ' },
+  engineLevel2: { en: 'Novice', ar: 'مبتدئ متقدم' },
+  engineLevel3: { en: 'Casual', ar: 'هاوٍ' },
+  engineLevel4: { en: 'Intermediate', ar: 'متوسط' },
+  engineLevel5: { en: 'Club Player', ar: 'لاعب نادٍ' },
+  engineLevel6: { en: 'Strong Club Player', ar: 'لاعب نادٍ قوي' },
   
   // Room Codes
   playerCode: { en: 'Player Code', ar: 'رمز اللاعب' },
@@ -52,8 +86,13 @@ const translations: Translations = {
   opponentTurn: { en: "Opponent's Turn", ar: 'دور الخصم' },
   waitingForOpponent: { en: 'Waiting for opponent...', ar: 'في انتظار الخصم...' },
   gameOver: { en: 'Game Over', ar: 'انتهت اللعبة' },
+  resumeGames: { en: 'Your Games', ar: 'ألعابك' },
+  resumeGame: { en: 'Resume game', ar: 'استئناف اللعبة' },
+  forgetGame: { en: 'Remove from list', ar: 'إزالة من القائمة' },
   checkmate: { en: 'Checkmate!', ar: 'كش ملك!' },
   stalemate: { en: 'Stalemate!', ar: 'تعادل!' },
+  stalemateWin: { en: 'Stalemate!', ar: 'خنق الملك!' },
+  bareKing: { en: 'Bare king!', ar: 'ملك مجرد!' },
   check: { en: 'Check!', ar: 'كش!' },
   whiteWins: { en: 'White Wins!', ar: 'الأبيض يفوز!' },
   blackWins: { en: 'Black Wins!', ar: 'الأسود يفوز!' },
@@ -64,6 +103,47 @@ const translations: Translations = {
   accept: { en: 'Accept', ar: 'قبول' },
   decline: { en: 'Decline', ar: 'رفض' },
   drawOfferPending: { en: 'Draw offer pending...', ar: 'عرض التعادل معلق...' },
+  requestTakeback: { en: 'Request Takeback', ar: 'طلب التراجع' },
+  takebackRequestReceived: { en: 'Opponent asks to take back their move', ar: 'الخصم يطلب التراجع عن نقلته' },
+  takebackRequestPending: { en: 'Takeback request pending...', ar: 'طلب التراجع معلق...' },
+  allowTakebacks: { en: 'Allow Takebacks', ar: 'السماح بالتراجع' },
+  offerRematch: { en: 'Offer Rematch', ar: 'عرض مباراة العودة' },
+  rematchOfferReceived: { en: 'Opponent offers a rematch', ar: 'الخصم يعرض مباراة العودة' },
+  rematchOfferPending: { en: 'Rematch offer pending...', ar: 'عرض مباراة العودة معلق...' },
+  matchScore: { en: 'Match score', ar: 'نتيجة المباراة' },
+  abortGame: { en: 'Abort Game', ar: 'إلغاء اللعبة' },
+  abortIn: { en: 'Aborted without a first move in', ar: 'تُلغى اللعبة إن لم تُلعب النقلة الأولى خلال' },
+  opponentLeft: { en: 'Your opponent has left the game', ar: 'غادر خصمك اللعبة' },
+  claimAbandonment: { en: 'Claim the Game', ar: 'المطالبة بالفوز' },
+  online: { en: 'Online', ar: 'متصل' },
+  offline: { en: 'Offline', ar: 'غير متصل' },
+  spectators: { en: 'Spectators', ar: 'المشاهدون' },
+  noSpectators: { en: 'Nobody is watching', ar: 'لا أحد يشاهد' },
+  conditionalMoves: { en: 'Conditional moves', ar: 'النقلات المشروطة' },
+  conditionalMovesHint: {
+    en: 'One variation per line: the move you expect, your reply, and so on. Your opponent cannot see them.',
+    ar: 'تفريعة في كل سطر: النقلة التي تتوقعها، ثم ردك، وهكذا. لا يستطيع خصمك رؤيتها.',
+  },
+  conditionalMovesOnOpponentTurn: {
+    en: "Conditional moves are set while it is your opponent's turn",
+    ar: 'تُضبط النقلات المشروطة أثناء دور خصمك',
+  },
+  conditionalMovesSaved: { en: 'Conditional moves saved', ar: 'تم حفظ النقلات المشروطة' },
+  save: { en: 'Save', ar: 'حفظ' },
+  computer: { en: 'Computer', ar: 'الحاسوب' },
+  computerThinking: { en: 'Computer is thinking...', ar: 'الحاسوب يفكر...' },
+  claimDraw: { en: 'Claim Draw', ar: 'المطالبة بالتعادل' },
+  drawByAgreement: { en: 'Draw by agreement', ar: 'تعادل بالاتفاق' },
+  drawByThreefold: { en: 'Draw by threefold repetition', ar: 'تعادل بتكرار الموقف ثلاث مرات' },
+  drawByFivefold: { en: 'Draw by fivefold repetition', ar: 'تعادل بتكرار الموقف خمس مرات' },
+  drawByFiftyMoves: { en: 'Draw by the 50-move rule', ar: 'تعادل بقاعدة الخمسين نقلة' },
+  drawBySeventyFiveMoves: { en: 'Draw by the 75-move rule', ar: 'تعادل بقاعدة الخمس والسبعين نقلة' },
+  drawByInsufficientMaterial: { en: 'Draw by insufficient material', ar: 'تعادل لعدم كفاية القطع' },
+  drawByTimeoutVsInsufficientMaterial: { en: 'Draw: time ran out, but there was no mating material', ar: 'تعادل: انتهى الوقت لكن الخصم لا يملك قطعًا كافية للكش' },
+  winOnTime: { en: 'Time ran out!', ar: 'انتهى الوقت!' },
+  winByResignation: { en: 'Resigned.', ar: 'استسلام.' },
+  winByAbandonment: { en: 'Game abandoned.', ar: 'تم التخلي عن اللعبة.' },
+  gameAborted: { en: 'Game aborted', ar: 'أُلغيت اللعبة' },
   
   // Chat
   chat: { en: 'Chat', ar: 'المحادثة' },
@@ -78,6 +158,12 @@ const translations: Translations = {
   colorTheme: { en: 'Color Theme', ar: 'لون المظهر' },
   darkMode: { en: 'Dark Mode', ar: 'الوضع الداكن' },
   lightMode: { en: 'Light Mode', ar: 'الوضع الفاتح' },
+  board: { en: 'Board', ar: 'الرقعة' },
+  animationSpeed: { en: 'Animation Speed', ar: 'سرعة الحركة' },
+  'animationSpeed.off': { en: 'Off', ar: 'بدون' },
+  'animationSpeed.fast': { en: 'Fast', ar: 'سريعة' },
+  'animationSpeed.normal': { en: 'Normal', ar: 'عادية' },
+  'animationSpeed.slow': { en: 'Slow', ar: 'بطيئة' },
   emerald: { en: 'Emerald', ar: 'زمردي' },
   sapphire: { en: 'Sapphire', ar: 'ياقوتي' },
   rose: { en: 'Rose', ar: 'وردي' },
@@ -90,6 +176,8 @@ const translations: Translations = {
   bishop: { en: 'Bishop', ar: 'الفيل' },
   knight: { en: 'Knight', ar: 'الحصان' },
   pawn: { en: 'Pawn', ar: 'البيدق' },
+  ferz: { en: 'Ferz', ar: 'الفرزان' },
+  alfil: { en: 'Alfil', ar: 'الفيل' },
   
   // Errors & Messages
   invalidMove: { en: 'Invalid move', ar: 'حركة غير صحيحة' },
@@ -103,6 +191,7 @@ const translations: Translations = {
   newGame: { en: 'New Game', ar: 'لعبة جديدة' },
   leaveGame: { en: 'Leave Game', ar: 'مغادرة اللعبة' },
   shareRoom: { en: 'Share Room', ar: 'مشاركة الغرفة' },
+  downloadPgn: { en: 'Download PGN', ar: 'تنزيل PGN' },
   
   // Misc
   vs: { en: 'vs', ar: 'ضد' },
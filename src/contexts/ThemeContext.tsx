@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { ANIMATION_SECONDS, AnimationSpeed } from '@/lib/boardAnimation';
 
 export type ColorTheme = 'emerald' | 'sapphire' | 'rose' | 'amber';
 export type Mode = 'light' | 'dark';
@@ -9,6 +10,8 @@ interface ThemeContextType {
   setColorTheme: (theme: ColorTheme) => void;
   setMode: (mode: Mode) => void;
   toggleMode: () => void;
+  animationSpeed: AnimationSpeed;
+  setAnimationSpeed: (speed: AnimationSpeed) => void;
 }
 
 const ThemeContext = createContext<ThemeContextType | undefined>(undefined);
@@ -25,6 +28,11 @@ export const ThemeProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
   });
 
+  const [animationSpeed, setAnimationSpeed] = useState<AnimationSpeed>(() => {
+    const saved = localStorage.getItem('chess-animation-speed');
+    return saved && saved in ANIMATION_SECONDS ? saved as AnimationSpeed : 'normal';
+  });
+
   useEffect(() => {
     localStorage.setItem('chess-color-theme', colorTheme);
     document.documentElement.setAttribute('data-theme', colorTheme);
@@ -39,12 +47,16 @@ export const ThemeProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, [mode]);
 
+  useEffect(() => {
+    localStorage.setItem('chess-animation-speed', animationSpeed);
+  }, [animationSpeed]);
+
   const toggleMode = () => {
     setMode(prev => prev === 'light' ? 'dark' : 'light');
   };
 
   return (
-    <ThemeContext.Provider value={{ colorTheme, mode, setColorTheme, setMode, toggleMode }}>
+    <ThemeContext.Provider value={{ colorTheme, mode, setColorTheme, setMode, toggleMode, animationSpeed, setAnimationSpeed }}>
       {children}
     </ThemeContext.Provider>
   );
@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GameState, getStartingFen, makeMove, toFen } from '@/lib/chess';
+import { EngineClient } from '@/lib/engine/client';
+import { EngineMove, parseUci, toUci } from '@/lib/engine/computer';
+import { EngineGoLimits, EngineResponse } from '@/lib/engine/protocol';
+
+interface UseEngineOptions {
+  enabled?: boolean;
+  limits?: EngineGoLimits;
+}
+
+export interface EngineAnalysis {
+  fen: string; // Position the analysis belongs to
+  depth: number;
+  score: number; // Centipawns from White's point of view
+  mate?: number; // Moves to mate, positive when White mates
+  nodes: number;
+  nps: number;
+  pv: string[]; // UCI
+  pvSan: string[];
+}
+
+// Replay a UCI line from the analysed position to get SAN for display
+function lineToSan(state: GameState, line: string[]): string[] {
+  const san: string[] = [];
+  let current = state;
+  for (const uci of line) {
+    const move = parseUci(uci);
+    const next = move && makeMove(current, move.from, move.to, move.promotion);
+    if (!next) break;
+    san.push(next.moves[next.moves.length - 1].notation || uci);
+    current = next;
+  }
+  return san;
+}
+
+// Analyse the current position in a Web Worker, streaming the latest result.
+// `bestMove` is set once the search finishes, e.g. to play it for the computer.
+export function useEngine(gameState: GameState | null, { enabled = true, limits = {} }: UseEngineOptions = {}) {
+  const [analysis, setAnalysis] = useState<EngineAnalysis | null>(null);
+  const [bestMove, setBestMove] = useState<{ fen: string; move: EngineMove } | null>(null);
+  const [searching, setSearching] = useState(false);
+  const clientRef = useRef<EngineClient | null>(null);
+  const searchRef = useRef<{ id: number; fen: string; state: GameState } | null>(null);
+  // The game as of the last render; only a change of position starts a search,
+  // though the game changes identity on every update
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+
+  const handleMessage = useCallback((response: EngineResponse) => {
+    const search = searchRef.current;
+    if (response.type === 'error') {
+      console.error('Engine error:', response.message);
+      return;
+    }
+    if (response.type === 'ready' || !search || response.id !== search.id) return;
+
+    const whiteToMove = search.state.turn === 'white';
+    if (response.type === 'info') {
+      setAnalysis({
+        fen: search.fen,
+        depth: response.depth,
+        score: whiteToMove ? response.score : -response.score,
+        mate: response.mate === undefined ? undefined : whiteToMove ? response.mate : -response.mate,
+        nodes: response.nodes,
+        nps: response.nps,
+        pv: response.pv,
+        pvSan: lineToSan(search.state, response.pv),
+      });
+    } else {
+      const move = response.move ? parseUci(response.move) : null;
+      setBestMove(move ? { fen: search.fen, move } : null);
+      setSearching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const client = new EngineClient(handleMessage);
+    clientRef.current = client;
+    return () => {
+      client.terminate();
+      clientRef.current = null;
+    };
+  }, [handleMessage]);
+
+  const fen = gameState ? toFen(gameState) : null;
+  const isOver = !gameState || !['playing', 'waiting'].includes(gameState.status);
+  const moveCount = gameState?.moves.length ?? 0;
+  const limitsKey = JSON.stringify(limits);
+
+  // Restart the search whenever the position (or what to search) changes
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+
+    const state = gameStateRef.current;
+    setAnalysis(null);
+    setBestMove(null);
+    if (!enabled || isOver || !state || !fen) {
+      searchRef.current = null;
+      client.stop();
+      setSearching(false);
+      return;
+    }
+
+    const id = client.go(getStartingFen(state), state.moves.map(toUci), JSON.parse(limitsKey), state.variant);
+    searchRef.current = { id, fen, state };
+    setSearching(true);
+  }, [fen, moveCount, enabled, isOver, limitsKey]);
+
+  const stop = useCallback(() => {
+    clientRef.current?.stop();
+  }, []);
+
+  const newGame = useCallback(() => {
+    clientRef.current?.newGame();
+  }, []);
+
+  return {
+    analysis,
+    bestMove,
+    searching,
+    stop,
+    newGame,
+  };
+}
@@ -1,6 +1,26 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integration-supabase/client';
-import { GameState, Position, PieceType, makeMove, createInitialGameState, parseTimeControl } from '@/lib/chess';
+import { GameState, Position, PieceType, getClaimableDraw, getWinner, makeMove } from '@/lib/chess';
+import { ConditionalMoves, parseConditionalMoves } from '@/lib/conditionalMoves';
+import { parseUci } from '@/lib/engine/computer';
+import {
+  ABANDONMENT_SECONDS,
+  HEARTBEAT_SECONDS,
+  HEARTBEAT_TIMEOUT_SECONDS,
+  MatchScore,
+  RoomAction,
+  RoomUpdate,
+  VersionedGameState,
+  applyRoomAction,
+  applyRoomUpdate,
+  parseGameState,
+  parseMatchScore,
+  submitRoomAction,
+} from '@/lib/roomActions';
+import { PresenceMeta, RoomPresence, opponentMissedSince, roomPresence } from '@/lib/presence';
+import { forgetSeat, getPlayerId, saveSeat } from '@/lib/seats';
+import { getTimeControl } from '@/lib/timeControl';
+import { VariantId, getVariant } from '@/lib/variants';
 import { toast } from 'sonner';
 
 interface Message {
@@ -16,9 +36,14 @@ interface Room {
   playerCode: string;
   spectatorCode: string;
   timeControl: string;
+  variant: VariantId;
+  startPosition: number | null; // Chess960 start position number
   allowSpectators: boolean;
+  allowTakebacks: boolean;
   playerWhiteId: string | null;
   playerBlackId: string | null;
+  matchScore: MatchScore | null; // Earlier games of the match, if this is a rematch
+  rematchRoomId: string | null;
   gameState: GameState;
 }
 
@@ -28,6 +53,36 @@ interface UseGameRoomOptions {
   isSpectator?: boolean;
 }
 
+interface MoveRow {
+  ply: number;
+  uci: string;
+  clock_after: number | null;
+  created_at: string;
+}
+
+// How long a room update may wait for its moves to stream in before the
+// whole game is read instead
+const MISSING_MOVES_WAIT_MS = 3000;
+
+// Play a move streamed from the chess_moves table if it is the next one in
+// `state`; one we already have (our own, or one that came with the room's
+// game) is ignored
+function applyMoveRow(state: GameState | null, row: MoveRow): GameState | null {
+  if (!state || row.ply !== state.moves.length + 1) return state;
+  const move = parseUci(row.uci);
+  const next = move && makeMove(state, move.from, move.to, move.promotion);
+  if (!next) return state;
+
+  // Start the opponent's clock from the logged move until the room update
+  // brings the exact clocks
+  const clock = row.clock_after ?? (state.turn === 'white' ? state.whiteTime : state.blackTime);
+  return {
+    ...next,
+    [state.turn === 'white' ? 'whiteTime' : 'blackTime']: clock,
+    lastMoveAt: Date.parse(row.created_at),
+  };
+}
+
 export function useGameRoom({ roomCode, playerName, isSpectator = false }: UseGameRoomOptions) {
   const [room, setRoom] = useState<Room | null>(null);
   const [gameState, setGameState] = useState<GameState | null>(null);
@@ -35,8 +90,29 @@ export function useGameRoom({ roomCode, playerName, isSpectator = false }: UseGa
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [playerColor, setPlayerColor] = useState<'white' | 'black' | null>(null);
-  const [playerId] = useState(() => `player_${Math.random().toString(36).substr(2, 9)}`);
+  const [rematchCode, setRematchCode] = useState<string | null>(null); // Code to follow the rematch with
+  const [presence, setPresence] = useState<RoomPresence>({ white: false, black: false, spectators: [] });
+  const [opponentGoneSince, setOpponentGoneSince] = useState<number | null>(null); // Local time, from presence
+  const opponentOnlineRef = useRef<boolean | null>(null); // Null until the opponent has been seen
+  const [canClaimAbandonment, setCanClaimAbandonment] = useState(false);
+  // Kept per room across reloads, so the seat can be reclaimed
+  const [playerId] = useState(() => getPlayerId(roomCode));
   const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const versionRef = useRef(0); // Version of the game currently shown
+  // The latest room update, until the moves it counts have streamed in
+  const [pendingUpdate, setPendingUpdate] = useState<RoomUpdate | null>(null);
+  const clockOffsetRef = useRef(0); // Server time minus local time, in ms
+
+  // Clocks are run from server time, estimated from the join response
+  const serverNow = useCallback(() => Date.now() + clockOffsetRef.current, []);
+
+  // Show a game from the server unless a newer one has been seen already;
+  // our own writes and realtime updates may arrive in either order
+  const acceptGame = useCallback(({ gameState: next, version }: VersionedGameState) => {
+    if (version < versionRef.current) return;
+    versionRef.current = version;
+    setGameState(next);
+  }, []);
 
   // Fetch room data
   const fetchRoom = useCallback(async () => {
@@ -61,69 +137,57 @@ export function useGameRoom({ roomCode, playerName, isSpectator = false }: UseGa
       const isPlayerCode = roomData.player_code === roomCode;
       
       // Parse game state
-      let parsedGameState: GameState;
-      if (roomData.game_state && typeof roomData.game_state === 'object') {
-        const gs = roomData.game_state as Record<string, unknown>;
-        parsedGameState = {
-          board: gs.board as GameState['board'] || createInitialGameState(roomData.time_control).board,
-          turn: (gs.turn as 'white' | 'black') || 'white',
-          status: (gs.status as GameState['status']) || 'waiting',
-          moves: (gs.moves as GameState['moves']) || [],
-          whiteTime: (gs.whiteTime as number) || 600,
-          blackTime: (gs.blackTime as number) || 600,
-          lastMove: gs.lastMove as GameState['lastMove'],
-          enPassantTarget: gs.enPassantTarget as GameState['enPassantTarget'],
-          winner: gs.winner as GameState['winner'],
-        };
-      } else {
-        parsedGameState = createInitialGameState(roomData.time_control);
-      }
+      const variant = getVariant(roomData.variant).id;
+      const startPosition = variant === 'chess960' ? roomData.start_position : null;
+      const parsedGameState = parseGameState(roomData.game_state, roomData.time_control, variant, startPosition);
 
       const room: Room = {
         id: roomData.id,
         playerCode: roomData.player_code,
         spectatorCode: roomData.spectator_code,
         timeControl: roomData.time_control,
+        variant,
+        startPosition,
         allowSpectators: roomData.allow_spectators,
+        allowTakebacks: roomData.allow_takebacks,
         playerWhiteId: roomData.player_white_id,
         playerBlackId: roomData.player_black_id,
+        matchScore: parseMatchScore(roomData.match_score),
+        rematchRoomId: roomData.rematch_room_id,
         gameState: parsedGameState,
       };
 
-      // Assign player color if joining as player
+      // Take a seat if joining as player; the game-action function assigns it
       if (isPlayerCode && !isSpectator) {
-        let color: 'white' | 'black' | null = null;
-        
-        if (!roomData.player_white_id) {
-          // Join as white
-          await supabase
-            .from('chess_rooms')
-            .update({ player_white_id: playerId })
-            .eq('id', roomData.id);
-          color = 'white';
-          room.playerWhiteId = playerId;
-        } else if (roomData.player_white_id === playerId) {
-          color = 'white';
-        } else if (!roomData.player_black_id) {
-          // Join as black
-          await supabase
-            .from('chess_rooms')
-            .update({ player_black_id: playerId })
-            .eq('id', roomData.id);
-          color = 'black';
-          room.playerBlackId = playerId;
-        } else if (roomData.player_black_id === playerId) {
-          color = 'black';
-        } else {
-          // Room is full, join as spectator
+        const { data: seat, error: joinError } = await supabase.functions.invoke('game-action', {
+          body: { roomId: roomData.id, playerId, action: { type: 'join', playerCode: roomCode } },
+        });
+        if (joinError) throw joinError;
+        clockOffsetRef.current = seat.serverTime - Date.now();
+
+        if (!seat.color) {
+          // Room is full, join as spectator; any seat saved here is stale
+          forgetSeat(roomData.id);
           setError('Room is full');
           return;
         }
-        
-        setPlayerColor(color);
+
+        saveSeat({ roomId: roomData.id, playerCode: roomData.player_code, playerId, color: seat.color });
+
+        room.playerWhiteId = seat.playerWhiteId;
+        room.playerBlackId = seat.playerBlackId;
+        setPlayerColor(seat.color);
+      } else {
+        // Spectators still run the clocks on the server's time
+        const { data: time, error: timeError } = await supabase.functions.invoke('game-action', {
+          body: { roomId: roomData.id, playerId, action: { type: 'time' } },
+        });
+        if (timeError) console.error('Error reading the server time:', timeError);
+        else clockOffsetRef.current = time.serverTime - Date.now();
       }
 
       setRoom(room);
+      versionRef.current = roomData.version;
       setGameState(parsedGameState);
     } catch (err) {
       console.error('Error fetching room:', err);
@@ -157,183 +221,206 @@ export function useGameRoom({ roomCode, playerName, isSpectator = false }: UseGa
     })) || []);
   }, [room]);
 
-  // Make a chess move
-  const makeChessMove = useCallback(async (from: Position, to: Position, promotion?: PieceType) => {
-    if (!room || !gameState || !playerColor) return false;
+  // Apply an action locally so the board updates straight away, then submit
+  // it to the game-action function, which validates it against the stored
+  // game and, if the game changed in the meantime, has it reconciled and
+  // retried. Returns the saved state, or null if the action was rejected.
+  const submitAction = useCallback(async (action: RoomAction, failureMessage?: string) => {
+    if (!room || !gameState || !playerColor) return null;
 
-    // Validate it's player's turn
-    if (gameState.turn !== playerColor) {
-      toast.error('Not your turn');
-      return false;
-    }
-
-    const newState = makeMove(gameState, from, to, promotion);
-    if (!newState) {
-      toast.error('Invalid move');
-      return false;
+    let newState: GameState;
+    try {
+      newState = applyRoomAction(gameState, playerColor, action, room.timeControl, serverNow());
+    } catch (err) {
+      toast.error((err as Error).message);
+      return null;
     }
-
-    // Update local state immediately
     setGameState(newState);
 
-    // Update database
-    const { error: updateError } = await supabase
-      .from('chess_rooms')
-      .update({
-        game_state: JSON.parse(JSON.stringify(newState)),
-      })
-      .eq('id', room.id);
-
-    if (updateError) {
-      console.error('Error updating game:', updateError);
-      toast.error('Failed to save move');
-      setGameState(gameState); // Rollback
-      return false;
+    let latest: VersionedGameState = { gameState, version: versionRef.current };
+    try {
+      const saved = await submitRoomAction(supabase, room, playerId, playerColor, latest, action, (stale) => {
+        latest = stale;
+        acceptGame(stale);
+      }, undefined, serverNow);
+      acceptGame(saved);
+      return saved.gameState;
+    } catch (err) {
+      console.error('Error submitting action:', err);
+      if (failureMessage) toast.error(failureMessage);
+      setGameState(latest.gameState); // Rollback
+      return null;
     }
+  }, [room, gameState, playerColor, playerId, acceptGame, serverNow]);
 
-    return true;
-  }, [room, gameState, playerColor]);
-
-  // Handle timeout (flag fall)
-  const handleTimeout = useCallback(async (loser: 'white' | 'black') => {
-    if (!room || !gameState || gameState.status !== 'playing') return;
-
-    const winner = loser === 'white' ? 'black' : 'white';
-    const newState: GameState = {
-      ...gameState,
-      status: 'checkmate', // Using checkmate status for timeout win
-      winner,
-    };
+  // Make a chess move
+  const makeChessMove = useCallback(async (from: Position, to: Position, promotion?: PieceType) => {
+    const saved = await submitAction({ type: 'move', from, to, promotion }, 'Failed to save move');
+    return Boolean(saved);
+  }, [submitAction]);
 
-    setGameState(newState);
+  // Ask the server to end the game when the side to move is out of time, or
+  // hasn't made a first move in time; it checks against its own clock
+  const handleTimeout = useCallback(async () => {
+    if (!gameState || gameState.status === 'over') return;
 
-    await supabase
-      .from('chess_rooms')
-      .update({
-        game_state: JSON.parse(JSON.stringify(newState)),
-      })
-      .eq('id', room.id);
+    // Both players' clocks report the flag fall; only the first is needed
+    const saved = await submitAction({ type: 'timeout' });
+    if (!saved) return;
 
-    toast.info(`${winner === 'white' ? 'White' : 'Black'} wins on time!`);
-  }, [room, gameState]);
+    const winner = getWinner(saved);
+    if (saved.termination === 'aborted') toast.info('No first move was made. Game aborted.');
+    else toast.info(winner ? `${winner === 'white' ? 'White' : 'Black'} wins on time!` : 'Time ran out with no mating material. Draw!');
+  }, [gameState, submitAction]);
 
   // Handle resign
   const handleResign = useCallback(async () => {
-    if (!room || !gameState || !playerColor || gameState.status !== 'playing') return;
+    const saved = await submitAction({ type: 'resign' }, 'Failed to resign');
+    if (!saved) return;
 
-    const winner = playerColor === 'white' ? 'black' : 'white';
-    const newState: GameState = {
-      ...gameState,
-      status: 'resigned',
-      winner,
-    };
+    toast.info(`${playerColor === 'white' ? 'White' : 'Black'} resigned. ${getWinner(saved) === 'white' ? 'White' : 'Black'} wins!`);
+  }, [playerColor, submitAction]);
 
-    setGameState(newState);
+  // Handle offer draw
+  const handleOfferDraw = useCallback(async () => {
+    const saved = await submitAction({ type: 'offer-draw' }, 'Failed to offer draw');
+    if (!saved) return;
 
-    const { error: updateError } = await supabase
-      .from('chess_rooms')
-      .update({
-        game_state: JSON.parse(JSON.stringify(newState)),
-      })
-      .eq('id', room.id);
+    toast.info('Draw offer sent to opponent');
+  }, [submitAction]);
 
-    if (updateError) {
-      console.error('Error resigning:', updateError);
-      toast.error('Failed to resign');
-      return;
-    }
+  // Handle accept draw
+  const handleAcceptDraw = useCallback(async () => {
+    const saved = await submitAction({ type: 'accept-draw' }, 'Failed to accept draw');
+    if (!saved) return;
 
-    toast.info(`${playerColor === 'white' ? 'White' : 'Black'} resigned. ${winner === 'white' ? 'White' : 'Black'} wins!`);
-  }, [room, gameState, playerColor]);
+    toast.info('Draw accepted! Game ended in a draw.');
+  }, [submitAction]);
 
-  // Handle offer draw
-  const handleOfferDraw = useCallback(async () => {
-    if (!room || !gameState || !playerColor || gameState.status !== 'playing') return;
+  // Handle decline draw
+  const handleDeclineDraw = useCallback(async () => {
+    const saved = await submitAction({ type: 'decline-draw' }, 'Failed to decline draw');
+    if (!saved) return;
 
-    // Check if there's already a pending draw offer
-    if (gameState.drawOffer) {
-      toast.error('There is already a pending draw offer');
-      return;
-    }
+    toast.info('Draw offer declined. Game continues.');
+  }, [submitAction]);
 
-    const newState: GameState = {
-      ...gameState,
-      drawOffer: playerColor,
-    };
+  // Ask the opponent to take back our last move
+  const handleOfferTakeback = useCallback(async () => {
+    const saved = await submitAction({ type: 'offer-takeback' }, 'Failed to request takeback');
+    if (!saved) return;
 
-    setGameState(newState);
+    toast.info('Takeback request sent to opponent');
+  }, [submitAction]);
 
-    const { error: updateError } = await supabase
-      .from('chess_rooms')
-      .update({
-        game_state: JSON.parse(JSON.stringify(newState)),
-      })
-      .eq('id', room.id);
+  const handleAcceptTakeback = useCallback(async () => {
+    const saved = await submitAction({ type: 'accept-takeback' }, 'Failed to accept takeback');
+    if (!saved) return;
 
-    if (updateError) {
-      console.error('Error offering draw:', updateError);
-      toast.error('Failed to offer draw');
-      return;
-    }
+    toast.info('Takeback accepted. The move was taken back.');
+  }, [submitAction]);
 
-    toast.info('Draw offer sent to opponent');
-  }, [room, gameState, playerColor]);
+  const handleDeclineTakeback = useCallback(async () => {
+    const saved = await submitAction({ type: 'decline-takeback' }, 'Failed to decline takeback');
+    if (!saved) return;
 
-  // Handle accept draw
-  const handleAcceptDraw = useCallback(async () => {
-    if (!room || !gameState || !playerColor || gameState.status !== 'playing') return;
+    toast.info('Takeback request declined.');
+  }, [submitAction]);
 
-    const newState: GameState = {
-      ...gameState,
-      status: 'draw',
-      winner: undefined,
-      drawOffer: undefined,
-    };
+  // Call the game off before both sides have moved
+  const handleAbort = useCallback(async () => {
+    const saved = await submitAction({ type: 'abort' }, 'Failed to abort the game');
+    if (!saved) return;
 
-    setGameState(newState);
+    toast.info('Game aborted.');
+  }, [submitAction]);
 
-    const { error: updateError } = await supabase
-      .from('chess_rooms')
-      .update({
-        game_state: JSON.parse(JSON.stringify(newState)),
-      })
-      .eq('id', room.id);
+  const handleClaimAbandonment = useCallback(async () => {
+    const saved = await submitAction({ type: 'claim-abandonment' }, 'Failed to claim the game');
+    if (!saved) return;
 
-    if (updateError) {
-      console.error('Error accepting draw:', updateError);
-      toast.error('Failed to accept draw');
-      return;
-    }
+    toast.info(getWinner(saved) ? 'Opponent left the game. You win!' : 'Opponent left the game. Draw!');
+  }, [submitAction]);
 
-    toast.info('Draw accepted! Game ended in a draw.');
-  }, [room, gameState, playerColor]);
+  const handleOfferRematch = useCallback(async () => {
+    const saved = await submitAction({ type: 'offer-rematch' }, 'Failed to offer rematch');
+    if (!saved) return;
 
-  // Handle decline draw
-  const handleDeclineDraw = useCallback(async () => {
-    if (!room || !gameState || !playerColor || gameState.status !== 'playing') return;
+    toast.info('Rematch offer sent to opponent');
+  }, [submitAction]);
 
-    const newState: GameState = {
-      ...gameState,
-      drawOffer: undefined,
-    };
+  // The server sets up the rematch room; everyone follows it from the room
+  // update
+  const handleAcceptRematch = useCallback(async () => {
+    await submitAction({ type: 'accept-rematch' }, 'Failed to accept rematch');
+  }, [submitAction]);
 
-    setGameState(newState);
+  const handleDeclineRematch = useCallback(async () => {
+    const saved = await submitAction({ type: 'decline-rematch' }, 'Failed to decline rematch');
+    if (!saved) return;
 
-    const { error: updateError } = await supabase
-      .from('chess_rooms')
-      .update({
-        game_state: JSON.parse(JSON.stringify(newState)),
-      })
-      .eq('id', room.id);
+    toast.info('Rematch offer declined.');
+  }, [submitAction]);
 
-    if (updateError) {
-      console.error('Error declining draw:', updateError);
-      toast.error('Failed to decline draw');
+  // Move over to the rematch room, where players keep their player id and
+  // take the other colour
+  const followRematch = useCallback(async (rematchRoomId: string) => {
+    const { data: rematch, error: fetchError } = await supabase
+      .from('chess_rooms')
+      .select('id, player_code, spectator_code')
+      .eq('id', rematchRoomId)
+      .maybeSingle();
+    if (fetchError || !rematch) {
+      console.error('Error fetching rematch room:', fetchError);
       return;
     }
 
-    toast.info('Draw offer declined. Game continues.');
-  }, [room, gameState, playerColor]);
+    if (playerColor) {
+      saveSeat({
+        roomId: rematch.id,
+        playerCode: rematch.player_code,
+        playerId,
+        color: playerColor === 'white' ? 'black' : 'white',
+      });
+    }
+    toast.info('Rematch started!');
+    setRematchCode(playerColor ? rematch.player_code : rematch.spectator_code);
+  }, [playerColor, playerId]);
+
+  // Handle claim draw (threefold repetition or 50-move rule)
+  const handleClaimDraw = useCallback(async () => {
+    const saved = await submitAction({ type: 'claim-draw' }, 'Failed to claim draw');
+    if (!saved) return;
+
+    toast.info('Draw claimed. Game ended in a draw.');
+  }, [submitAction]);
+
+  // A correspondence player's conditional moves, which the server keeps out
+  // of the opponent's sight and plays as the opponent moves
+  const loadConditionalMoves = useCallback(async (): Promise<ConditionalMoves> => {
+    if (!room || !playerColor) return {};
+    const { data, error: loadError } = await supabase.functions.invoke('game-action', {
+      body: { roomId: room.id, playerId, action: { type: 'get-conditional-moves' } },
+    });
+    if (loadError) {
+      console.error('Error fetching conditional moves:', loadError);
+      return {};
+    }
+    return parseConditionalMoves(data.moves) ?? {};
+  }, [room, playerColor, playerId]);
+
+  const saveConditionalMoves = useCallback(async (moves: ConditionalMoves) => {
+    if (!room || !playerColor) return false;
+    const { error: saveError } = await supabase.functions.invoke('game-action', {
+      body: { roomId: room.id, playerId, action: { type: 'set-conditional-moves', moves } },
+    });
+    if (saveError) {
+      console.error('Error saving conditional moves:', saveError);
+      toast.error('Failed to save conditional moves');
+      return false;
+    }
+    return true;
+  }, [room, playerColor, playerId]);
 
   // Send a chat message
   const sendMessage = useCallback(async (message: string) => {
@@ -357,43 +444,48 @@ export function useGameRoom({ roomCode, playerName, isSpectator = false }: UseGa
     return true;
   }, [room, playerName, isSpectator, playerColor]);
 
+  // The room as of the last render. The subscription is per room, though the
+  // room changes identity as seats fill and a rematch starts.
+  const roomId = room?.id;
+  const roomRef = useRef(room);
+  roomRef.current = room;
+
   // Subscribe to real-time updates
   useEffect(() => {
-    if (!room) return;
+    if (!roomId) return;
 
     const channel = supabase
-      .channel(`room-${room.id}`)
+      .channel(`room-${roomId}`)
+      .on('broadcast', { event: 'room' }, ({ payload }) => {
+        // The game-action function's summary of each change to the room; the
+        // moves come separately, below
+        const update = payload as RoomUpdate;
+        const room = roomRef.current;
+        setPendingUpdate(prev => prev && prev.version >= update.version ? prev : update);
+        if (update.rematchRoomId && update.rematchRoomId !== room.rematchRoomId) {
+          setRoom(prev => prev ? { ...prev, rematchRoomId: update.rematchRoomId } : null);
+          followRematch(update.rematchRoomId);
+        }
+        if (update.playerWhiteId !== room.playerWhiteId || update.playerBlackId !== room.playerBlackId) {
+          setRoom(prev => prev ? {
+            ...prev,
+            playerWhiteId: update.playerWhiteId,
+            playerBlackId: update.playerBlackId,
+          } : null);
+        }
+      })
       .on(
         'postgres_changes',
         {
-          event: 'UPDATE',
+          event: 'INSERT',
           schema: 'public',
-          table: 'chess_rooms',
-          filter: `id=eq.${room.id}`,
+          table: 'chess_moves',
+          filter: `room_id=eq.${roomId}`,
         },
         (payload) => {
-          const newData = payload.new as Record<string, unknown>;
-          if (newData.game_state) {
-            const gs = newData.game_state as Record<string, unknown>;
-            setGameState({
-              board: gs.board as GameState['board'],
-              turn: (gs.turn as 'white' | 'black') || 'white',
-              status: (gs.status as GameState['status']) || 'waiting',
-              moves: (gs.moves as GameState['moves']) || [],
-              whiteTime: (gs.whiteTime as number) || 600,
-              blackTime: (gs.blackTime as number) || 600,
-              lastMove: gs.lastMove as GameState['lastMove'],
-              enPassantTarget: gs.enPassantTarget as GameState['enPassantTarget'],
-              winner: gs.winner as GameState['winner'],
-            });
-          }
-          if (newData.player_white_id !== room.playerWhiteId || newData.player_black_id !== room.playerBlackId) {
-            setRoom(prev => prev ? {
-              ...prev,
-              playerWhiteId: newData.player_white_id as string | null,
-              playerBlackId: newData.player_black_id as string | null,
-            } : null);
-          }
+          // Shown straight away; the room update that follows brings the
+          // rest of the game and its version
+          setGameState(prev => applyMoveRow(prev, payload.new as MoveRow));
         }
       )
       .on(
@@ -402,7 +494,7 @@ export function useGameRoom({ roomCode, playerName, isSpectator = false }: UseGa
           event: 'INSERT',
           schema: 'public',
           table: 'chess_messages',
-          filter: `room_id=eq.${room.id}`,
+          filter: `room_id=eq.${roomId}`,
         },
         (payload) => {
           const newMsg = payload.new as Record<string, unknown>;
@@ -415,14 +507,103 @@ export function useGameRoom({ roomCode, playerName, isSpectator = false }: UseGa
           }]);
         }
       )
-      .subscribe();
+      .on('presence', { event: 'sync' }, () => {
+        const present = roomPresence(channel.presenceState<PresenceMeta>());
+        setPresence(present);
+        if (!playerColor) return;
+
+        const isOpponentHere = present[playerColor === 'white' ? 'black' : 'white'];
+        setOpponentGoneSince(prev => opponentMissedSince(present, playerColor, prev, Date.now()));
+        if (opponentOnlineRef.current !== null && opponentOnlineRef.current !== isOpponentHere) {
+          if (isOpponentHere) toast.success('Your opponent reconnected');
+          else toast.warning('Your opponent disconnected');
+        }
+        if (isOpponentHere || opponentOnlineRef.current !== null) opponentOnlineRef.current = isOpponentHere;
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') channel.track({ color: playerColor, name: playerName });
+      });
 
     channelRef.current = channel;
 
     return () => {
       channel.unsubscribe();
+      setPendingUpdate(null);
     };
-  }, [room]);
+  }, [roomId, acceptGame, followRematch, playerColor, playerName]);
+
+  // Show the latest room update once every move it counts has arrived
+  useEffect(() => {
+    if (!pendingUpdate || !gameState || !room) return;
+    if (pendingUpdate.version <= versionRef.current) {
+      setPendingUpdate(null);
+      return;
+    }
+    const next = applyRoomUpdate(gameState, pendingUpdate);
+    if (next) {
+      setPendingUpdate(null);
+      acceptGame({ gameState: next, version: pendingUpdate.version });
+      return;
+    }
+
+    // A move lost on the way is made up for by reading the whole game
+    const timer = setTimeout(async () => {
+      const { data, error: fetchError } = await supabase
+        .from('chess_rooms')
+        .select('game_state, version')
+        .eq('id', room.id)
+        .maybeSingle();
+      if (fetchError || !data) {
+        console.error('Error reloading the game:', fetchError);
+        return;
+      }
+      setPendingUpdate(null);
+      acceptGame({
+        gameState: parseGameState(data.game_state, room.timeControl, room.variant, room.startPosition),
+        version: data.version,
+      });
+    }, MISSING_MOVES_WAIT_MS);
+    return () => clearTimeout(timer);
+  }, [pendingUpdate, gameState, room, acceptGame]);
+
+  // Tell the server we're still here, so we can't be claimed against as gone
+  useEffect(() => {
+    if (!roomId || !playerColor) return;
+
+    const beat = async () => {
+      const { error: beatError } = await supabase.functions.invoke('game-action', {
+        body: { roomId, playerId, action: { type: 'heartbeat' } },
+      });
+      if (beatError) console.error('Error sending heartbeat:', beatError);
+    };
+    // Hidden tabs may skip beats, so catch up as soon as the tab is back
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') beat();
+    };
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_SECONDS * 1000);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [roomId, playerColor, playerId]);
+
+  // An opponent who has left with their clock running can be claimed against
+  // once both have gone on long enough; correspondence players come and go
+  useEffect(() => {
+    setCanClaimAbandonment(false);
+    if (!room || !gameState || !playerColor || opponentGoneSince === null) return;
+    if (gameState.status !== 'playing' || gameState.turn === playerColor) return;
+    if (getTimeControl(room.timeControl).kind === 'correspondence') return;
+
+    const wait = Math.max(
+      opponentGoneSince + HEARTBEAT_TIMEOUT_SECONDS * 1000 - Date.now(),
+      (gameState.lastMoveAt ?? 0) + ABANDONMENT_SECONDS * 1000 - serverNow(),
+    );
+    const timer = setTimeout(() => setCanClaimAbandonment(true), Math.max(0, wait));
+    return () => clearTimeout(timer);
+  }, [room, gameState, playerColor, opponentGoneSince, serverNow]);
 
   // Initial data fetch
   useEffect(() => {
@@ -447,11 +628,37 @@ export function useGameRoom({ roomCode, playerName, isSpectator = false }: UseGa
     sendMessage,
     playerId,
     opponentJoined: Boolean(room?.playerWhiteId && room?.playerBlackId),
+    serverNow,
     handleTimeout,
     handleResign,
     handleOfferDraw,
     handleAcceptDraw,
     handleDeclineDraw,
+    handleClaimDraw,
+    loadConditionalMoves,
+    saveConditionalMoves,
+    handleOfferTakeback,
+    handleAcceptTakeback,
+    handleDeclineTakeback,
+    handleAbort,
+    handleClaimAbandonment,
+    handleOfferRematch,
+    handleAcceptRematch,
+    handleDeclineRematch,
+    rematchCode,
+    presence,
+    canAbort: Boolean(
+      playerColor && room?.playerWhiteId && room?.playerBlackId &&
+      gameState && gameState.status !== 'over' && gameState.moves.length < 2
+    ),
+    canClaimAbandonment,
     drawOffer: gameState?.drawOffer,
+    rematchOffer: room?.rematchRoomId ? undefined : gameState?.rematchOffer,
+    canOfferRematch: Boolean(playerColor && !room?.rematchRoomId),
+    takebackOffer: gameState?.takebackOffer,
+    canOfferTakeback: Boolean(
+      room?.allowTakebacks && playerColor && gameState?.moves.some(move => move.piece.color === playerColor)
+    ),
+    claimableDraw: gameState && playerColor === gameState.turn ? getClaimableDraw(gameState) : null,
   };
 }
@@ -1,105 +1,52 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase } from '@/integration-supabase/client';
-import { GameState, parseTimeControl } from '@/lib/chess';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { GameState } from '@/lib/chess';
+import { abortDeadline, flagDeadline, hasTimedOut, remainingTime } from '@/lib/clock';
+import { getTimeControl } from '@/lib/timeControl';
+
 interface UseGameTimerOptions {
-  roomId: string | null;
   gameState: GameState | null;
-  playerColor: 'white' | 'black' | null;
   timeControl: string;
-  onTimeout?: (loser: 'white' | 'black') => void;
+  serverNow: () => number; // Current time on the server's clock, in ms
+  onTimeout?: () => void;
 }
-export function useGameTimer({
-  roomId,
-  gameState,
-  playerColor,
-  timeControl,
-  onTimeout,
-}: UseGameTimerOptions) {
-  const [whiteTime, setWhiteTime] = useState(0);
-  const [blackTime, setBlackTime] = useState(0);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastUpdateRef = useRef<number>(Date.now());
-  const { increment } = parseTimeControl(timeControl);
-  // Initialize times from game state
+
+// How often to ask the server to confirm a flag fall it hasn't yet
+const TIMEOUT_RETRY_MS = 2000;
+
+// Displays the clocks of a room's game. The clocks are worked out from the
+// stored game, so every client shows the same time; the server decides the
+// flag fall, which is reported through `onTimeout` when the side to move
+// runs out, or doesn't make a first move in time.
+export function useGameTimer({ gameState, timeControl, serverNow, onTimeout }: UseGameTimerOptions) {
+  const clock = useMemo(() => getTimeControl(timeControl), [timeControl]);
+  const [now, setNow] = useState(serverNow);
+  const lastTimeoutRef = useRef(0);
+
   useEffect(() => {
-    if (gameState) {
-      setWhiteTime(gameState.whiteTime);
-      setBlackTime(gameState.blackTime);
-    }
-  }, [gameState?.whiteTime, gameState?.blackTime]);
-  // Timer countdown logic
-  useEffect(() => {
-    // Clear existing interval
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-    // Only run timer when game is actively playing
-    if (!gameState || gameState.status !== 'playing' || !roomId) {
-      return;
-    }
-    lastUpdateRef.current = Date.now();
-    intervalRef.current = setInterval(() => {
-      const now = Date.now();
-      const elapsed = Math.floor((now - lastUpdateRef.current) / 1000);
-      
-      if (elapsed < 1) return;
-      
-      lastUpdateRef.current = now;
-      if (gameState.turn === 'white') {
-        setWhiteTime(prev => {
-          const newTime = Math.max(0, prev - elapsed);
-          if (newTime === 0 && prev > 0) {
-            onTimeout?.('white');
-          }
-          return newTime;
-        });
-      } else {
-        setBlackTime(prev => {
-          const newTime = Math.max(0, prev - elapsed);
-          if (newTime === 0 && prev > 0) {
-            onTimeout?.('black');
-          }
-          return newTime;
-        });
+    setNow(serverNow());
+    if (!gameState || gameState.status === 'over' || gameState.lastMoveAt === undefined) return;
+
+    const interval = setInterval(() => {
+      const current = serverNow();
+      setNow(current);
+      if (hasTimedOut(gameState, current, clock) && current - lastTimeoutRef.current >= TIMEOUT_RETRY_MS) {
+        lastTimeoutRef.current = current;
+        onTimeout?.();
       }
     }, 100); // Update every 100ms for smooth display
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [gameState?.status, gameState?.turn, roomId, onTimeout]);
-  // Sync timer to database periodically and after moves
-  const syncTimerToDb = useCallback(async () => {
-    if (!roomId || !gameState || gameState.status !== 'playing') return;
-    const updatedState = {
-      ...gameState,
-      whiteTime,
-      blackTime,
-    };
-    await supabase
-      .from('chess_rooms')
-      .update({
-        game_state: JSON.parse(JSON.stringify(updatedState)),
-      })
-      .eq('id', roomId);
-  }, [roomId, gameState, whiteTime, blackTime]);
-  // Add increment after a move
-  const addIncrement = useCallback((color: 'white' | 'black') => {
-    if (increment > 0) {
-      if (color === 'white') {
-        setWhiteTime(prev => prev + increment);
-      } else {
-        setBlackTime(prev => prev + increment);
-      }
-    }
-  }, [increment]);
+
+    return () => clearInterval(interval);
+  }, [gameState, clock, serverNow, onTimeout]);
+
+  // Correspondence players are shown when they must move by, in local time
+  const deadline = gameState && clock.kind === 'correspondence' ? flagDeadline(gameState, clock) : null;
+  const abortAt = gameState ? abortDeadline(gameState, clock) : null;
+
   return {
-    whiteTime,
-    blackTime,
-    syncTimerToDb,
-    addIncrement,
+    whiteTime: gameState ? remainingTime(gameState, 'white', now, clock) : 0,
+    blackTime: gameState ? remainingTime(gameState, 'black', now, clock) : 0,
+    moveDeadline: deadline === null ? null : deadline - (serverNow() - Date.now()),
+    // Seconds left to make the first move before the game is aborted
+    abortIn: abortAt === null ? null : Math.max(0, (abortAt - now) / 1000),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { GameState, PieceColor, PieceType, Position } from '@/lib/chess';
+import { Premove, playablePremove } from '@/lib/premoves';
+
+interface UsePremovesOptions {
+  gameState: GameState | null;
+  playerColor: PieceColor | null;
+  onMove: (from: Position, to: Position, promotion?: PieceType) => unknown;
+}
+
+// Moves queued during the opponent's turn. As soon as the turn comes back the
+// first is played, if it's still legal; if not the whole queue is dropped,
+// since the later moves were planned around it. The next one waits for that
+// move and the opponent's reply to it to arrive.
+export function usePremoves({ gameState, playerColor, onMove }: UsePremovesOptions) {
+  const [premoves, setPremoves] = useState<Premove[]>([]);
+  const sentAtRef = useRef<number | null>(null); // Moves played when the last premove was sent
+
+  useEffect(() => {
+    if (!gameState || premoves.length === 0) return;
+    if (gameState.status === 'over') {
+      setPremoves([]);
+      return;
+    }
+    if (gameState.turn !== playerColor) return;
+    // A takeback past the last premove starts the count again
+    const sentAt = sentAtRef.current;
+    if (sentAt !== null && gameState.moves.length >= sentAt && gameState.moves.length < sentAt + 2) return;
+
+    const premove = playablePremove(gameState, premoves);
+    setPremoves(premove ? premoves.slice(1) : []);
+    if (!premove) return;
+    sentAtRef.current = gameState.moves.length;
+    Promise.resolve(onMove(premove.from, premove.to, premove.promotion)).then(played => {
+      // The rest of the queue was planned around a move that didn't happen
+      if (played === false) {
+        sentAtRef.current = null;
+        setPremoves([]);
+      }
+    });
+  }, [gameState, playerColor, premoves, onMove]);
+
+  const queuePremove = useCallback((premove: Premove) => {
+    setPremoves(prev => [...prev, premove]);
+  }, []);
+
+  const clearPremoves = useCallback(() => setPremoves([]), []);
+
+  return { premoves, queuePremove, clearPremoves };
+}
@@ -14,6 +14,38 @@ export type Database = {
   }
   public: {
     Tables: {
+      chess_conditional_moves: {
+        Row: {
+          color: string
+          moves: Json
+          ply: number
+          room_id: string
+          updated_at: string
+        }
+        Insert: {
+          color: string
+          moves: Json
+          ply: number
+          room_id: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          moves?: Json
+          ply?: number
+          room_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chess_conditional_moves_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chess_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chess_messages: {
         Row: {
           created_at: string
@@ -49,44 +81,140 @@ export type Database = {
           },
         ]
       }
+      chess_moves: {
+        Row: {
+          clock_after: number | null
+          created_at: string
+          fen_after: string
+          id: string
+          ply: number
+          room_id: string
+          san: string
+          uci: string
+        }
+        Insert: {
+          clock_after?: number | null
+          created_at?: string
+          fen_after: string
+          id?: string
+          ply: number
+          room_id: string
+          san: string
+          uci: string
+        }
+        Update: {
+          clock_after?: number | null
+          created_at?: string
+          fen_after?: string
+          id?: string
+          ply?: number
+          room_id?: string
+          san?: string
+          uci?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chess_moves_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chess_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chess_player_heartbeats: {
+        Row: {
+          color: string
+          room_id: string
+          seen_at: string
+        }
+        Insert: {
+          color: string
+          room_id: string
+          seen_at?: string
+        }
+        Update: {
+          color?: string
+          room_id?: string
+          seen_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chess_player_heartbeats_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chess_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chess_rooms: {
         Row: {
           allow_spectators: boolean
+          allow_takebacks: boolean
           created_at: string
           game_state: Json | null
           id: string
+          match_score: Json | null
+          move_deadline: string | null
           player_black_id: string | null
           player_code: string
           player_white_id: string | null
+          rematch_room_id: string | null
           spectator_code: string
+          start_position: number | null
           time_control: string
           updated_at: string
+          variant: string
+          version: number
         }
         Insert: {
           allow_spectators?: boolean
+          allow_takebacks?: boolean
           created_at?: string
           game_state?: Json | null
           id?: string
+          match_score?: Json | null
+          move_deadline?: string | null
           player_black_id?: string | null
           player_code: string
           player_white_id?: string | null
+          rematch_room_id?: string | null
           spectator_code: string
+          start_position?: number | null
           time_control?: string
           updated_at?: string
+          variant?: string
+          version?: number
         }
         Update: {
           allow_spectators?: boolean
+          allow_takebacks?: boolean
           created_at?: string
           game_state?: Json | null
           id?: string
+          match_score?: Json | null
+          move_deadline?: string | null
           player_black_id?: string | null
           player_code?: string
           player_white_id?: string | null
+          rematch_room_id?: string | null
           spectator_code?: string
+          start_position?: number | null
           time_control?: string
           updated_at?: string
+          variant?: string
+          version?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "chess_rooms_rematch_room_id_fkey"
+            columns: ["rematch_room_id"]
+            isOneToOne: false
+            referencedRelation: "chess_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
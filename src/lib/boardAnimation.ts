@@ -0,0 +1,62 @@
+// Works out how to animate the board from one position to the next from the
+// boards alone, so moves made here, moves arriving from the opponent and
+// takebacks all animate the same way
+
+import { Board, Piece, Position } from '@/lib/chess';
+
+export type AnimationSpeed = 'off' | 'fast' | 'normal' | 'slow';
+
+// How long a piece takes to slide to its square, in seconds
+export const ANIMATION_SECONDS: Record<AnimationSpeed, number> = {
+  off: 0,
+  fast: 0.1,
+  normal: 0.2,
+  slow: 0.35,
+};
+
+export interface BoardChanges {
+  slides: { from: Position; to: Position }[]; // Pieces to slide, the castling rook included
+  captured: { at: Position; piece: Piece }[]; // Pieces to fade out
+}
+
+// More changed squares than any single move makes (castling changes four)
+const MAX_CHANGED_SQUARES = 4;
+
+const samePiece = (a: Piece | null, b: Piece | null) => a?.type === b?.type && a?.color === b?.color;
+
+// The pieces that moved between two boards, or null if the change is more
+// than a move (a new game, say) and is best shown without animation
+export function getBoardChanges(before: Board, after: Board): BoardChanges | null {
+  const vacated: Position[] = [];
+  const arrived: Position[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      if (samePiece(before[row][col], after[row][col])) continue;
+      if (before[row][col]) vacated.push({ row, col });
+      if (after[row][col]) arrived.push({ row, col });
+    }
+  }
+  if (vacated.length + arrived.length === 0) return { slides: [], captured: [] };
+  if (vacated.length > MAX_CHANGED_SQUARES || arrived.length > MAX_CHANGED_SQUARES / 2) return null;
+
+  const slides: BoardChanges['slides'] = [];
+  const sources = [...vacated];
+  for (const to of arrived) {
+    const piece = after[to.row][to.col]!;
+    const candidates = sources.filter(({ row, col }) => before[row][col]!.color === piece.color);
+    // A promoted piece came from a pawn
+    const from = candidates.find(({ row, col }) => before[row][col]!.type === piece.type) ??
+      candidates.find(({ row, col }) => before[row][col]!.type === 'pawn');
+    if (!from) continue;
+    sources.splice(sources.indexOf(from), 1);
+    slides.push({ from, to });
+  }
+
+  // Pieces taken on the square moved to, or beside it en passant
+  const mover = slides.length > 0 ? after[slides[0].to.row][slides[0].to.col]!.color : null;
+  const captured = vacated
+    .filter(({ row, col }) => before[row][col]!.color !== mover)
+    .map(at => ({ at, piece: before[at.row][at.col]! }));
+
+  return { slides, captured };
+}
@@ -1,12 +1,16 @@
 // Chess Game Logic - Complete implementation with all rules
 
-export type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn';
+import { Board88, colOf, moveFrom, moveTarget, moveTo, rowOf, squareOf } from '@/lib/movegen';
+import { getTimeControl, initialTime } from '@/lib/timeControl';
+import { VARIANTS, VariantId, getVariant } from '@/lib/variants';
+
+// Ferz and alfil are the Shatranj counterparts of the queen and bishop
+export type PieceType = 'king' | 'queen' | 'rook' | 'bishop' | 'knight' | 'pawn' | 'ferz' | 'alfil';
 export type PieceColor = 'white' | 'black';
 
 export interface Piece {
   type: PieceType;
   color: PieceColor;
-  hasMoved?: boolean;
 }
 
 export type Square = Piece | null;
@@ -28,17 +32,73 @@ export interface Move {
   notation?: string;
 }
 
+// For each side, the file (column) of the rook it may still castle with, or
+// null once that right is lost. Storing the file rather than a flag keeps
+// positions with rooks away from the corners expressible.
+export interface CastlingRights {
+  white: { kingside: number | null; queenside: number | null };
+  black: { kingside: number | null; queenside: number | null };
+}
+
+export type DrawReason =
+  | 'agreement'
+  | 'threefold-repetition'
+  | 'fivefold-repetition'
+  | 'fifty-move-rule'
+  | 'seventy-five-move-rule'
+  | 'insufficient-material';
+
+export type GameResult = '1-0' | '0-1' | '1/2-1/2';
+
+// How a game ended
+export type Termination =
+  | 'checkmate'
+  | 'stalemate' // Drawn, or won by the stalemating side in some variants
+  | 'bare-king'
+  | 'resignation'
+  | 'timeout'
+  | 'timeout-vs-insufficient-material' // Drawn: the flag fell but the opponent couldn't have mated
+  | 'abandonment'
+  | 'aborted' // Called off early, without a result
+  | DrawReason;
+
 export interface GameState {
   board: Board;
   turn: PieceColor;
-  status: 'waiting' | 'playing' | 'checkmate' | 'stalemate' | 'draw' | 'resigned';
+  status: 'waiting' | 'playing' | 'over';
+  result?: GameResult; // Set when the game is over, unless it was aborted
+  termination?: Termination; // Why the game is over, when known
   moves: Move[];
-  whiteTime: number;
+  whiteTime: number; // Seconds left as of lastMoveAt
   blackTime: number;
+  lastMoveAt?: number; // Server time (ms) of the last move, when the side to move's clock started
   lastMove?: Move;
   enPassantTarget?: Position;
-  winner?: PieceColor;
+  castlingRights: CastlingRights;
   drawOffer?: PieceColor; // Which player offered the draw
+  takebackOffer?: PieceColor; // Which player asked to take back their last move
+  rematchOffer?: PieceColor; // Which player offered a rematch, once the game is over
+  clockHistory?: { whiteTime: number; blackTime: number }[]; // Both clocks after each ply, in rooms
+  halfmoveClock: number; // Plies since the last capture or pawn move
+  fullmoveNumber: number; // Starts at 1, incremented after Black moves
+  initialFen?: string; // Starting position when not the standard one
+  positionHistory: string[]; // Position keys after every ply, for repetition detection
+  variant?: VariantId; // Absent for standard chess
+}
+
+export const STARTING_FEN = VARIANTS.standard.startingFen;
+
+export function winResult(winner: PieceColor): GameResult {
+  return winner === 'white' ? '1-0' : '0-1';
+}
+
+// The winner of a finished game; undefined for draws and unfinished games
+export function getWinner(state: Pick<GameState, 'result'>): PieceColor | undefined {
+  return state.result === '1-0' ? 'white' : state.result === '0-1' ? 'black' : undefined;
+}
+
+export function endGame(state: GameState, result: GameResult | undefined, termination?: Termination): GameState {
+  return { ...state, status: 'over', result, termination, drawOffer: undefined, takebackOffer: undefined };
 }
 
 // Initialize a standard chess board
@@ -62,20 +122,76 @@ export function createInitialBoard(): Board {
   return board;
 }
 
-export function createInitialGameState(timeControl: string = '10+0'): GameState {
-  const [minutes] = timeControl.split('+').map(Number);
-  const timeInSeconds = (minutes || 10) * 60;
+// Chess960 start positions are numbered 0-959 following Scharnagl's scheme,
+// in which 518 is the standard setup
+export const CHESS960_POSITION_COUNT = 960;
+export const STANDARD_CHESS960_POSITION = 518;
+
+// Squares the two knights take among the five still empty once the bishops
+// and queen are placed
+const CHESS960_KNIGHTS = [[0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4]];
+
+function chess960BackRank(position: number): PieceType[] {
+  const rank: (PieceType | null)[] = Array(8).fill(null);
+  const placeOnEmpty = (type: PieceType, index: number) => {
+    const empty = rank.map((piece, col) => piece ? -1 : col).filter(col => col >= 0);
+    rank[empty[index]] = type;
+  };
+
+  let n = position;
+  rank[(n % 4) * 2 + 1] = 'bishop'; // Light squares: b, d, f, h
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = 'bishop'; // Dark squares: a, c, e, g
+  n = Math.floor(n / 4);
+  placeOnEmpty('queen', n % 6);
+  n = Math.floor(n / 6);
+  const [first, second] = CHESS960_KNIGHTS[n];
+  // Place the later knight first so the earlier index still points at the same square
+  placeOnEmpty('knight', second);
+  placeOnEmpty('knight', first);
+  // The king always stands between the rooks
+  placeOnEmpty('rook', 0);
+  placeOnEmpty('king', 0);
+  placeOnEmpty('rook', 0);
+  return rank as PieceType[];
+}
+
+// The FEN of a Chess960 start position by number
+export function chess960Fen(position: number): string {
+  if (!Number.isInteger(position) || position < 0 || position >= CHESS960_POSITION_COUNT) {
+    throw new Error(`Chess960 position must be a whole number from 0 to ${CHESS960_POSITION_COUNT - 1}, got ${position}`);
+  }
+  const rank = chess960BackRank(position).map(type => FEN_PIECE_LETTERS[type]).join('');
+  return `${rank}/pppppppp/8/8/8/8/PPPPPPPP/${rank.toUpperCase()} w KQkq - 0 1`;
+}
+
+export function randomChess960Position(): number {
+  return Math.floor(Math.random() * CHESS960_POSITION_COUNT);
+}
+
+export function createInitialGameState(timeControl: string = '10+0', fen?: string, variant: VariantId = 'standard'): GameState {
+  const timeInSeconds = initialTime(getTimeControl(timeControl));
+  const { startingFen } = getVariant(variant);
+  const position = parseFen(fen || startingFen, variant);
+  const normalizedFen = toFen(position);
   
   return {
-    board: createInitialBoard(),
-    turn: 'white',
+    ...position,
+    positionHistory: [getPositionKey(position)],
     status: 'waiting',
     moves: [],
     whiteTime: timeInSeconds,
     blackTime: timeInSeconds,
+    initialFen: normalizedFen === startingFen ? undefined : normalizedFen,
+    variant: variant === 'standard' ? undefined : variant,
   };
 }
 
+// The position a game started from
+export function getStartingFen(state: Pick<GameState, 'initialFen' | 'variant'>): string {
+  return state.initialFen || getVariant(state.variant).startingFen;
+}
+
 // Deep clone the board
 export function cloneBoard(board: Board): Board {
   return board.map(row => row.map(piece => piece ? { ...piece } : null));
@@ -92,210 +208,77 @@ export function isValidPosition(pos: Position): boolean {
   return pos.row >= 0 && pos.row < 8 && pos.col >= 0 && pos.col < 8;
 }
 
-// Get all possible moves for a piece (without considering check)
-function getRawMoves(board: Board, pos: Position, enPassantTarget?: Position): Position[] {
+// Check if the king is in check
+export function isInCheck(board: Board, color: PieceColor): boolean {
+  return Board88.fromBoard(board, color).inCheck();
+}
+
+// Get all legal moves for a piece (considering check)
+export function getLegalMoves(board: Board, pos: Position, enPassantTarget?: Position, castlingRights?: CastlingRights, variant?: VariantId): Position[] {
   const piece = getPiece(board, pos);
   if (!piece) return [];
 
-  const moves: Position[] = [];
-  const { row, col } = pos;
-  const direction = piece.color === 'white' ? -1 : 1;
-
-  switch (piece.type) {
-    case 'pawn': {
-      // Forward move
-      const forward = { row: row + direction, col };
-      if (isValidPosition(forward) && !getPiece(board, forward)) {
-        moves.push(forward);
-        // Double move from starting position
-        const startRow = piece.color === 'white' ? 6 : 1;
-        if (row === startRow) {
-          const doubleForward = { row: row + 2 * direction, col };
-          if (!getPiece(board, doubleForward)) {
-            moves.push(doubleForward);
-          }
-        }
-      }
-      // Captures
-      for (const dc of [-1, 1]) {
-        const capturePos = { row: row + direction, col: col + dc };
-        if (isValidPosition(capturePos)) {
-          const target = getPiece(board, capturePos);
-          if (target && target.color !== piece.color) {
-            moves.push(capturePos);
-          }
-          // En passant
-          if (enPassantTarget && capturePos.row === enPassantTarget.row && capturePos.col === enPassantTarget.col) {
-            moves.push(capturePos);
-          }
-        }
-      }
-      break;
-    }
-    case 'knight': {
-      const knightMoves = [
-        [-2, -1], [-2, 1], [-1, -2], [-1, 2],
-        [1, -2], [1, 2], [2, -1], [2, 1]
-      ];
-      for (const [dr, dc] of knightMoves) {
-        const newPos = { row: row + dr, col: col + dc };
-        if (isValidPosition(newPos)) {
-          const target = getPiece(board, newPos);
-          if (!target || target.color !== piece.color) {
-            moves.push(newPos);
-          }
-        }
-      }
-      break;
-    }
-    case 'bishop': {
-      for (const [dr, dc] of [[-1, -1], [-1, 1], [1, -1], [1, 1]]) {
-        addSlidingMoves(board, pos, dr, dc, piece.color, moves);
-      }
-      break;
-    }
-    case 'rook': {
-      for (const [dr, dc] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
-        addSlidingMoves(board, pos, dr, dc, piece.color, moves);
-      }
-      break;
-    }
-    case 'queen': {
-      for (const [dr, dc] of [[-1, -1], [-1, 1], [1, -1], [1, 1], [-1, 0], [1, 0], [0, -1], [0, 1]]) {
-        addSlidingMoves(board, pos, dr, dc, piece.color, moves);
-      }
-      break;
-    }
-    case 'king': {
-      for (let dr = -1; dr <= 1; dr++) {
-        for (let dc = -1; dc <= 1; dc++) {
-          if (dr === 0 && dc === 0) continue;
-          const newPos = { row: row + dr, col: col + dc };
-          if (isValidPosition(newPos)) {
-            const target = getPiece(board, newPos);
-            if (!target || target.color !== piece.color) {
-              moves.push(newPos);
-            }
-          }
-        }
-      }
-      // Castling
-      if (!piece.hasMoved) {
-        // Kingside castling
-        const kingsideRook = getPiece(board, { row, col: 7 });
-        if (kingsideRook?.type === 'rook' && !kingsideRook.hasMoved) {
-          if (!getPiece(board, { row, col: 5 }) && !getPiece(board, { row, col: 6 })) {
-            if (!isSquareAttacked(board, { row, col: 4 }, piece.color) &&
-                !isSquareAttacked(board, { row, col: 5 }, piece.color) &&
-                !isSquareAttacked(board, { row, col: 6 }, piece.color)) {
-              moves.push({ row, col: 6 });
-            }
-          }
-        }
-        // Queenside castling
-        const queensideRook = getPiece(board, { row, col: 0 });
-        if (queensideRook?.type === 'rook' && !queensideRook.hasMoved) {
-          if (!getPiece(board, { row, col: 1 }) && !getPiece(board, { row, col: 2 }) && !getPiece(board, { row, col: 3 })) {
-            if (!isSquareAttacked(board, { row, col: 4 }, piece.color) &&
-                !isSquareAttacked(board, { row, col: 3 }, piece.color) &&
-                !isSquareAttacked(board, { row, col: 2 }, piece.color)) {
-              moves.push({ row, col: 2 });
-            }
-          }
-        }
-      }
-      break;
-    }
-  }
-
-  return moves;
+  const from = squareOf(pos);
+  const rules = getVariant(variant);
+  const generator = Board88.fromBoard(board, piece.color, enPassantTarget, castlingRights, rules);
+  return generator.generateLegalMoves()
+    .filter(move => moveFrom(move) === from)
+    .map(move => moveTarget(move, rules))
+    // Promotions produce one move per piece type; report each square once
+    .filter((to, index, targets) => targets.indexOf(to) === index)
+    .map(to => ({ row: rowOf(to), col: colOf(to) }));
 }
 
-function addSlidingMoves(board: Board, pos: Position, dr: number, dc: number, color: PieceColor, moves: Position[]) {
-  let r = pos.row + dr;
-  let c = pos.col + dc;
-  
-  while (isValidPosition({ row: r, col: c })) {
-    const target = getPiece(board, { row: r, col: c });
-    if (!target) {
-      moves.push({ row: r, col: c });
-    } else {
-      if (target.color !== color) {
-        moves.push({ row: r, col: c });
-      }
-      break;
-    }
-    r += dr;
-    c += dc;
+// Castling is entered as the king's two-square move in standard chess, but
+// moving the king onto its own castling rook is accepted too: return the
+// square to pass to makeMove for a move entered as `from` to `to`
+export function resolveCastlingInput(board: Board, from: Position, to: Position, castlingRights?: CastlingRights, variant?: VariantId): Position {
+  const piece = getPiece(board, from);
+  const target = getPiece(board, to);
+  if (getVariant(variant).chess960Castling || !castlingRights || piece?.type !== 'king' ||
+      target?.type !== 'rook' || target.color !== piece.color || to.row !== from.row) {
+    return to;
   }
+  const side = to.col > from.col ? 'kingside' : 'queenside';
+  if (castlingRights[piece.color][side] !== to.col) return to;
+  return { row: from.row, col: side === 'kingside' ? 6 : 2 };
 }
 
-// Find king position
-function findKing(board: Board, color: PieceColor): Position | null {
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece?.type === 'king' && piece.color === color) {
-        return { row, col };
-      }
-    }
-  }
-  return null;
-}
-
-// Check if a square is attacked by the opponent
-function isSquareAttacked(board: Board, pos: Position, defenderColor: PieceColor): boolean {
-  const attackerColor = defenderColor === 'white' ? 'black' : 'white';
-  
-  for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const piece = board[row][col];
-      if (piece?.color === attackerColor) {
-        const moves = getRawMoves(board, { row, col });
-        if (moves.some(m => m.row === pos.row && m.col === pos.col)) {
-          return true;
-        }
-      }
-    }
+// Which side a legal king move castles to, if any: onto its own castling rook
+// under Chess960 rules, otherwise two squares sideways
+function getCastlingSide(state: GameState, piece: Piece, from: Position, to: Position): 'kingside' | 'queenside' | null {
+  if (piece.type !== 'king' || to.row !== from.row) return null;
+  const side = to.col > from.col ? 'kingside' : 'queenside';
+  if (getVariant(state.variant).chess960Castling) {
+    const target = getPiece(state.board, to);
+    const isOwnRook = target?.type === 'rook' && target.color === piece.color;
+    return isOwnRook && state.castlingRights[piece.color][side] === to.col ? side : null;
   }
-  return false;
+  return Math.abs(to.col - from.col) === 2 ? side : null;
 }
 
-// Check if the king is in check
-export function isInCheck(board: Board, color: PieceColor): boolean {
-  const kingPos = findKing(board, color);
-  if (!kingPos) return false;
-  return isSquareAttacked(board, kingPos, color);
-}
-
-// Get all legal moves for a piece (considering check)
-export function getLegalMoves(board: Board, pos: Position, enPassantTarget?: Position): Position[] {
-  const piece = getPiece(board, pos);
-  if (!piece) return [];
-
-  const rawMoves = getRawMoves(board, pos, enPassantTarget);
-  const legalMoves: Position[] = [];
-
-  for (const move of rawMoves) {
-    const testBoard = cloneBoard(board);
-    // Make the move on test board
-    testBoard[move.row][move.col] = { ...piece, hasMoved: true };
-    testBoard[pos.row][pos.col] = null;
-
-    // Handle en passant capture
-    if (piece.type === 'pawn' && enPassantTarget && 
-        move.row === enPassantTarget.row && move.col === enPassantTarget.col) {
-      const capturedPawnRow = piece.color === 'white' ? move.row + 1 : move.row - 1;
-      testBoard[capturedPawnRow][move.col] = null;
-    }
+// Castling rights after a move: moving the king loses both rights, and moving
+// a rook from (or capturing a rook on) its original square loses that side's
+export function updateCastlingRights(rights: CastlingRights, piece: Piece, from: Position, to: Position): CastlingRights {
+  const updated: CastlingRights = {
+    white: { ...rights.white },
+    black: { ...rights.black },
+  };
 
-    // Check if this move leaves the king in check
-    if (!isInCheck(testBoard, piece.color)) {
-      legalMoves.push(move);
+  if (piece.type === 'king') {
+    updated[piece.color] = { kingside: null, queenside: null };
+  }
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    const homeRow = color === 'white' ? 7 : 0;
+    for (const side of ['kingside', 'queenside'] as const) {
+      const rookCol = updated[color][side];
+      if (rookCol === null) continue;
+      const touched = [from, to].some(pos => pos.row === homeRow && pos.col === rookCol);
+      if (touched) updated[color][side] = null;
     }
   }
 
-  return legalMoves;
+  return updated;
 }
 
 // Make a move and return the new game state
@@ -303,13 +286,15 @@ export function makeMove(state: GameState, from: Position, to: Position, promoti
   const piece = getPiece(state.board, from);
   if (!piece || piece.color !== state.turn) return null;
 
-  const legalMoves = getLegalMoves(state.board, from, state.enPassantTarget);
+  const variant = getVariant(state.variant);
+  const legalMoves = getLegalMoves(state.board, from, state.enPassantTarget, state.castlingRights, state.variant);
   if (!legalMoves.some(m => m.row === to.row && m.col === to.col)) {
     return null;
   }
 
   const newBoard = cloneBoard(state.board);
-  const captured = getPiece(newBoard, to);
+  const castlingSide = getCastlingSide(state, piece, from, to);
+  const captured = castlingSide ? null : getPiece(newBoard, to);
   
   // Create move record
   const move: Move = {
@@ -321,15 +306,19 @@ export function makeMove(state: GameState, from: Position, to: Position, promoti
 
   // Handle special moves
   let newEnPassantTarget: Position | undefined;
-
-  // Castling
-  if (piece.type === 'king' && Math.abs(to.col - from.col) === 2) {
-    const isKingside = to.col > from.col;
-    const rookFromCol = isKingside ? 7 : 0;
-    const rookToCol = isKingside ? 5 : 3;
-    newBoard[from.row][rookToCol] = { ...newBoard[from.row][rookFromCol]!, hasMoved: true };
+  const castlingRights = updateCastlingRights(state.castlingRights, piece, from, to);
+
+  // Castling: the king ends on the g- or c-file with the rook beside it on
+  // the inside, wherever the two started
+  if (castlingSide) {
+    const isKingside = castlingSide === 'kingside';
+    const rookFromCol = state.castlingRights[piece.color][castlingSide]!;
+    const rook = newBoard[from.row][rookFromCol]!;
     newBoard[from.row][rookFromCol] = null;
-    move.castling = isKingside ? 'kingside' : 'queenside';
+    newBoard[from.row][from.col] = null;
+    newBoard[from.row][isKingside ? 6 : 2] = { ...piece };
+    newBoard[from.row][isKingside ? 5 : 3] = rook;
+    move.castling = castlingSide;
   }
 
   // En passant capture
@@ -346,67 +335,97 @@ export function makeMove(state: GameState, from: Position, to: Position, promoti
     newEnPassantTarget = { row: (from.row + to.row) / 2, col: from.col };
   }
 
-  // Pawn promotion
+  // Pawn promotion, to the variant's default piece unless another is chosen
   if (piece.type === 'pawn' && (to.row === 0 || to.row === 7)) {
-    newBoard[to.row][to.col] = { type: promotion || 'queen', color: piece.color, hasMoved: true };
-    move.promotion = promotion || 'queen';
-  } else {
-    newBoard[to.row][to.col] = { ...piece, hasMoved: true };
+    const promoteTo = promotion && variant.promotionPieces.includes(promotion) ? promotion : variant.promotionPieces[0];
+    newBoard[to.row][to.col] = { type: promoteTo, color: piece.color };
+    move.promotion = promoteTo;
+    newBoard[from.row][from.col] = null;
+  } else if (!castlingSide) {
+    newBoard[to.row][to.col] = { ...piece };
+    newBoard[from.row][from.col] = null;
   }
-  
-  newBoard[from.row][from.col] = null;
-
-  // Generate move notation
-  move.notation = generateNotation(state.board, move);
 
   const nextTurn = state.turn === 'white' ? 'black' : 'white';
   
-  // Check game status
-  let status = state.status;
-  let winner: PieceColor | undefined;
-  
-  if (status === 'waiting') {
-    status = 'playing';
-  }
-
   // Check for checkmate or stalemate
-  let hasLegalMoves = false;
-  outer: for (let row = 0; row < 8; row++) {
-    for (let col = 0; col < 8; col++) {
-      const p = newBoard[row][col];
-      if (p?.color === nextTurn) {
-        const moves = getLegalMoves(newBoard, { row, col }, newEnPassantTarget);
-        if (moves.length > 0) {
-          hasLegalMoves = true;
-          break outer;
-        }
-      }
-    }
-  }
+  const generator = Board88.fromBoard(newBoard, nextTurn, newEnPassantTarget, castlingRights, variant);
+  const hasLegalMoves = generator.hasLegalMoves();
 
+  const givesCheck = generator.inCheck();
+  let result: GameResult | undefined;
+  let termination: Termination | undefined;
   if (!hasLegalMoves) {
-    if (isInCheck(newBoard, nextTurn)) {
-      status = 'checkmate';
-      winner = state.turn;
-    } else {
-      status = 'stalemate';
+    termination = givesCheck ? 'checkmate' : 'stalemate';
+    result = givesCheck || variant.stalemateLoses ? winResult(state.turn) : '1/2-1/2';
+  } else if (variant.bareKingLoses) {
+    const bareKing = getBareKingOutcome(newBoard, state.turn, generator);
+    if (bareKing === 'win') {
+      result = winResult(state.turn);
+      termination = 'bare-king';
+    } else if (bareKing === 'draw') {
+      result = '1/2-1/2';
+      termination = 'insufficient-material';
     }
   }
 
-  return {
+  // Generate move notation now that check and mate are known
+  move.notation = generateNotation(state, move) + (!givesCheck ? '' : hasLegalMoves ? '+' : '#');
+
+  const newState: GameState = {
     ...state,
     board: newBoard,
     turn: nextTurn,
-    status,
+    status: termination ? 'over' : 'playing',
+    result,
+    termination,
     moves: [...state.moves, move],
     lastMove: move,
     enPassantTarget: newEnPassantTarget,
-    winner,
+    castlingRights,
+    halfmoveClock: piece.type === 'pawn' || move.captured ? 0 : state.halfmoveClock + 1,
+    fullmoveNumber: state.turn === 'black' ? state.fullmoveNumber + 1 : state.fullmoveNumber,
   };
+  newState.positionHistory = [...state.positionHistory, getPositionKey(newState)];
+
+  // Draws that end the game without either player claiming them
+  if (newState.status === 'playing') {
+    const drawReason = getAutomaticDraw(newState);
+    if (drawReason) return endGame(newState, '1/2-1/2', drawReason);
+  }
+
+  return newState;
 }
 
-// Generate algebraic notation for a move
-function generateNotation(board: Board, move: Move): string {
+// The game as it stood before its last move, replayed from the starting
+// position. Clocks and offers are left as they are for the caller to set.
+export function undoMove(state: GameState): GameState | null {
+  if (state.moves.length === 0) return null;
+  let rewound = createInitialGameState(undefined, state.initialFen, state.variant);
+  for (const move of state.moves.slice(0, -1)) {
+    rewound = makeMove(rewound, move.from, move.to, move.promotion);
+    if (!rewound) return null;
+  }
+  return {
+    ...rewound,
+    whiteTime: state.whiteTime,
+    blackTime: state.blackTime,
+    lastMoveAt: state.lastMoveAt,
+    clockHistory: state.clockHistory,
+  };
+}
+
+const SAN_PIECE_LETTERS: Record<PieceType, string> = {
+  king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: '', ferz: 'F', alfil: 'A'
+};
+
+const SAN_PIECE_TYPES: Record<string, PieceType> = {
+  K: 'king', Q: 'queen', R: 'rook', B: 'bishop', N: 'knight', F: 'ferz', A: 'alfil'
+};
+
+// Generate standard algebraic notation for a move, without the check or mate
+// suffix. `state` is the position before the move.
+function generateNotation(state: GameState, move: Move): string {
   const piece = move.piece;
   const files = 'abcdefgh';
   const toFile = files[move.to.col];
@@ -415,13 +434,31 @@ function generateNotation(board: Board, move: Move): string {
   if (move.castling === 'kingside') return 'O-O';
   if (move.castling === 'queenside') return 'O-O-O';
 
-  let notation = '';
-
-  if (piece.type !== 'pawn') {
-    const pieceLetters: Record<PieceType, string> = {
-      king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: ''
-    };
-    notation += pieceLetters[piece.type];
+  let notation = SAN_PIECE_LETTERS[piece.type];
+
+  // Disambiguate between identical pieces that can reach the same square
+  if (piece.type !== 'pawn' && piece.type !== 'king') {
+    const rivals: Position[] = [];
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const other = state.board[row][col];
+        if (other?.type !== piece.type || other.color !== piece.color) continue;
+        if (row === move.from.row && col === move.from.col) continue;
+        const moves = getLegalMoves(state.board, { row, col }, state.enPassantTarget, state.castlingRights, state.variant);
+        if (moves.some(m => m.row === move.to.row && m.col === move.to.col)) {
+          rivals.push({ row, col });
+        }
+      }
+    }
+    if (rivals.length > 0) {
+      if (!rivals.some(r => r.col === move.from.col)) {
+        notation += files[move.from.col];
+      } else if (!rivals.some(r => r.row === move.from.row)) {
+        notation += 8 - move.from.row;
+      } else {
+        notation += files[move.from.col] + (8 - move.from.row);
+      }
+    }
   }
 
   if (move.captured || move.enPassant) {
@@ -434,27 +471,384 @@ function generateNotation(board: Board, move: Move): string {
   notation += toFile + toRank;
 
   if (move.promotion) {
-    const promoLetters: Record<PieceType, string> = {
-      king: 'K', queen: 'Q', rook: 'R', bishop: 'B', knight: 'N', pawn: ''
-    };
-    notation += '=' + promoLetters[move.promotion];
+    notation += '=' + SAN_PIECE_LETTERS[move.promotion];
   }
 
   return notation;
 }
 
-// Parse time control string (e.g., "10+5" = 10 minutes + 5 seconds increment)
-export function parseTimeControl(timeControl: string): { minutes: number; increment: number } {
-  const parts = timeControl.split('+').map(Number);
+// Parse a SAN string (e.g. "Nbd2", "exd6", "e8=Q+", "O-O") into the move it
+// describes in the given position. Returns null if the move is malformed,
+// illegal or ambiguous.
+export function parseSan(state: GameState, san: string): { from: Position; to: Position; promotion?: PieceType } | null {
+  const clean = san.trim().replace(/(\s*e\.p\.)?[+#]*[!?]*$/, '');
+  const row = state.turn === 'white' ? 7 : 0;
+
+  if (/^(O-O|0-0)$/.test(clean) || /^(O-O-O|0-0-0)$/.test(clean)) {
+    const side = clean.length > 3 ? 'queenside' : 'kingside';
+    const kingCol = state.board[row].findIndex(p => p?.type === 'king' && p.color === state.turn);
+    const rookCol = state.castlingRights[state.turn][side];
+    if (kingCol === -1 || rookCol === null) return null;
+    const from = { row, col: kingCol };
+    const chess960 = getVariant(state.variant).chess960Castling;
+    const to = { row, col: chess960 ? rookCol : side === 'kingside' ? 6 : 2 };
+    const legal = getLegalMoves(state.board, from, state.enPassantTarget, state.castlingRights, state.variant);
+    return legal.some(m => m.row === to.row && m.col === to.col) ? { from, to } : null;
+  }
+
+  const match = /^([KQRBNFA])?([a-h])?([1-8])?x?([a-h][1-8])(?:=?([QRBNF]))?$/.exec(clean);
+  if (!match) return null;
+  const [, pieceLetter, fromFile, fromRank, target, promotionLetter] = match;
+  const type = pieceLetter ? SAN_PIECE_TYPES[pieceLetter] : 'pawn';
+  const to = { row: 8 - Number(target[1]), col: target.charCodeAt(0) - 97 };
+
+  const isPromotionRank = to.row === 0 || to.row === 7;
+  if (promotionLetter && (type !== 'pawn' || !isPromotionRank)) return null;
+
+  const candidates: Position[] = [];
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const piece = state.board[r][c];
+      if (piece?.type !== type || piece.color !== state.turn) continue;
+      if (fromFile && c !== fromFile.charCodeAt(0) - 97) continue;
+      if (fromRank && r !== 8 - Number(fromRank)) continue;
+      const moves = getLegalMoves(state.board, { row: r, col: c }, state.enPassantTarget, undefined, state.variant);
+      if (moves.some(m => m.row === to.row && m.col === to.col)) {
+        candidates.push({ row: r, col: c });
+      }
+    }
+  }
+
+  if (candidates.length !== 1) return null;
   return {
-    minutes: parts[0] || 10,
-    increment: parts[1] || 0,
+    from: candidates[0],
+    to,
+    promotion: promotionLetter ? SAN_PIECE_TYPES[promotionLetter] : undefined,
   };
 }
 
-// Format time for display (seconds to MM:SS)
+// ---------------------------------------------------------------------------
+// Draw detection
+// ---------------------------------------------------------------------------
+
+// Identify a position for repetition purposes: placement, side to move,
+// castling rights and en passant square. The en passant square only counts
+// when a pawn can actually capture there.
+export function getPositionKey(state: FenPosition): string {
+  let enPassantTarget = state.enPassantTarget;
+  if (enPassantTarget) {
+    const pawnRow = state.turn === 'white' ? 3 : 4;
+    const canCapture = [-1, 1].some(dc => {
+      const from = { row: pawnRow, col: enPassantTarget!.col + dc };
+      const pawn = getPiece(state.board, from);
+      return pawn?.type === 'pawn' && pawn.color === state.turn &&
+        getLegalMoves(state.board, from, enPassantTarget)
+          .some(m => m.row === enPassantTarget!.row && m.col === enPassantTarget!.col);
+    });
+    if (!canCapture) enPassantTarget = undefined;
+  }
+  return toFen({ ...state, enPassantTarget }).split(' ').slice(0, 4).join(' ');
+}
+
+function countRepetitions(state: GameState): number {
+  const current = state.positionHistory[state.positionHistory.length - 1];
+  return state.positionHistory.filter(key => key === current).length;
+}
+
+// Whether checkmate is impossible: with `color` given, whether that side alone
+// lacks mating material (a lone king, or king and a single minor piece);
+// otherwise whether neither side can ever checkmate (K v K, K+minor v K, or
+// only bishops that all stand on the same colour).
+export function hasInsufficientMaterial(board: Board, color?: PieceColor): boolean {
+  const pieces: { piece: Piece; squareColor: number }[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const piece = board[row][col];
+      if (piece && piece.type !== 'king' && (!color || piece.color === color)) {
+        pieces.push({ piece, squareColor: (row + col) % 2 });
+      }
+    }
+  }
+
+  if (pieces.length === 0) return true;
+  if (pieces.some(({ piece }) => !['bishop', 'knight'].includes(piece.type))) return false;
+  if (pieces.length === 1) return true;
+  if (color) return false;
+  return pieces.every(({ piece, squareColor }) => piece.type === 'bishop' && squareColor === pieces[0].squareColor);
+}
+
+// The bare king rule, checked after `mover` has moved: a side left with only
+// its king loses, unless it can capture the opponent's last piece straight
+// away, and two bare kings are a draw. `generator` is the position after the
+// move, with the opponent to move.
+function getBareKingOutcome(board: Board, mover: PieceColor, generator: Board88): 'win' | 'draw' | null {
+  const piecesOf = (color: PieceColor) => {
+    const positions: Position[] = [];
+    board.forEach((squares, row) => squares.forEach((piece, col) => {
+      if (piece && piece.color === color && piece.type !== 'king') positions.push({ row, col });
+    }));
+    return positions;
+  };
+
+  const opponent = mover === 'white' ? 'black' : 'white';
+  if (piecesOf(opponent).length > 0) return null;
+  const remaining = piecesOf(mover);
+  if (remaining.length === 0) return 'draw';
+  if (remaining.length === 1) {
+    const target = squareOf(remaining[0]);
+    if (generator.generateLegalMoves().some(move => moveTo(move) === target)) return null;
+  }
+  return 'win';
+}
+
+// Draws that apply automatically after a move: fivefold repetition, the
+// 75-move rule and dead positions
+function getAutomaticDraw(state: GameState): DrawReason | null {
+  if (getVariant(state.variant).insufficientMaterialDraws && hasInsufficientMaterial(state.board)) return 'insufficient-material';
+  if (countRepetitions(state) >= 5) return 'fivefold-repetition';
+  if (state.halfmoveClock >= 150) return 'seventy-five-move-rule';
+  return null;
+}
+
+// Draws the side to move may claim: threefold repetition and the 50-move rule
+export function getClaimableDraw(state: GameState): DrawReason | null {
+  if (state.status !== 'playing') return null;
+  if (countRepetitions(state) >= 3) return 'threefold-repetition';
+  if (state.halfmoveClock >= 100) return 'fifty-move-rule';
+  return null;
+}
+
+// Claim a draw, returning the drawn game or null if no draw can be claimed
+export function claimDraw(state: GameState): GameState | null {
+  const drawReason = getClaimableDraw(state);
+  if (!drawReason) return null;
+  return endGame(state, '1/2-1/2', drawReason);
+}
+
+// ---------------------------------------------------------------------------
+// FEN (Forsyth-Edwards Notation) import/export
+// ---------------------------------------------------------------------------
+
+const FILES = 'abcdefgh';
+
+const FEN_PIECE_TYPES: Record<string, PieceType> = {
+  k: 'king', q: 'queen', r: 'rook', b: 'bishop', n: 'knight', p: 'pawn', f: 'ferz', a: 'alfil',
+};
+
+const FEN_PIECE_LETTERS: Record<PieceType, string> = {
+  king: 'k', queen: 'q', rook: 'r', bishop: 'b', knight: 'n', pawn: 'p', ferz: 'f', alfil: 'a',
+};
+
+// The parts of a GameState that a FEN string describes
+export type FenPosition = Pick<GameState, 'board' | 'turn' | 'enPassantTarget' | 'castlingRights' | 'halfmoveClock' | 'fullmoveNumber'>;
+
+// Convert a board position to a square name (row 0 is rank 8)
+export function positionToSquare(pos: Position): string {
+  return FILES[pos.col] + (8 - pos.row);
+}
+
+// Convert a square name such as "e4" to a board position
+export function squareToPosition(square: string): Position | null {
+  if (!/^[a-h][1-8]$/.test(square)) return null;
+  return { row: 8 - Number(square[1]), col: FILES.indexOf(square[0]) };
+}
+
+function invalidFen(fen: string, reason: string): Error {
+  return new Error(`Invalid FEN "${fen}": ${reason}`);
+}
+
+// Parse a FEN string into a position. Throws on malformed or illegal input,
+// including pieces or castling rights the variant doesn't have.
+export function parseFen(fen: string, variantId?: VariantId): FenPosition {
+  const variant = getVariant(variantId);
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 6) {
+    throw invalidFen(fen, `expected 4 to 6 fields, got ${fields.length}`);
+  }
+  const [placement, activeColor, castling, enPassant, halfmove = '0', fullmove = '1'] = fields;
+
+  // Piece placement
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) {
+    throw invalidFen(fen, `expected 8 ranks, got ${ranks.length}`);
+  }
+  const board: Board = ranks.map((rank, row) => {
+    const squares: Square[] = [];
+    for (const char of rank) {
+      if (/[1-8]/.test(char)) {
+        squares.push(...Array(Number(char)).fill(null));
+      } else {
+        const type = FEN_PIECE_TYPES[char.toLowerCase()];
+        if (!type || !variant.pieces.includes(type)) {
+          throw invalidFen(fen, `unknown piece "${char}" on rank ${8 - row}`);
+        }
+        squares.push({ type, color: char === char.toUpperCase() ? 'white' : 'black' });
+      }
+    }
+    if (squares.length !== 8) {
+      throw invalidFen(fen, `rank ${8 - row} describes ${squares.length} squares instead of 8`);
+    }
+    return squares;
+  });
+
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    const kings = board.flat().filter(p => p?.type === 'king' && p.color === color).length;
+    if (kings !== 1) {
+      throw invalidFen(fen, `expected exactly one ${color} king, found ${kings}`);
+    }
+  }
+  for (const row of [0, 7]) {
+    if (board[row].some(p => p?.type === 'pawn')) {
+      throw invalidFen(fen, `pawn on rank ${8 - row}`);
+    }
+  }
+
+  // Side to move
+  if (activeColor !== 'w' && activeColor !== 'b') {
+    throw invalidFen(fen, `side to move must be "w" or "b", got "${activeColor}"`);
+  }
+  const turn: PieceColor = activeColor === 'w' ? 'white' : 'black';
+  if (isInCheck(board, turn === 'white' ? 'black' : 'white')) {
+    throw invalidFen(fen, 'the side not to move is in check');
+  }
+
+  // Castling rights. Chess960 positions may also name the rook's file, as in
+  // Shredder-FEN ("HAha") or X-FEN (a file only when K or Q is ambiguous).
+  const castlingPattern = variant.chess960Castling ? /^[KQA-H]{0,2}[kqa-h]{0,2}$/ : /^K?Q?k?q?$/;
+  if (castling !== '-' && !castlingPattern.test(castling)) {
+    throw invalidFen(fen, `malformed castling field "${castling}"`);
+  }
+  if (castling !== '-' && !variant.castling) {
+    throw invalidFen(fen, `${variant.name} has no castling`);
+  }
+  const castlingRights: CastlingRights = {
+    white: { kingside: null, queenside: null },
+    black: { kingside: null, queenside: null },
+  };
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    const row = color === 'white' ? 7 : 0;
+    const letters = castling.replace('-', '').split('')
+      .filter(letter => (letter === letter.toUpperCase()) === (color === 'white'))
+      .map(letter => letter.toUpperCase());
+    if (letters.length === 0) continue;
+
+    const kingCol = board[row].findIndex(p => p?.type === 'king' && p.color === color);
+    if (kingCol === -1 || (!variant.chess960Castling && kingCol !== 4)) {
+      throw invalidFen(fen, `${color} has castling rights but the king is not on its home square`);
+    }
+    const isRook = (col: number) => board[row][col]?.type === 'rook' && board[row][col]?.color === color;
+    for (const letter of letters) {
+      let col = FILES.indexOf(letter.toLowerCase());
+      if (letter === 'K' || letter === 'Q') {
+        // The outermost rook on that side, which in standard chess is in the corner
+        col = letter === 'K' ? 7 : 0;
+        if (variant.chess960Castling) {
+          while (col !== kingCol && !isRook(col)) col += letter === 'K' ? -1 : 1;
+        }
+      }
+      if (!isRook(col)) {
+        throw invalidFen(fen, `${color} has castling rights but no rook on ${positionToSquare({ row, col })}`);
+      }
+      const side = col > kingCol ? 'kingside' : 'queenside';
+      if (castlingRights[color][side] !== null) {
+        throw invalidFen(fen, `${color} has two ${side} castling rights`);
+      }
+      castlingRights[color][side] = col;
+    }
+  }
+
+  // En passant target
+  let enPassantTarget: Position | undefined;
+  if (enPassant !== '-' && !variant.pawnDoubleStep) {
+    throw invalidFen(fen, `${variant.name} has no en passant`);
+  }
+  if (enPassant !== '-') {
+    const target = squareToPosition(enPassant);
+    const expectedRow = turn === 'white' ? 2 : 5;
+    if (!target || target.row !== expectedRow) {
+      throw invalidFen(fen, `invalid en passant square "${enPassant}"`);
+    }
+    const pawnRow = turn === 'white' ? 3 : 4;
+    const pawn = board[pawnRow][target.col];
+    const opponent = turn === 'white' ? 'black' : 'white';
+    const startRow = turn === 'white' ? 1 : 6;
+    if (pawn?.type !== 'pawn' || pawn.color !== opponent ||
+        board[target.row][target.col] || board[startRow][target.col]) {
+      throw invalidFen(fen, `en passant square "${enPassant}" does not follow a double pawn push`);
+    }
+    enPassantTarget = target;
+  }
+
+  // Move counters
+  if (!/^\d+$/.test(halfmove)) {
+    throw invalidFen(fen, `halfmove clock must be a non-negative integer, got "${halfmove}"`);
+  }
+  if (!/^\d+$/.test(fullmove) || Number(fullmove) < 1) {
+    throw invalidFen(fen, `fullmove number must be a positive integer, got "${fullmove}"`);
+  }
+
+  return {
+    board,
+    turn,
+    enPassantTarget,
+    castlingRights,
+    halfmoveClock: Number(halfmove),
+    fullmoveNumber: Number(fullmove),
+  };
+}
+
+// Serialize a position (or a full GameState) to FEN
+export function toFen(state: FenPosition): string {
+  const { board } = state;
+
+  const placement = board.map(row => {
+    let rank = '';
+    let empty = 0;
+    for (const piece of row) {
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      if (empty) rank += empty;
+      empty = 0;
+      const letter = FEN_PIECE_LETTERS[piece.type];
+      rank += piece.color === 'white' ? letter.toUpperCase() : letter;
+    }
+    return empty ? rank + empty : rank;
+  }).join('/');
+
+  // X-FEN castling: K or Q for the outermost rook on that side, as always in
+  // standard chess, otherwise the rook's file
+  let castling = '';
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    const row = color === 'white' ? 7 : 0;
+    let letters = '';
+    for (const side of ['kingside', 'queenside'] as const) {
+      const col = state.castlingRights[color][side];
+      if (col === null) continue;
+      const isOutermost = !board[row].some((p, c) =>
+        p?.type === 'rook' && p.color === color && (side === 'kingside' ? c > col : c < col));
+      letters += isOutermost ? side[0] : FILES[col];
+    }
+    castling += color === 'white' ? letters.toUpperCase() : letters;
+  }
+
+  return [
+    placement,
+    state.turn === 'white' ? 'w' : 'b',
+    castling || '-',
+    state.enPassantTarget ? positionToSquare(state.enPassantTarget) : '-',
+    state.halfmoveClock ?? 0,
+    state.fullmoveNumber ?? 1,
+  ].join(' ');
+}
+
+// Format time for display (seconds to M:SS, H:MM:SS or days and hours)
 export function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const total = Math.ceil(seconds); // Clocks keep fractions of a second
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  // Correspondence clocks run for days
+  if (total >= 86400) return `${Math.floor(total / 86400)}d ${Math.floor((total % 86400) / 3600)}h`;
+  if (total >= 3600) return `${Math.floor(total / 3600)}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`;
+  return `${Math.floor(total / 60)}:${pad(total % 60)}`;
 }
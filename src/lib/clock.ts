@@ -0,0 +1,154 @@
+// Chess clocks run from stored data: a room's game keeps each side's time as
+// of the last move and when that move was made, so the server, both players
+// and spectators all work out the same clocks at any moment
+
+import { GameState, PieceColor, endGame, hasInsufficientMaterial, winResult } from '@/lib/chess';
+import { TimeControl, TimeControlStage, initialTime, stageForMove, stageTimeAfterMove } from '@/lib/timeControl';
+
+// Seconds the side to move has used since the last move; the clock only runs
+// once the first move has been made
+export function clockElapsed(state: GameState, now: number): number {
+  if (state.status !== 'playing' || state.lastMoveAt === undefined) return 0;
+  return Math.max(0, (now - state.lastMoveAt) / 1000);
+}
+
+function movesMade(state: GameState, color: PieceColor): number {
+  return state.moves.filter(move => move.piece.color === color).length;
+}
+
+// The stage the side to move is playing its next move in
+function currentStage(state: GameState, timeControl: TimeControl): TimeControlStage | null {
+  if (timeControl.kind !== 'stages') return null;
+  return stageForMove(timeControl.stages, movesMade(state, state.turn) + 1);
+}
+
+export function remainingTime(state: GameState, color: PieceColor, now: number, timeControl: TimeControl): number {
+  const stored = color === 'white' ? state.whiteTime : state.blackTime;
+  const elapsed = clockElapsed(state, now);
+
+  if (color !== state.turn) {
+    // In an hourglass the time one side uses flows to the other
+    return timeControl.kind === 'hourglass' ? stored + elapsed : stored;
+  }
+  // With a simple delay the clock only starts once the delay has passed
+  const stage = currentStage(state, timeControl);
+  const charged = stage?.mode === 'simple-delay' ? Math.max(0, elapsed - stage.bonus) : elapsed;
+  return Math.max(0, stored - charged);
+}
+
+// Server time (ms) the side to move runs out of time, or null while the clock
+// isn't running
+export function flagDeadline(state: GameState, timeControl: TimeControl): number | null {
+  if (state.status !== 'playing' || state.lastMoveAt === undefined) return null;
+  const stored = state.turn === 'white' ? state.whiteTime : state.blackTime;
+  const stage = currentStage(state, timeControl);
+  const delay = stage?.mode === 'simple-delay' ? stage.bonus : 0;
+  return state.lastMoveAt + (stored + delay) * 1000;
+}
+
+export function hasFlagFallen(state: GameState, now: number, timeControl: TimeControl): boolean {
+  return state.status === 'playing' && remainingTime(state, state.turn, now, timeControl) <= 0;
+}
+
+// Seconds each side has to make its first move before the game is aborted;
+// correspondence players get their usual time per move
+export const FIRST_MOVE_SECONDS = 30;
+
+// Server time (ms) the game is aborted unless the side to move makes its
+// first move, or null once both sides have moved. The wait for White's first
+// move starts when both players are seated.
+export function abortDeadline(state: GameState, timeControl: TimeControl): number | null {
+  if (state.status === 'over' || state.moves.length >= 2 || state.lastMoveAt === undefined) return null;
+  const seconds = timeControl.kind === 'correspondence' ? initialTime(timeControl) : FIRST_MOVE_SECONDS;
+  return state.lastMoveAt + seconds * 1000;
+}
+
+// Server time (ms) the game ends unless the side to move moves, by an abort
+// or on time, or null if it can't
+export function moveDeadline(state: GameState, timeControl: TimeControl): number | null {
+  const deadlines = [abortDeadline(state, timeControl), flagDeadline(state, timeControl)].filter(d => d !== null);
+  return deadlines.length > 0 ? Math.min(...deadlines) : null;
+}
+
+// Whether the game should end because the side to move ran out of time, to
+// make its first move or at all
+export function hasTimedOut(state: GameState, now: number, timeControl: TimeControl): boolean {
+  const deadline = abortDeadline(state, timeControl);
+  return (deadline !== null && now >= deadline) || hasFlagFallen(state, now, timeControl);
+}
+
+function withTime(state: GameState, color: PieceColor, time: number): GameState {
+  return color === 'white' ? { ...state, whiteTime: time } : { ...state, blackTime: time };
+}
+
+// Both clocks as they stood at `now` in `before`, set on `after`
+function withClocksAt(before: GameState, after: GameState, now: number, timeControl: TimeControl): GameState {
+  const white = withTime(after, 'white', remainingTime(before, 'white', now, timeControl));
+  return withTime(white, 'black', remainingTime(before, 'black', now, timeControl));
+}
+
+// Charge the mover for the move just made in `after`, add any time the move
+// earns and start the opponent's clock. `before` is the game the move was
+// made in.
+export function pressClock(before: GameState, after: GameState, timeControl: TimeControl, now: number): GameState {
+  const mover = before.turn;
+  const charged = withClocksAt(before, after, now, timeControl);
+  let earned = 0;
+
+  if (timeControl.kind === 'stages') {
+    const stage = currentStage(before, timeControl)!;
+    if (stage.mode === 'increment') earned += stage.bonus;
+    // Bronstein gives back the time used, up to the delay
+    if (stage.mode === 'bronstein') earned += Math.min(clockElapsed(before, now), stage.bonus);
+    earned += stageTimeAfterMove(timeControl.stages, movesMade(after, mover));
+  }
+
+  // A correspondence player gets the full time again for every move
+  const time = timeControl.kind === 'correspondence'
+    ? initialTime(timeControl)
+    : mover === 'white' ? charged.whiteTime : charged.blackTime;
+  const pressed = withTime(charged, mover, time + earned);
+  const clocks = { whiteTime: pressed.whiteTime, blackTime: pressed.blackTime };
+  return { ...pressed, lastMoveAt: now, clockHistory: [...(before.clockHistory ?? []), clocks] };
+}
+
+// Set the clocks of `after`, `before` taken back to an earlier ply, to what
+// they were when that ply was played, and restart the side to move's clock
+// (or, back at the start, the wait for the first move).
+// Plies from before clocks were kept per ply keep the current clocks.
+export function rewindClock(before: GameState, after: GameState, now: number, timeControl: TimeControl): GameState {
+  const history = before.clockHistory ?? [];
+  // Entries kept for the plies of `after`; older games only have the later ones
+  const kept = after.moves.length - (before.moves.length - history.length);
+  const restored = after.moves.length === 0
+    ? { whiteTime: initialTime(timeControl), blackTime: initialTime(timeControl) }
+    : kept > 0 ? history[kept - 1] : null;
+
+  const rewound = { ...after, clockHistory: history.slice(0, Math.max(0, kept)) };
+  if (!restored) return { ...withClocksAt(before, rewound, now, timeControl), lastMoveAt: now };
+  return { ...rewound, ...restored, lastMoveAt: now };
+}
+
+// Stop the clocks when a game in `before` ends other than by a move, keeping
+// the time each side had left
+export function stopClock(before: GameState, after: GameState, now: number, timeControl: TimeControl): GameState {
+  return withClocksAt(before, after, now, timeControl);
+}
+
+// The game ended by `hasTimedOut`: aborted if the side to move was still to
+// make its first move, otherwise lost on time
+export function timeOut(state: GameState, now: number, timeControl: TimeControl): GameState {
+  if (state.moves.length < 2) return endGame(stopClock(state, state, now, timeControl), undefined, 'aborted');
+  return flagFall(state, now, timeControl);
+}
+
+// The game lost on time by the side to move, or drawn when the opponent has
+// nothing left to mate with
+export function flagFall(state: GameState, now: number, timeControl: TimeControl): GameState {
+  const stopped = withTime(stopClock(state, state, now, timeControl), state.turn, 0);
+  const opponent = state.turn === 'white' ? 'black' : 'white';
+  if (hasInsufficientMaterial(state.board, opponent)) {
+    return endGame(stopped, '1/2-1/2', 'timeout-vs-insufficient-material');
+  }
+  return endGame(stopped, winResult(opponent), 'timeout');
+}
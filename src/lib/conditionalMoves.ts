@@ -0,0 +1,106 @@
+// Conditional moves let a correspondence player answer the opponent's next
+// moves in advance: for each move they expect, the reply to play and what to
+// do after that. The tree is kept by the server, out of the opponent's sight,
+// and followed by the game-action function as the opponent moves.
+
+import { GameState, makeMove, parseSan } from '@/lib/chess';
+import { parseUci, toUci } from '@/lib/engine/computer';
+
+// Keyed by the opponent's move in UCI; `move` is the reply, also in UCI
+export interface ConditionalMoves {
+  [expected: string]: { move: string; then?: ConditionalMoves };
+}
+
+// Longest line the server keeps, in plies, and most branches (a move
+// expected with the reply to it) in a whole tree
+export const MAX_CONDITIONAL_PLIES = 40;
+export const MAX_CONDITIONAL_MOVES = 100;
+
+// Check a tree sent by a client or read back from the database, or null if
+// it isn't one or is too big
+export function parseConditionalMoves(json: unknown): ConditionalMoves | null {
+  let branches = 0;
+  const parse = (node: unknown, depth: number): ConditionalMoves | null => {
+    if (!node || typeof node !== 'object' || Array.isArray(node) || depth >= MAX_CONDITIONAL_PLIES) return null;
+    const tree: ConditionalMoves = {};
+    for (const [expected, branch] of Object.entries(node as Record<string, unknown>)) {
+      if (++branches > MAX_CONDITIONAL_MOVES) return null;
+      const { move, then } = (branch ?? {}) as { move?: unknown; then?: unknown };
+      if (!parseUci(expected) || typeof move !== 'string' || !parseUci(move)) return null;
+      const rest = then === undefined ? undefined : parse(then, depth + 2);
+      if (rest === null) return null;
+      tree[expected] = rest && Object.keys(rest).length > 0 ? { move, then: rest } : { move };
+    }
+    return tree;
+  };
+  return parse(json, 0);
+}
+
+// Build a tree from lines of SAN, one per line, each alternating a move the
+// opponent may make with the reply to it (e.g. "e5 Nf3 Nc6 Bb5"), starting
+// from `state` with the opponent to move. Move numbers are skipped. Throws
+// with a message for the player if a line is illegal or contradicts another.
+export function parseConditionalLines(state: GameState, text: string): ConditionalMoves {
+  const tree: ConditionalMoves = {};
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+  let branches = 0;
+
+  lines.forEach((line, index) => {
+    const sans = line.split(/\s+/).map(token => token.replace(/^\d+\.+/, '')).filter(Boolean);
+    if (sans.length % 2 !== 0) throw new Error(`Line ${index + 1}: every expected move needs a reply`);
+    if (sans.length > MAX_CONDITIONAL_PLIES) throw new Error(`Line ${index + 1} is too long`);
+
+    let position = state;
+    let node = tree;
+    for (let i = 0; i < sans.length; i += 2) {
+      const expected = playSan(position, sans[i], index);
+      const reply = playSan(expected.state, sans[i + 1], index);
+      const branch = node[expected.uci];
+      if (branch && branch.move !== reply.uci) {
+        throw new Error(`Line ${index + 1}: ${sans[i]} already has a different reply`);
+      }
+      if (!branch && ++branches > MAX_CONDITIONAL_MOVES) {
+        throw new Error(`Line ${index + 1} goes over the limit of ${MAX_CONDITIONAL_MOVES} conditional moves`);
+      }
+      node[expected.uci] = branch ?? { move: reply.uci };
+      if (i + 2 < sans.length) node = node[expected.uci].then ??= {};
+      position = reply.state;
+    }
+  });
+
+  return tree;
+}
+
+function playSan(state: GameState, san: string, index: number): { state: GameState; uci: string } {
+  const move = parseSan(state, san);
+  const next = move && makeMove(state, move.from, move.to, move.promotion);
+  if (!next) throw new Error(`Line ${index + 1}: ${san} is not legal there`);
+  return { state: next, uci: toUci(next.moves[next.moves.length - 1]) };
+}
+
+// The lines of a tree in SAN, as parseConditionalLines reads them, played
+// from `state`. Branches that no longer apply are left out.
+export function formatConditionalLines(state: GameState, tree: ConditionalMoves): string[] {
+  const lines: string[] = [];
+  const walk = (position: GameState, node: ConditionalMoves, prefix: string[]) => {
+    for (const [expected, { move, then }] of Object.entries(node)) {
+      const afterExpected = playUci(position, expected);
+      const afterReply = afterExpected && playUci(afterExpected, move);
+      if (!afterReply) continue;
+      const line = [...prefix, lastSan(afterExpected), lastSan(afterReply)];
+      if (then && Object.keys(then).length > 0) walk(afterReply, then, line);
+      else lines.push(line.join(' '));
+    }
+  };
+  walk(state, tree, []);
+  return lines;
+}
+
+function playUci(state: GameState, uci: string): GameState | null {
+  const move = parseUci(uci);
+  return move && makeMove(state, move.from, move.to, move.promotion);
+}
+
+function lastSan(state: GameState): string {
+  return state.moves[state.moves.length - 1].notation ?? '';
+}
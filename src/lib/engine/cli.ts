@@ -0,0 +1,38 @@
+// Headless UCI engine for Node: reads commands from stdin, answers on stdout.
+// Build with `npm run build:uci`, then run `node dist-uci/cli.js`.
+//
+// The engine runs in a worker thread while this thread keeps reading input,
+// so "stop" can clear the shared stop flag in the middle of a search.
+
+import { createInterface } from 'node:readline';
+import { Worker, isMainThread, parentPort, workerData } from 'node:worker_threads';
+import { createUciEngine } from '@/lib/engine/uci';
+
+// Commands that end the current search
+const STOP_COMMANDS = ['stop', 'quit'];
+
+if (isMainThread) {
+  const stopFlag = new SharedArrayBuffer(4);
+  const worker = new Worker(new URL(import.meta.url), { workerData: stopFlag });
+  const input = createInterface({ input: process.stdin, terminal: false });
+
+  input.on('line', line => {
+    if (STOP_COMMANDS.includes(line.trim().split(/\s+/)[0])) Atomics.store(new Int32Array(stopFlag), 0, 0);
+    worker.postMessage(line);
+  });
+  input.on('close', () => worker.postMessage(null));
+  worker.on('exit', code => process.exit(code));
+} else {
+  const engine = createUciEngine(line => process.stdout.write(`${line}\n`), workerData as SharedArrayBuffer);
+  let closed = false;
+
+  // A null message means stdin closed
+  parentPort!.on('message', (line: string | null) => {
+    if (closed) return;
+    if (line === null || !engine.receive(line)) {
+      closed = true;
+      // Let a search that is still running print its best move before exiting
+      engine.idle().then(() => process.exit(0));
+    }
+  });
+}
@@ -0,0 +1,53 @@
+// Page side of the worker protocol
+
+import { EngineGoLimits, EngineRequest, EngineResponse } from '@/lib/engine/protocol';
+import { VariantId } from '@/lib/variants';
+
+export class EngineClient {
+  private worker: Worker;
+  private stopFlag: Int32Array | null = null;
+  private nextId = 1;
+
+  constructor(onMessage: (response: EngineResponse) => void) {
+    this.worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<EngineResponse>) => onMessage(event.data);
+    this.worker.onerror = (event) => onMessage({ type: 'error', message: event.message });
+
+    // Shared memory is only available on cross-origin isolated pages; without
+    // it a stop takes effect when the current iteration finishes
+    let buffer: SharedArrayBuffer | undefined;
+    if (typeof SharedArrayBuffer !== 'undefined' && self.crossOriginIsolated) {
+      buffer = new SharedArrayBuffer(4);
+      this.stopFlag = new Int32Array(buffer);
+    }
+    this.send({ type: 'init', stopFlag: buffer });
+  }
+
+  private send(request: EngineRequest) {
+    this.worker.postMessage(request);
+  }
+
+  newGame() {
+    this.send({ type: 'newgame' });
+  }
+
+  // Start searching the position reached by playing `moves` (UCI) from `fen`
+  // in `variant`. Returns the id that the search's info and bestmove messages
+  // will carry.
+  go(fen: string, moves: string[], limits: EngineGoLimits = {}, variant?: VariantId): number {
+    const id = this.nextId++;
+    if (this.stopFlag) Atomics.store(this.stopFlag, 0, id);
+    this.send({ type: 'position', fen, moves, variant });
+    this.send({ type: 'go', id, limits });
+    return id;
+  }
+
+  stop() {
+    if (this.stopFlag) Atomics.store(this.stopFlag, 0, 0);
+    this.send({ type: 'stop' });
+  }
+
+  terminate() {
+    this.worker.terminate();
+  }
+}
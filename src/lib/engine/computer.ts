@@ -0,0 +1,138 @@
+// Computer opponent: strength levels and move selection for a GameState
+
+import {
+  GameState,
+  PieceType,
+  Position,
+  getStartingFen,
+  parseFen,
+  positionToSquare,
+  squareToPosition,
+} from '@/lib/chess';
+import { Board88, colOf, moveFrom, moveTarget, promotionType, rowOf, squareOf } from '@/lib/movegen';
+import { VARIANTS, Variant, VariantId, getVariant } from '@/lib/variants';
+import { SearchLimits, Searcher } from '@/lib/engine/search';
+
+export interface EngineLevel {
+  id: number;
+  name: string;
+  depth: number;
+  timeMs: number;
+  // Random centipawns added to each root move's score; 0 plays the best move
+  noise: number;
+}
+
+export const ENGINE_LEVELS: EngineLevel[] = [
+  { id: 1, name: 'Beginner', depth: 1, timeMs: 200, noise: 300 },
+  { id: 2, name: 'Novice', depth: 2, timeMs: 300, noise: 150 },
+  { id: 3, name: 'Casual', depth: 3, timeMs: 500, noise: 80 },
+  { id: 4, name: 'Intermediate', depth: 4, timeMs: 800, noise: 30 },
+  { id: 5, name: 'Club player', depth: 6, timeMs: 1500, noise: 0 },
+  { id: 6, name: 'Strong club player', depth: 32, timeMs: 3000, noise: 0 },
+];
+
+export function getEngineLevel(id: number): EngineLevel {
+  return ENGINE_LEVELS.find(level => level.id === id) ?? ENGINE_LEVELS[0];
+}
+
+const PIECE_LETTERS: Partial<Record<PieceType, string>> = { queen: 'q', rook: 'r', bishop: 'b', knight: 'n', ferz: 'f' };
+const PROMOTION_TYPES: Record<string, PieceType> = { q: 'queen', r: 'rook', b: 'bishop', n: 'knight', f: 'ferz' };
+
+export interface EngineMove {
+  from: Position;
+  to: Position;
+  promotion?: PieceType;
+}
+
+// Convert an encoded generator move into board coordinates, with castling
+// expressed the way the app enters it (see moveTarget)
+export function toEngineMove(move: number, variant: Variant = VARIANTS.standard): EngineMove {
+  const from = moveFrom(move);
+  const to = moveTarget(move, variant);
+  return {
+    from: { row: rowOf(from), col: colOf(from) },
+    to: { row: rowOf(to), col: colOf(to) },
+    promotion: promotionType(move),
+  };
+}
+
+export function toUci(move: EngineMove): string {
+  const promotion = move.promotion ? PIECE_LETTERS[move.promotion] : '';
+  return positionToSquare(move.from) + positionToSquare(move.to) + promotion;
+}
+
+export function parseUci(uci: string): EngineMove | null {
+  const match = /^([a-h][1-8])([a-h][1-8])([qrbnf])?$/.exec(uci);
+  if (!match) return null;
+  return {
+    from: squareToPosition(match[1])!,
+    to: squareToPosition(match[2])!,
+    promotion: match[3] ? PROMOTION_TYPES[match[3]] : undefined,
+  };
+}
+
+// Find the legal generator move for a move in board coordinates; promotions
+// default to the variant's first promotion piece
+export function findMove(board: Board88, move: EngineMove): number | undefined {
+  const from = squareOf(move.from);
+  const to = squareOf(move.to);
+  return board.generateLegalMoves().find(m => {
+    if (moveFrom(m) !== from || moveTarget(m, board.variant) !== to) return false;
+    const promotion = promotionType(m);
+    return !promotion || promotion === (move.promotion ?? board.variant.promotionPieces[0]);
+  });
+}
+
+// Set up a generator board from a FEN and the UCI moves played since, as sent
+// in a "position" command. Throws on an illegal move.
+export function boardFromUciMoves(fen: string, moves: string[], variant: VariantId = 'standard'): Board88 {
+  const board = Board88.fromPosition(parseFen(fen, variant), getVariant(variant));
+  for (const uci of moves) {
+    const move = parseUci(uci);
+    const encoded = move && findMove(board, move);
+    if (!encoded) throw new Error(`Illegal move "${uci}" in position ${fen}`);
+    board.makeMove(encoded);
+  }
+  return board;
+}
+
+// Rebuild the game on a generator board by replaying its moves, so the search
+// knows which positions have already occurred
+export function boardFromGameState(state: GameState): Board88 {
+  const board = Board88.fromPosition(parseFen(getStartingFen(state), state.variant), getVariant(state.variant));
+  for (const move of state.moves) {
+    const encoded = findMove(board, move);
+    if (encoded === undefined) {
+      // History doesn't replay (e.g. a legacy game); fall back to the position alone
+      return Board88.fromPosition(state, getVariant(state.variant));
+    }
+    board.makeMove(encoded);
+  }
+  return board;
+}
+
+// Pick a root move with random noise added to each move's score, so weaker
+// levels sometimes prefer a slightly worse move. Returns 0 if there are none.
+export function chooseNoisyMove(board: Board88, limits: SearchLimits, noise: number, searcher = new Searcher()): number {
+  const scored = searcher.scoreMoves(board, limits);
+  let best = 0;
+  let bestScore = -Infinity;
+  for (const candidate of scored) {
+    const score = candidate.score + (Math.random() * 2 - 1) * noise;
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate.move;
+    }
+  }
+  return best;
+}
+
+// Pick the computer's move for the side to move, or null if the game is over
+export function chooseMove(state: GameState, level: EngineLevel, searcher = new Searcher()): EngineMove | null {
+  const board = boardFromGameState(state);
+  const limits: SearchLimits = { depth: level.depth, timeMs: level.timeMs };
+  const move = level.noise > 0
+    ? chooseNoisyMove(board, limits, level.noise, searcher)
+    : searcher.search(board, limits).bestMove;
+  return move ? toEngineMove(move, board.variant) : null;
+}
@@ -0,0 +1,132 @@
+// Static evaluation: material plus piece-square tables, with the king table
+// blended between middlegame and endgame by the material left on the board.
+// Scores are in centipawns from the point of view of the side to move.
+
+import { BISHOP, Board88, KING, KNIGHT, PAWN, QUEEN, ROOK, WHITE_SIDE, pieceSide, pieceType } from '@/lib/movegen';
+
+// Indexed by movegen piece code: pawn, knight, bishop, rook, queen, king, ferz, alfil
+export const PIECE_VALUES: number[] = [0, 100, 320, 330, 500, 900, 0, 150, 100];
+
+// Tables are written from White's point of view with rank 8 first, which is
+// also the board's row order; Black reads them mirrored vertically.
+const PAWN_TABLE = [
+   0,  0,  0,  0,  0,  0,  0,  0,
+  50, 50, 50, 50, 50, 50, 50, 50,
+  10, 10, 20, 30, 30, 20, 10, 10,
+   5,  5, 10, 25, 25, 10,  5,  5,
+   0,  0,  0, 20, 20,  0,  0,  0,
+   5, -5,-10,  0,  0,-10, -5,  5,
+   5, 10, 10,-20,-20, 10, 10,  5,
+   0,  0,  0,  0,  0,  0,  0,  0,
+];
+
+const KNIGHT_TABLE = [
+  -50,-40,-30,-30,-30,-30,-40,-50,
+  -40,-20,  0,  0,  0,  0,-20,-40,
+  -30,  0, 10, 15, 15, 10,  0,-30,
+  -30,  5, 15, 20, 20, 15,  5,-30,
+  -30,  0, 15, 20, 20, 15,  0,-30,
+  -30,  5, 10, 15, 15, 10,  5,-30,
+  -40,-20,  0,  5,  5,  0,-20,-40,
+  -50,-40,-30,-30,-30,-30,-40,-50,
+];
+
+const BISHOP_TABLE = [
+  -20,-10,-10,-10,-10,-10,-10,-20,
+  -10,  0,  0,  0,  0,  0,  0,-10,
+  -10,  0,  5, 10, 10,  5,  0,-10,
+  -10,  5,  5, 10, 10,  5,  5,-10,
+  -10,  0, 10, 10, 10, 10,  0,-10,
+  -10, 10, 10, 10, 10, 10, 10,-10,
+  -10,  5,  0,  0,  0,  0,  5,-10,
+  -20,-10,-10,-10,-10,-10,-10,-20,
+];
+
+const ROOK_TABLE = [
+   0,  0,  0,  0,  0,  0,  0,  0,
+   5, 10, 10, 10, 10, 10, 10,  5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+  -5,  0,  0,  0,  0,  0,  0, -5,
+   0,  0,  0,  5,  5,  0,  0,  0,
+];
+
+const QUEEN_TABLE = [
+  -20,-10,-10, -5, -5,-10,-10,-20,
+  -10,  0,  0,  0,  0,  0,  0,-10,
+  -10,  0,  5,  5,  5,  5,  0,-10,
+   -5,  0,  5,  5,  5,  5,  0, -5,
+    0,  0,  5,  5,  5,  5,  0, -5,
+  -10,  5,  5,  5,  5,  5,  0,-10,
+  -10,  0,  5,  0,  0,  0,  0,-10,
+  -20,-10,-10, -5, -5,-10,-10,-20,
+];
+
+const KING_MIDDLEGAME_TABLE = [
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -30,-40,-40,-50,-50,-40,-40,-30,
+  -20,-30,-30,-40,-40,-30,-30,-20,
+  -10,-20,-20,-20,-20,-20,-20,-10,
+   20, 20,  0,  0,  0,  0, 20, 20,
+   20, 30, 10,  0,  0, 10, 30, 20,
+];
+
+const KING_ENDGAME_TABLE = [
+  -50,-40,-30,-20,-20,-30,-40,-50,
+  -30,-20,-10,  0,  0,-10,-20,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-30,  0,  0,  0,  0,-30,-30,
+  -50,-30,-30,-30,-30,-30,-30,-50,
+];
+
+const PIECE_TABLES: Record<number, number[]> = {
+  [PAWN]: PAWN_TABLE,
+  [KNIGHT]: KNIGHT_TABLE,
+  [BISHOP]: BISHOP_TABLE,
+  [ROOK]: ROOK_TABLE,
+  [QUEEN]: QUEEN_TABLE,
+};
+
+// Non-pawn material at the start of a standard game, used to blend the king tables
+const OPENING_PHASE_MATERIAL = 2 * (2 * PIECE_VALUES[KNIGHT] + 2 * PIECE_VALUES[BISHOP] + 2 * PIECE_VALUES[ROOK] + PIECE_VALUES[QUEEN]);
+
+export function evaluate(board: Board88): number {
+  const { squares } = board;
+  let score = 0;
+  let phaseMaterial = 0;
+
+  for (let sq = 0; sq < 128; sq++) {
+    if (sq & 0x88) {
+      sq += 7;
+      continue;
+    }
+    const piece = squares[sq];
+    if (!piece) continue;
+    const type = pieceType(piece);
+    if (type === KING) continue;
+
+    const side = pieceSide(piece);
+    const index = side === WHITE_SIDE ? (sq >> 4) * 8 + (sq & 7) : (7 - (sq >> 4)) * 8 + (sq & 7);
+    const table = PIECE_TABLES[type];
+    const value = PIECE_VALUES[type] + (table ? table[index] : 0);
+    score += side === WHITE_SIDE ? value : -value;
+    if (type !== PAWN) phaseMaterial += PIECE_VALUES[type];
+  }
+
+  const phase = Math.min(1, phaseMaterial / OPENING_PHASE_MATERIAL);
+  board.kings.forEach((sq, side) => {
+    if (sq < 0) return;
+    const index = side === WHITE_SIDE ? (sq >> 4) * 8 + (sq & 7) : (7 - (sq >> 4)) * 8 + (sq & 7);
+    const value = phase * KING_MIDDLEGAME_TABLE[index] + (1 - phase) * KING_ENDGAME_TABLE[index];
+    score += side === WHITE_SIDE ? value : -value;
+  });
+
+  return Math.round(board.side === WHITE_SIDE ? score : -score);
+}
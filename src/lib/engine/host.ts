@@ -0,0 +1,108 @@
+// Engine side of the worker protocol, independent of the Worker global so it
+// can also be driven from tests or a command line
+
+import { STARTING_FEN } from '@/lib/chess';
+import { Board88 } from '@/lib/movegen';
+import { SearchInfo, SearchResult, Searcher } from '@/lib/engine/search';
+import { boardFromUciMoves, chooseNoisyMove, toEngineMove, toUci } from '@/lib/engine/computer';
+import { EngineGoLimits, EngineRequest, EngineResponse } from '@/lib/engine/protocol';
+
+export interface EngineHost {
+  handle(request: EngineRequest): void;
+  // Resolves once every search started so far has reported its best move
+  idle(): Promise<void>;
+}
+
+const yieldToEvents = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export function createEngineHost(post: (response: EngineResponse) => void): EngineHost {
+  // Id of the search that should be running; any other search stops. A
+  // shared flag, when provided, lets the page change it mid-iteration.
+  let activeId = 0;
+  let runningId = 0;
+  let stopFlag: Int32Array | null = null;
+  const isCancelled = () => activeId !== runningId || (stopFlag !== null && Atomics.load(stopFlag, 0) !== runningId);
+
+  const searcher = new Searcher({ shouldStop: isCancelled });
+  let board = boardFromUciMoves(STARTING_FEN, []);
+  let queue: Promise<void> = Promise.resolve();
+
+  async function run(id: number, position: Board88, limits: EngineGoLimits) {
+    runningId = id;
+    // Chess960 castling is written as the king's move, which depends on the variant
+    const toUciMove = (move: number) => toUci(toEngineMove(move, position.variant));
+
+    if (limits.noise) {
+      const move = chooseNoisyMove(position, limits, limits.noise, searcher);
+      post({ type: 'bestmove', id, move: move ? toUciMove(move) : null });
+      return;
+    }
+
+    const iterations = searcher.iterate(position, limits);
+    for (;;) {
+      const step = iterations.next();
+      if (step.done) {
+        const { bestMove, pv } = step.value as SearchResult;
+        post({
+          type: 'bestmove',
+          id,
+          move: bestMove ? toUciMove(bestMove) : null,
+          ponder: pv.length > 1 ? toUciMove(pv[1]) : undefined,
+        });
+        return;
+      }
+
+      const info = step.value as SearchInfo;
+      post({
+        type: 'info',
+        id,
+        depth: info.depth,
+        score: info.score,
+        mate: info.mate,
+        nodes: info.nodes,
+        nps: Math.round(info.nodes / Math.max(info.timeMs, 1) * 1000),
+        timeMs: info.timeMs,
+        pv: info.pv.map(toUciMove),
+      });
+
+      // Let stop and new searches arrive before the next, longer iteration
+      await yieldToEvents();
+      if (isCancelled()) searcher.stop();
+    }
+  }
+
+  function handle(request: EngineRequest) {
+    switch (request.type) {
+      case 'init':
+        stopFlag = request.stopFlag ? new Int32Array(request.stopFlag) : null;
+        post({ type: 'ready' });
+        break;
+      case 'newgame':
+        activeId = 0;
+        queue = queue.then(() => searcher.reset());
+        break;
+      case 'position':
+        try {
+          board = boardFromUciMoves(request.fen, request.moves, request.variant);
+        } catch (err) {
+          post({ type: 'error', message: (err as Error).message });
+        }
+        break;
+      case 'go': {
+        // A new search supersedes whatever is still running
+        activeId = request.id;
+        // Searches restore the board when done, so queued searches can share it
+        const position = board;
+        queue = queue.then(() => run(request.id, position, request.limits)).catch(err => {
+          post({ type: 'error', message: (err as Error).message });
+        });
+        break;
+      }
+      case 'stop':
+        activeId = 0;
+        break;
+    }
+  }
+
+  return { handle, idle: () => queue };
+}
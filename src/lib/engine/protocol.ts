@@ -0,0 +1,37 @@
+// Messages exchanged with the engine worker. Moves are in UCI long algebraic
+// notation ("e2e4", "e7e8q"), with castling written as the king's move.
+
+import { SearchLimits } from '@/lib/engine/search';
+import { VariantId } from '@/lib/variants';
+
+export interface EngineGoLimits extends SearchLimits {
+  // Random centipawns added to root move scores, for weaker play
+  noise?: number;
+}
+
+export type EngineRequest =
+  // Shared Int32Array flag (when cross-origin isolated) that lets stop
+  // interrupt a search mid-iteration instead of between iterations
+  | { type: 'init'; stopFlag?: SharedArrayBuffer }
+  | { type: 'newgame' }
+  // Variant defaults to standard chess
+  | { type: 'position'; fen: string; moves: string[]; variant?: VariantId }
+  | { type: 'go'; id: number; limits: EngineGoLimits }
+  | { type: 'stop' };
+
+export interface EngineInfo {
+  id: number;
+  depth: number;
+  score: number; // Centipawns from the side to move's point of view
+  mate?: number; // Moves to mate; negative when being mated
+  nodes: number;
+  nps: number;
+  timeMs: number;
+  pv: string[];
+}
+
+export type EngineResponse =
+  | { type: 'ready' }
+  | ({ type: 'info' } & EngineInfo)
+  | { type: 'bestmove'; id: number; move: string | null; ponder?: string }
+  | { type: 'error'; message: string };
@@ -0,0 +1,418 @@
+// Iterative deepening alpha-beta search (principal variation search) with
+// quiescence, a transposition table and killer/history move ordering.
+
+import {
+  Board88,
+  FLAG_CAPTURE,
+  KING,
+  PAWN,
+  movePromotion,
+  moveFlags,
+  moveFrom,
+  moveTo,
+  pieceType,
+} from '@/lib/movegen';
+import { PIECE_VALUES, evaluate } from '@/lib/engine/evaluate';
+
+export const MATE_SCORE = 30000;
+const MAX_PLY = 64;
+// Scores beyond this are mates, and count moves from the root
+const MATE_BOUND = MATE_SCORE - MAX_PLY * 2;
+const INFINITY = 32000;
+
+export interface SearchLimits {
+  depth?: number;
+  timeMs?: number;
+  nodes?: number;
+}
+
+export interface SearchInfo {
+  depth: number;
+  score: number; // Centipawns from the side to move's point of view
+  mate?: number; // Moves to mate; negative when being mated
+  nodes: number;
+  timeMs: number;
+  pv: number[];
+}
+
+export interface SearchResult {
+  bestMove: number; // 0 when there are no legal moves
+  score: number;
+  depth: number;
+  nodes: number;
+  pv: number[];
+}
+
+// Transposition table entry bounds
+const BOUND_EXACT = 0;
+const BOUND_LOWER = 1;
+const BOUND_UPPER = 2;
+
+const TT_BITS = 18;
+const TT_SIZE = 1 << TT_BITS;
+const TT_MASK = TT_SIZE - 1;
+
+class TranspositionTable {
+  private keys = new Int32Array(TT_SIZE);
+  private checks = new Int32Array(TT_SIZE);
+  private moves = new Int32Array(TT_SIZE);
+  private scores = new Int16Array(TT_SIZE);
+  private depths = new Int8Array(TT_SIZE).fill(-1);
+  private bounds = new Int8Array(TT_SIZE);
+
+  clear() {
+    this.depths.fill(-1);
+    this.moves.fill(0);
+  }
+
+  // Index of the entry for the position, or -1 when it is not stored
+  probe(board: Board88): number {
+    const index = board.hashLo & TT_MASK;
+    if (this.depths[index] < 0 || this.keys[index] !== board.hashLo || this.checks[index] !== board.hashHi) return -1;
+    return index;
+  }
+
+  move(index: number) { return this.moves[index]; }
+  score(index: number) { return this.scores[index]; }
+  depth(index: number) { return this.depths[index]; }
+  bound(index: number) { return this.bounds[index]; }
+
+  // Depth-preferred replacement, except that stale entries are always replaced
+  store(board: Board88, depth: number, score: number, bound: number, move: number) {
+    const index = board.hashLo & TT_MASK;
+    const same = this.keys[index] === board.hashLo && this.checks[index] === board.hashHi;
+    if (!same && this.depths[index] > depth + 2) return;
+    this.keys[index] = board.hashLo;
+    this.checks[index] = board.hashHi;
+    this.moves[index] = move || (same ? this.moves[index] : 0);
+    this.scores[index] = score;
+    this.depths[index] = depth;
+    this.bounds[index] = bound;
+  }
+}
+
+// Mate scores are stored relative to the node so they stay valid when the
+// same position is reached at a different ply
+function scoreToTable(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score + ply;
+  if (score < -MATE_BOUND) return score - ply;
+  return score;
+}
+
+function scoreFromTable(score: number, ply: number): number {
+  if (score > MATE_BOUND) return score - ply;
+  if (score < -MATE_BOUND) return score + ply;
+  return score;
+}
+
+export function isMateScore(score: number): boolean {
+  return Math.abs(score) > MATE_BOUND;
+}
+
+// Full moves until mate, negative when the side to move is being mated
+export function mateInMoves(score: number): number {
+  return score > 0 ? Math.ceil((MATE_SCORE - score) / 2) : -Math.ceil((MATE_SCORE + score) / 2);
+}
+
+// Move ordering scores
+const ORDER_TT_MOVE = 1 << 30;
+const ORDER_CAPTURE = 1 << 28;
+const ORDER_KILLER = 1 << 27;
+
+export class Searcher {
+  private tt = new TranspositionTable();
+  private killers: number[][] = [];
+  private history = new Int32Array(2 * 128 * 128);
+  private pvTable: number[][] = [];
+  private board!: Board88;
+  private nodes = 0;
+  private nodeLimit = Infinity;
+  private deadline = Infinity;
+  private stopped = false;
+  private shouldStop?: () => boolean;
+
+  constructor(options: { shouldStop?: () => boolean } = {}) {
+    this.shouldStop = options.shouldStop;
+  }
+
+  // Forget everything learned from previous searches (e.g. on a new game)
+  reset() {
+    this.tt.clear();
+    this.history.fill(0);
+  }
+
+  stop() {
+    this.stopped = true;
+  }
+
+  search(board: Board88, limits: SearchLimits = {}, onInfo?: (info: SearchInfo) => void): SearchResult {
+    const iterations = this.iterate(board, limits);
+    for (;;) {
+      const step = iterations.next();
+      // Without strictNullChecks the result type doesn't narrow on `done`
+      if (step.done) return step.value as SearchResult;
+      onInfo?.(step.value as SearchInfo);
+    }
+  }
+
+  // Iterative deepening as a generator that yields after every completed
+  // depth, so callers can interleave other work (such as a worker handling a
+  // stop message) between iterations
+  *iterate(board: Board88, limits: SearchLimits = {}): Generator<SearchInfo, SearchResult> {
+    const startedAt = Date.now();
+    const maxDepth = Math.min(limits.depth ?? MAX_PLY - 1, MAX_PLY - 1);
+    this.prepare(board, limits, startedAt);
+
+    const rootMoves = board.generateLegalMoves();
+    const result: SearchResult = { bestMove: rootMoves[0] ?? 0, score: 0, depth: 0, nodes: 0, pv: [] };
+    if (rootMoves.length === 0) {
+      result.score = board.inCheck() ? -MATE_SCORE : 0;
+      return result;
+    }
+
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      const score = this.negamax(depth, -INFINITY, INFINITY, 0, false);
+      // An interrupted iteration's scores are meaningless; keep the last
+      // completed one
+      if (this.stopped) break;
+
+      const pv = this.pvTable[0];
+      if (pv.length > 0) result.bestMove = pv[0];
+      result.score = score;
+      result.depth = depth;
+      result.pv = pv.slice();
+      result.nodes = this.nodes;
+
+      yield {
+        depth,
+        score,
+        mate: isMateScore(score) ? mateInMoves(score) : undefined,
+        nodes: this.nodes,
+        timeMs: Date.now() - startedAt,
+        pv: result.pv,
+      };
+
+      if (this.stopped || isMateScore(score) && depth > 1) break;
+      // Another iteration takes several times longer than this one; don't
+      // start what cannot finish
+      if (this.deadline !== Infinity && Date.now() - startedAt > (this.deadline - startedAt) / 2) break;
+    }
+
+    result.nodes = this.nodes;
+    return result;
+  }
+
+  // Score every legal root move with a full-window search, for weaker play
+  // that picks among near-best moves rather than always the best one
+  scoreMoves(board: Board88, limits: SearchLimits = {}): { move: number; score: number }[] {
+    const depth = Math.max(1, Math.min(limits.depth ?? 4, MAX_PLY - 1));
+    this.prepare(board, limits, Date.now());
+    const scored: { move: number; score: number }[] = [];
+    for (const move of board.generateLegalMoves()) {
+      board.makeMove(move);
+      const score = -this.negamax(depth - 1, -INFINITY, INFINITY, 1, true);
+      board.unmakeMove();
+      if (this.stopped && scored.length > 0) break;
+      scored.push({ move, score });
+    }
+    return scored;
+  }
+
+  private prepare(board: Board88, limits: SearchLimits, startedAt: number) {
+    this.board = board;
+    this.nodes = 0;
+    this.nodeLimit = limits.nodes ?? Infinity;
+    this.deadline = limits.timeMs !== undefined ? startedAt + limits.timeMs : Infinity;
+    this.stopped = false;
+    this.killers = Array.from({ length: MAX_PLY + 1 }, () => [0, 0]);
+    this.pvTable = Array.from({ length: MAX_PLY + 1 }, () => []);
+    // Age history scores so earlier searches don't dominate ordering
+    for (let i = 0; i < this.history.length; i++) this.history[i] >>= 2;
+  }
+
+  private checkStop() {
+    if ((this.nodes & 1023) !== 0) return;
+    if (this.nodes >= this.nodeLimit || Date.now() >= this.deadline || this.shouldStop?.()) {
+      this.stopped = true;
+    }
+  }
+
+  private negamax(depth: number, alpha: number, beta: number, ply: number, allowNull: boolean): number {
+    const board = this.board;
+    this.pvTable[ply] = [];
+    this.nodes++;
+    this.checkStop();
+    if (this.stopped) return 0;
+
+    if (ply > 0 && (board.halfmove >= 100 || board.isRepetition())) return 0;
+    if (ply >= MAX_PLY) return evaluate(board);
+
+    const inCheck = board.inCheck();
+    if (inCheck) depth++;
+    if (depth <= 0) return this.quiescence(alpha, beta, ply);
+
+    const isPv = beta - alpha > 1;
+    let ttMove = 0;
+    const entry = this.tt.probe(board);
+    if (entry >= 0) {
+      ttMove = this.tt.move(entry);
+      if (!isPv && ply > 0 && this.tt.depth(entry) >= depth) {
+        const score = scoreFromTable(this.tt.score(entry), ply);
+        const bound = this.tt.bound(entry);
+        if (bound === BOUND_EXACT
+          || bound === BOUND_LOWER && score >= beta
+          || bound === BOUND_UPPER && score <= alpha) {
+          return score;
+        }
+      }
+    }
+
+    // Null move pruning: if passing still beats beta, a real move will too.
+    // Skipped in pawn endings where zugzwang is common.
+    if (allowNull && !isPv && !inCheck && depth >= 3 && this.hasPieces(board.side) && evaluate(board) >= beta) {
+      board.makeNullMove();
+      const score = -this.negamax(depth - 3, -beta, -beta + 1, ply + 1, false);
+      board.unmakeNullMove();
+      if (this.stopped) return 0;
+      if (score >= beta && !isMateScore(score)) return beta;
+    }
+
+    const moves = board.generatePseudoMoves();
+    const orderScores = moves.map(move => this.orderScore(move, ttMove, ply));
+    const alphaStart = alpha;
+    let bestScore = -INFINITY;
+    let bestMove = 0;
+    let legalMoves = 0;
+
+    for (let i = 0; i < moves.length; i++) {
+      const move = pickNext(moves, orderScores, i);
+      if (!board.makeMove(move)) {
+        board.unmakeMove();
+        continue;
+      }
+      legalMoves++;
+
+      let score: number;
+      if (legalMoves === 1) {
+        score = -this.negamax(depth - 1, -beta, -alpha, ply + 1, true);
+      } else {
+        score = -this.negamax(depth - 1, -alpha - 1, -alpha, ply + 1, true);
+        if (score > alpha && score < beta) {
+          score = -this.negamax(depth - 1, -beta, -alpha, ply + 1, true);
+        }
+      }
+      board.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestMove = move;
+        if (score > alpha) {
+          alpha = score;
+          this.pvTable[ply] = [move, ...this.pvTable[ply + 1]];
+        }
+      }
+      if (alpha >= beta) {
+        if (!(moveFlags(move) & FLAG_CAPTURE) && !movePromotion(move)) {
+          const killers = this.killers[ply];
+          if (killers[0] !== move) {
+            killers[1] = killers[0];
+            killers[0] = move;
+          }
+          this.history[historyIndex(board.side, move)] += depth * depth;
+        }
+        break;
+      }
+    }
+
+    if (legalMoves === 0) {
+      return inCheck ? -MATE_SCORE + ply : 0;
+    }
+
+    const bound = bestScore >= beta ? BOUND_LOWER : bestScore > alphaStart ? BOUND_EXACT : BOUND_UPPER;
+    this.tt.store(board, depth, scoreToTable(bestScore, ply), bound, bestMove);
+    return bestScore;
+  }
+
+  // Search captures (and promotions) only, until the position is quiet
+  private quiescence(alpha: number, beta: number, ply: number): number {
+    const board = this.board;
+    this.pvTable[ply] = [];
+    this.nodes++;
+    this.checkStop();
+    if (this.stopped) return 0;
+
+    const standPat = evaluate(board);
+    if (ply >= MAX_PLY || standPat >= beta) return standPat;
+    if (standPat > alpha) alpha = standPat;
+
+    const moves = board.generatePseudoMoves().filter(move => moveFlags(move) & FLAG_CAPTURE || movePromotion(move));
+    const orderScores = moves.map(move => this.orderScore(move, 0, ply));
+
+    for (let i = 0; i < moves.length; i++) {
+      const move = pickNext(moves, orderScores, i);
+      if (!board.makeMove(move)) {
+        board.unmakeMove();
+        continue;
+      }
+      const score = -this.quiescence(-beta, -alpha, ply + 1);
+      board.unmakeMove();
+      if (this.stopped) return 0;
+
+      if (score >= beta) return score;
+      if (score > alpha) {
+        alpha = score;
+        this.pvTable[ply] = [move, ...this.pvTable[ply + 1]];
+      }
+    }
+    return alpha;
+  }
+
+  private orderScore(move: number, ttMove: number, ply: number): number {
+    if (move === ttMove) return ORDER_TT_MOVE;
+    const { squares } = this.board;
+    const flags = moveFlags(move);
+    const promotion = movePromotion(move);
+    if (flags & FLAG_CAPTURE || promotion) {
+      // Most valuable victim, least valuable attacker
+      const victim = flags & FLAG_CAPTURE ? squares[moveTo(move)] : 0;
+      const victimValue = victim ? PIECE_VALUES[pieceType(victim)] : PIECE_VALUES[PAWN];
+      const attacker = pieceType(squares[moveFrom(move)]);
+      return ORDER_CAPTURE + victimValue * 10 + PIECE_VALUES[promotion] - (attacker === KING ? 0 : PIECE_VALUES[attacker] / 10);
+    }
+    const killers = this.killers[ply];
+    if (move === killers[0]) return ORDER_KILLER + 1;
+    if (move === killers[1]) return ORDER_KILLER;
+    return this.history[historyIndex(this.board.side, move)];
+  }
+
+  private hasPieces(side: number): boolean {
+    const { squares } = this.board;
+    for (let sq = 0; sq < 128; sq++) {
+      if (sq & 0x88) {
+        sq += 7;
+        continue;
+      }
+      const piece = squares[sq];
+      if (piece && (piece >> 4) === side && pieceType(piece) !== PAWN && pieceType(piece) !== KING) return true;
+    }
+    return false;
+  }
+}
+
+function historyIndex(side: number, move: number): number {
+  return (side * 128 + moveFrom(move)) * 128 + moveTo(move);
+}
+
+// Selection sort step: move the best remaining move to index `start`
+function pickNext(moves: number[], scores: number[], start: number): number {
+  let best = start;
+  for (let i = start + 1; i < moves.length; i++) {
+    if (scores[i] > scores[best]) best = i;
+  }
+  if (best !== start) {
+    [moves[start], moves[best]] = [moves[best], moves[start]];
+    [scores[start], scores[best]] = [scores[best], scores[start]];
+  }
+  return moves[start];
+}
@@ -0,0 +1,166 @@
+// UCI (Universal Chess Interface) adapter on top of the engine host, so the
+// engine can play in standard tools such as cutechess-cli or a GUI
+
+import { STARTING_FEN } from '@/lib/chess';
+import { WHITE_SIDE } from '@/lib/movegen';
+import { boardFromUciMoves } from '@/lib/engine/computer';
+import { createEngineHost } from '@/lib/engine/host';
+import { EngineGoLimits, EngineResponse } from '@/lib/engine/protocol';
+
+export const ENGINE_NAME = 'Halal Chess';
+
+export interface UciEngine {
+  // Handle one line of input; returns false once the engine should exit
+  receive(line: string): boolean;
+  idle(): Promise<void>;
+}
+
+// Time to spend on a move given the remaining clock, in milliseconds
+export function allocateTime(timeLeft: number, increment = 0, movesToGo?: number): number {
+  const moves = movesToGo ? Math.min(movesToGo, 40) : 30;
+  const target = timeLeft / moves + increment * 0.8;
+  // Keep a safety margin for communication delays
+  return Math.max(10, Math.min(target, timeLeft / 2 - 50));
+}
+
+function formatInfo(response: Extract<EngineResponse, { type: 'info' }>): string {
+  const score = response.mate !== undefined ? `mate ${response.mate}` : `cp ${response.score}`;
+  return `info depth ${response.depth} score ${score} nodes ${response.nodes} nps ${response.nps} time ${response.timeMs} pv ${response.pv.join(' ')}`;
+}
+
+// A stop flag shared with another thread (see cli.ts) lets "stop" interrupt a
+// search mid-iteration, since this thread only reads input between iterations
+export function createUciEngine(write: (line: string) => void, stopFlag?: SharedArrayBuffer): UciEngine {
+  const flag = stopFlag ? new Int32Array(stopFlag) : null;
+  let fen = STARTING_FEN;
+  let moves: string[] = [];
+  let whiteToMove = true;
+  let nextId = 1;
+  let currentId = 0;
+  // In infinite mode the best move must wait for "stop"
+  let infinite = false;
+  let heldBestMove: string | null = null;
+
+  const host = createEngineHost(response => {
+    switch (response.type) {
+      case 'info':
+        if (response.id === currentId) write(formatInfo(response));
+        break;
+      case 'bestmove': {
+        const line = `bestmove ${response.move ?? '0000'}${response.ponder ? ` ponder ${response.ponder}` : ''}`;
+        // Every go gets its best move, including one superseded by a later go
+        if (infinite && response.id === currentId) {
+          heldBestMove = line;
+        } else {
+          write(line);
+        }
+        break;
+      }
+      case 'error':
+        write(`info string ${response.message}`);
+        break;
+    }
+  });
+
+  if (stopFlag) host.handle({ type: 'init', stopFlag });
+
+  function setPosition(args: string[]) {
+    const movesIndex = args.indexOf('moves');
+    const spec = movesIndex === -1 ? args : args.slice(0, movesIndex);
+    const nextFen = spec[0] === 'startpos' ? STARTING_FEN : spec[0] === 'fen' ? spec.slice(1).join(' ') : null;
+    if (!nextFen) {
+      write(`info string Invalid position command`);
+      return;
+    }
+    const nextMoves = movesIndex === -1 ? [] : args.slice(movesIndex + 1);
+    try {
+      whiteToMove = boardFromUciMoves(nextFen, nextMoves).side === WHITE_SIDE;
+    } catch (err) {
+      write(`info string ${(err as Error).message}`);
+      return;
+    }
+    fen = nextFen;
+    moves = nextMoves;
+    host.handle({ type: 'position', fen, moves });
+  }
+
+  function go(args: string[]) {
+    const value = (name: string) => {
+      const index = args.indexOf(name);
+      return index === -1 ? undefined : Number(args[index + 1]);
+    };
+    const limits: EngineGoLimits = {};
+    if (value('depth') !== undefined) limits.depth = value('depth');
+    if (value('nodes') !== undefined) limits.nodes = value('nodes');
+    if (value('movetime') !== undefined) limits.timeMs = value('movetime');
+
+    const timeLeft = value(whiteToMove ? 'wtime' : 'btime');
+    if (timeLeft !== undefined && limits.timeMs === undefined) {
+      limits.timeMs = allocateTime(timeLeft, value(whiteToMove ? 'winc' : 'binc'), value('movestogo'));
+    }
+
+    // A new search ends an infinite one that already finished
+    if (heldBestMove) {
+      write(heldBestMove);
+      heldBestMove = null;
+    }
+    infinite = args.includes('infinite');
+    currentId = nextId++;
+    if (flag) Atomics.store(flag, 0, currentId);
+    host.handle({ type: 'go', id: currentId, limits });
+  }
+
+  function stop() {
+    if (flag) Atomics.store(flag, 0, 0);
+    host.handle({ type: 'stop' });
+    if (infinite) {
+      infinite = false;
+      if (heldBestMove) {
+        write(heldBestMove);
+        heldBestMove = null;
+      }
+    }
+  }
+
+  function receive(line: string): boolean {
+    const [command, ...args] = line.trim().split(/\s+/);
+    switch (command) {
+      case 'uci':
+        write(`id name ${ENGINE_NAME}`);
+        write('id author Halal Chess contributors');
+        write('uciok');
+        break;
+      case 'isready':
+        write('readyok');
+        break;
+      case 'ucinewgame':
+        host.handle({ type: 'newgame' });
+        break;
+      case 'position':
+        setPosition(args);
+        break;
+      case 'go':
+        go(args);
+        break;
+      case 'stop':
+        stop();
+        break;
+      case 'quit':
+        if (flag) Atomics.store(flag, 0, 0);
+        host.handle({ type: 'stop' });
+        return false;
+      case '':
+      case 'debug':
+      case 'setoption':
+      case 'register':
+      case 'ponderhit':
+        // Accepted but not supported
+        break;
+      default:
+        write(`info string Unknown command: ${command}`);
+    }
+    return true;
+  }
+
+  return { receive, idle: host.idle };
+}
@@ -0,0 +1,11 @@
+// Web Worker entry point: runs the engine off the main thread so searches
+// don't freeze the board or the clocks
+
+import { createEngineHost } from '@/lib/engine/host';
+import { EngineRequest } from '@/lib/engine/protocol';
+
+const host = createEngineHost(response => self.postMessage(response));
+
+self.onmessage = (event: MessageEvent<EngineRequest>) => {
+  host.handle(event.data);
+};
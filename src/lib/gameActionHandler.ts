@@ -0,0 +1,486 @@
+// Server side of the game-action edge function, kept free of Deno APIs so it
+// can be tested against a fake Supabase client. Every change to a room's game
+// comes through here and is checked against the stored state: the caller's
+// seat, the side to move, the legality of the move and the version the
+// caller's action was based on.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integration-supabase/types';
+import { GameState, PieceColor, chess960Fen, createInitialGameState, toFen } from '@/lib/chess';
+import { hasTimedOut, moveDeadline, timeOut } from '@/lib/clock';
+import { ConditionalMoves, parseConditionalMoves } from '@/lib/conditionalMoves';
+import { parseUci, toUci } from '@/lib/engine/computer';
+import {
+  CreateRoomRequest,
+  GameActionRequest,
+  RoomUpdate,
+  VersionedGameState,
+  applyRoomAction,
+  parseGameState,
+  parseMatchScore,
+  rematchScore,
+  roomUpdateGame,
+} from '@/lib/roomActions';
+import { generateRoomCode } from '@/lib/roomCodes';
+import { getTimeControl, parseTimeControl } from '@/lib/timeControl';
+import { getVariant } from '@/lib/variants';
+
+export interface GameActionResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+// Rooms are publicly readable, so seats hold a hash of the player's id
+// rather than the id itself, which is what proves a player holds the seat
+export async function seatId(playerId: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(playerId));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The chess_moves row for the last move of a game
+function moveRow(roomId: string, state: GameState): Database['public']['Tables']['chess_moves']['Insert'] {
+  const move = state.moves[state.moves.length - 1];
+  return {
+    room_id: roomId,
+    ply: state.moves.length,
+    uci: toUci(move),
+    san: move.notation ?? '',
+    fen_after: toFen(state),
+    clock_after: move.piece.color === 'white' ? state.whiteTime : state.blackTime,
+  };
+}
+
+type RoomRow = Database['public']['Tables']['chess_rooms']['Row'];
+
+// The game stored in a room, in its variant
+function roomGame(room: RoomRow): GameState {
+  const variant = getVariant(room.variant).id;
+  const startPosition = variant === 'chess960' ? room.start_position : null;
+  return parseGameState(room.game_state, room.time_control, variant, startPosition);
+}
+
+// Tell everyone in the room about a change, on the realtime channel they all
+// listen on. The moves reach them as chess_moves rows, logged before this.
+async function broadcastRoom(db: SupabaseClient<Database>, room: RoomRow, state: GameState, version: number) {
+  const update: RoomUpdate = {
+    version,
+    ply: state.moves.length,
+    game: roomUpdateGame(state),
+    playerWhiteId: room.player_white_id,
+    playerBlackId: room.player_black_id,
+    rematchRoomId: room.rematch_room_id,
+  };
+  try {
+    await db.channel(`room-${room.id}`).httpSend('room', update);
+  } catch (err) {
+    // The change is saved; players catch up on their next action or reload
+    console.error('Error broadcasting room update:', err);
+  }
+}
+
+// A new room for a rematch of the game in `state`: same settings, seats
+// swapped. Both seats are taken already, so the wait for White's first move
+// starts at `now`.
+function rematchRow(room: RoomRow, state: GameState, now: number): Database['public']['Tables']['chess_rooms']['Insert'] {
+  const initial = { ...createInitialGameState(room.time_control, state.initialFen, state.variant), lastMoveAt: now };
+  return {
+    player_code: generateRoomCode(),
+    spectator_code: generateRoomCode(),
+    time_control: room.time_control,
+    variant: room.variant,
+    start_position: room.start_position,
+    allow_spectators: room.allow_spectators,
+    allow_takebacks: room.allow_takebacks,
+    player_white_id: room.player_black_id,
+    player_black_id: room.player_white_id,
+    game_state: JSON.parse(JSON.stringify(initial)),
+    move_deadline: deadlineColumn(initial, room.time_control),
+    match_score: JSON.parse(JSON.stringify(rematchScore(parseMatchScore(room.match_score), state))),
+  };
+}
+
+// Open a room with the creator seated as White. The game is set up here from
+// the settings alone, so a room can't start from a board or clock of the
+// client's own.
+async function createRoom(db: SupabaseClient<Database>, request: CreateRoomRequest): Promise<GameActionResult> {
+  const { playerId, action } = request;
+  const settings = action.settings ?? ({} as CreateRoomRequest['action']['settings']);
+  if (typeof playerId !== 'string' || !playerId) return { status: 400, body: { error: 'Invalid request' } };
+  if (typeof settings.timeControl !== 'string' || !parseTimeControl(settings.timeControl)) {
+    return { status: 400, body: { error: 'Invalid time control' } };
+  }
+  if (getVariant(settings.variant).id !== settings.variant) return { status: 400, body: { error: 'Unknown variant' } };
+  if (typeof settings.allowSpectators !== 'boolean' || typeof settings.allowTakebacks !== 'boolean') {
+    return { status: 400, body: { error: 'Invalid room settings' } };
+  }
+
+  const startPosition = settings.variant === 'chess960' ? settings.startPosition : null;
+  let initial: GameState;
+  try {
+    const startFen = startPosition === null ? undefined : chess960Fen(startPosition);
+    initial = createInitialGameState(settings.timeControl, startFen, settings.variant);
+  } catch {
+    return { status: 400, body: { error: 'Invalid start position' } };
+  }
+
+  const { data: room, error } = await db
+    .from('chess_rooms')
+    .insert({
+      player_code: generateRoomCode(),
+      spectator_code: generateRoomCode(),
+      time_control: settings.timeControl,
+      variant: settings.variant,
+      start_position: startPosition,
+      allow_spectators: settings.allowSpectators,
+      allow_takebacks: settings.allowTakebacks,
+      player_white_id: await seatId(playerId),
+      game_state: JSON.parse(JSON.stringify(initial)),
+    })
+    .select('id, player_code, spectator_code')
+    .single();
+  if (error) return { status: 500, body: { error: error.message } };
+  return {
+    status: 200,
+    body: { roomId: room.id, playerCode: room.player_code, spectatorCode: room.spectator_code, color: 'white' },
+  };
+}
+
+function deadlineColumn(state: GameState, timeControl: string): string | null {
+  const deadline = moveDeadline(state, getTimeControl(timeControl));
+  return deadline === null ? null : new Date(deadline).toISOString();
+}
+
+// Once both players are seated White has to make a first move in time, or
+// the game is aborted; the wait is timed from `now`. Returns the game as it
+// now stands.
+async function startFirstMoveTimer(db: SupabaseClient<Database>, room: RoomRow, now: number): Promise<VersionedGameState> {
+  const gameState = roomGame(room);
+  if (gameState.moves.length > 0 || gameState.lastMoveAt !== undefined) return { gameState, version: room.version };
+
+  const next = { ...gameState, lastMoveAt: now };
+  const { data: updated, error } = await db
+    .from('chess_rooms')
+    .update({
+      game_state: JSON.parse(JSON.stringify(next)),
+      version: room.version + 1,
+      move_deadline: deadlineColumn(next, room.time_control),
+    })
+    .eq('id', room.id)
+    .eq('version', room.version)
+    .select('version');
+  if (error) console.error('Error starting the first move timer:', error);
+  return updated?.length ? { gameState: next, version: room.version + 1 } : { gameState, version: room.version };
+}
+
+// Read or replace the caller's conditional moves. They are set on the
+// opponent's turn and answer the move the opponent makes next.
+async function conditionalMovesAction(
+  db: SupabaseClient<Database>,
+  room: RoomRow,
+  color: PieceColor,
+  gameState: GameState,
+  action: GameActionRequest['action'],
+  now: number,
+): Promise<GameActionResult> {
+  if (getTimeControl(room.time_control).kind !== 'correspondence') {
+    return { status: 400, body: { error: 'Conditional moves are only for correspondence games' } };
+  }
+
+  if (action.type === 'get-conditional-moves') {
+    const { data, error } = await db
+      .from('chess_conditional_moves')
+      .select('moves, ply')
+      .eq('room_id', room.id)
+      .eq('color', color)
+      .maybeSingle();
+    if (error) return { status: 500, body: { error: error.message } };
+    const current = data?.ply === gameState.moves.length;
+    return { status: 200, body: { moves: (current && parseConditionalMoves(data.moves)) || {} } };
+  }
+
+  if (action.type !== 'set-conditional-moves') return { status: 400, body: { error: 'Invalid request' } };
+  if (gameState.status === 'over') return { status: 400, body: { error: 'The game is not in progress' } };
+  if (gameState.turn === color) {
+    return { status: 400, body: { error: "Conditional moves are set on your opponent's turn" } };
+  }
+  const moves = parseConditionalMoves(action.moves);
+  if (!moves) return { status: 400, body: { error: 'Invalid conditional moves' } };
+
+  const { error } = Object.keys(moves).length === 0
+    ? await db.from('chess_conditional_moves').delete().eq('room_id', room.id).eq('color', color)
+    : await db.from('chess_conditional_moves').upsert({
+        room_id: room.id,
+        color,
+        moves: JSON.parse(JSON.stringify(moves)),
+        ply: gameState.moves.length,
+        updated_at: new Date(now).toISOString(),
+      });
+  if (error) return { status: 500, body: { error: error.message } };
+  return { status: 200, body: { moves } };
+}
+
+// The side to move's conditional reply to the move just made in `state`,
+// played if it's legal, and what is left of their conditional moves after
+// it. Null if they have none set for this move.
+async function conditionalReply(
+  db: SupabaseClient<Database>,
+  room: RoomRow,
+  state: GameState,
+  now: number,
+): Promise<{ replied: GameState | null; remaining: ConditionalMoves | null } | null> {
+  const { data, error } = await db
+    .from('chess_conditional_moves')
+    .select('moves, ply')
+    .eq('room_id', room.id)
+    .eq('color', state.turn)
+    .maybeSingle();
+  if (error) console.error('Error reading conditional moves:', error);
+  if (!data) return null;
+
+  const tree = data.ply === state.moves.length - 1 ? parseConditionalMoves(data.moves) : null;
+  const branch = tree?.[toUci(state.moves[state.moves.length - 1])];
+  const reply = branch && parseUci(branch.move);
+  if (!reply) return { replied: null, remaining: null };
+  try {
+    const replied = applyRoomAction(state, state.turn, { type: 'move', ...reply }, room.time_control, now);
+    return { replied, remaining: branch.then ?? null };
+  } catch {
+    return { replied: null, remaining: null };
+  }
+}
+
+// `now` is the server time the action is taken at, which runs the clocks
+export async function handleGameAction(
+  db: SupabaseClient<Database>,
+  request: GameActionRequest | CreateRoomRequest,
+  now = Date.now(),
+): Promise<GameActionResult> {
+  if (request?.action?.type === 'create') return createRoom(db, request as CreateRoomRequest);
+  const { roomId, playerId, action, version } = (request ?? {}) as GameActionRequest;
+  if (typeof roomId !== 'string' || typeof playerId !== 'string' || !playerId || !action?.type) {
+    return { status: 400, body: { error: 'Invalid request' } };
+  }
+  if (action.type === 'time') return { status: 200, body: { serverTime: now } };
+
+  const { data: room, error: fetchError } = await db
+    .from('chess_rooms')
+    .select('*')
+    .eq('id', roomId)
+    .maybeSingle();
+  if (fetchError) return { status: 500, body: { error: fetchError.message } };
+  if (!room) return { status: 404, body: { error: 'Room not found' } };
+
+  const seat = await seatId(playerId);
+  const color: PieceColor | null =
+    room.player_white_id === seat ? 'white' : room.player_black_id === seat ? 'black' : null;
+
+  if (action.type === 'join') {
+    if (color) {
+      return {
+        status: 200,
+        body: { color, playerWhiteId: room.player_white_id, playerBlackId: room.player_black_id, serverTime: now },
+      };
+    }
+    // Room ids are public, so only someone given the player code may sit down
+    if (action.playerCode !== room.player_code) return { status: 403, body: { error: 'Wrong player code' } };
+    const column = !room.player_white_id ? 'player_white_id' : !room.player_black_id ? 'player_black_id' : null;
+    if (!column) return { status: 200, body: { color: null, serverTime: now } };
+
+    // Only take the seat if nobody else has in the meantime
+    const { data: joined, error: joinError } = await db
+      .from('chess_rooms')
+      .update({ [column]: seat })
+      .eq('id', roomId)
+      .is(column, null)
+      .select('*');
+    if (joinError) return { status: 500, body: { error: joinError.message } };
+    if (!joined?.length) return { status: 409, body: { error: 'The seat was just taken' } };
+    const seated = joined[0].player_white_id && joined[0].player_black_id
+      ? await startFirstMoveTimer(db, joined[0], now)
+      : { gameState: roomGame(joined[0]), version: joined[0].version };
+    await broadcastRoom(db, joined[0], seated.gameState, seated.version);
+    return {
+      status: 200,
+      body: {
+        color: column === 'player_white_id' ? 'white' : 'black',
+        playerWhiteId: joined[0].player_white_id,
+        playerBlackId: joined[0].player_black_id,
+        serverTime: now,
+      },
+    };
+  }
+
+  if (!color) return { status: 403, body: { error: 'You are not playing in this room' } };
+
+  // Any action shows the player is still in the room; heartbeats cover the
+  // time in between
+  const { error: seenError } = await db
+    .from('chess_player_heartbeats')
+    .upsert({ room_id: roomId, color, seen_at: new Date(now).toISOString() });
+  if (seenError) return { status: 500, body: { error: seenError.message } };
+  if (action.type === 'heartbeat') return { status: 200, body: { serverTime: now } };
+  if (!room.player_white_id || !room.player_black_id) {
+    return { status: 409, body: { error: 'Waiting for an opponent' } };
+  }
+
+  // An action decided on an outdated game (say a flag fall reported just as
+  // the opponent moved) is refused along with the current game, so the
+  // client can reconcile and retry
+  if (typeof version === 'number' && version !== room.version) {
+    return { status: 409, body: { error: 'The game has changed', gameState: room.game_state, version: room.version } };
+  }
+
+  if (action.type === 'offer-takeback' && !room.allow_takebacks) {
+    return { status: 400, body: { error: 'Takebacks are not allowed in this room' } };
+  }
+  if (action.type.endsWith('-rematch') && room.rematch_room_id) {
+    return { status: 400, body: { error: 'The rematch has already started' } };
+  }
+
+  const gameState = roomGame(room);
+
+  if (action.type === 'get-conditional-moves' || action.type === 'set-conditional-moves') {
+    return conditionalMovesAction(db, room, color, gameState, action, now);
+  }
+
+  // Leaving is judged by when the opponent was last heard from, not by
+  // anything the claimant says
+  let opponentSeenAt: number | undefined;
+  if (action.type === 'claim-abandonment') {
+    const { data: heartbeat, error: heartbeatError } = await db
+      .from('chess_player_heartbeats')
+      .select('seen_at')
+      .eq('room_id', roomId)
+      .eq('color', color === 'white' ? 'black' : 'white')
+      .maybeSingle();
+    if (heartbeatError) return { status: 500, body: { error: heartbeatError.message } };
+    opponentSeenAt = heartbeat ? Date.parse(heartbeat.seen_at) : 0;
+  }
+
+  let next;
+  try {
+    next = applyRoomAction(gameState, color, action, room.time_control, now, opponentSeenAt);
+  } catch (err) {
+    return { status: 400, body: { error: (err as Error).message } };
+  }
+
+  // A move the opponent set a conditional reply to is answered at once, in
+  // the same write
+  const played = [next];
+  let conditional: Awaited<ReturnType<typeof conditionalReply>> = null;
+  if (action.type === 'move' && next.status === 'playing' && getTimeControl(room.time_control).kind === 'correspondence') {
+    conditional = await conditionalReply(db, room, next, now);
+    if (conditional?.replied) {
+      next = conditional.replied;
+      played.push(next);
+    }
+  }
+
+  // An accepted rematch is played in a new room, linked from this one
+  let rematchRoomId: string | undefined;
+  if (action.type === 'accept-rematch') {
+    const { data: rematch, error: rematchError } = await db
+      .from('chess_rooms')
+      .insert(rematchRow(room, next, now))
+      .select('id')
+      .single();
+    if (rematchError) return { status: 500, body: { error: rematchError.message } };
+    rematchRoomId = rematch.id;
+  }
+
+  // Write only if nobody else has since we read the room. The deadline lets
+  // overdue games be ended without either player (expireOverdueGames).
+  const { data: updated, error: updateError } = await db
+    .from('chess_rooms')
+    .update({
+      game_state: JSON.parse(JSON.stringify(next)),
+      version: room.version + 1,
+      move_deadline: deadlineColumn(next, room.time_control),
+      ...(rematchRoomId && { rematch_room_id: rematchRoomId }),
+    })
+    .eq('id', roomId)
+    .eq('version', room.version)
+    .select('game_state, version');
+  if (rematchRoomId && (updateError || !updated?.length)) {
+    // Nobody can reach the rematch room unless this room links to it
+    await db.from('chess_rooms').delete().eq('id', rematchRoomId);
+  }
+  if (updateError) return { status: 500, body: { error: updateError.message } };
+  if (!updated?.length) {
+    const { data: latest } = await db.from('chess_rooms').select('game_state, version').eq('id', roomId).maybeSingle();
+    return {
+      status: 409,
+      body: { error: 'The game has changed', gameState: latest?.game_state ?? null, version: latest?.version ?? room.version },
+    };
+  }
+
+  // The room's game stays authoritative; a missing row only leaves a gap in
+  // the move log, so it doesn't fail the action
+  if (next.moves.length > gameState.moves.length) {
+    const { error: insertError } = await db.from('chess_moves').insert(played.map(state => moveRow(roomId, state)));
+    if (insertError) console.error('Error logging move:', insertError);
+  } else if (next.moves.length < gameState.moves.length) {
+    // Taken back moves leave the log, so their plies can be played again
+    const { error: deleteError } = await db.from('chess_moves').delete().eq('room_id', roomId).gt('ply', next.moves.length);
+    if (deleteError) console.error('Error removing taken back moves:', deleteError);
+    // Conditional moves were set for the position that was taken back
+    const { error: conditionalError } = await db.from('chess_conditional_moves').delete().eq('room_id', roomId);
+    if (conditionalError) console.error('Error removing conditional moves:', conditionalError);
+  }
+
+  // Keep the rest of a followed conditional line for the opponent's next move
+  if (conditional) {
+    const answerer = color === 'white' ? 'black' : 'white';
+    const { error: conditionalError } = conditional.remaining
+      ? await db.from('chess_conditional_moves').upsert({
+          room_id: roomId,
+          color: answerer,
+          moves: JSON.parse(JSON.stringify(conditional.remaining)),
+          ply: next.moves.length,
+          updated_at: new Date(now).toISOString(),
+        })
+      : await db.from('chess_conditional_moves').delete().eq('room_id', roomId).eq('color', answerer);
+    if (conditionalError) console.error('Error updating conditional moves:', conditionalError);
+  }
+
+  await broadcastRoom(db, { ...room, rematch_room_id: rematchRoomId ?? room.rematch_room_id }, next, updated[0].version);
+  return { status: 200, body: { gameState: updated[0].game_state, version: updated[0].version } };
+}
+
+// End every game whose deadline has passed, by an abort or on time, just as
+// the next action on it would. The cron job calls this every minute through
+// the game-action function, so correspondence games end without a visit.
+export async function expireOverdueGames(db: SupabaseClient<Database>, now = Date.now()): Promise<GameActionResult> {
+  const { data: rooms, error } = await db
+    .from('chess_rooms')
+    .select('*')
+    .lt('move_deadline', new Date(now).toISOString());
+  if (error) return { status: 500, body: { error: error.message } };
+
+  let expired = 0;
+  for (const room of rooms ?? []) {
+    const gameState = roomGame(room);
+    const clock = getTimeControl(room.time_control);
+    if (!hasTimedOut(gameState, now, clock)) continue;
+
+    // Should a player act on the room meanwhile, their action ends the game the same way
+    const next = timeOut(gameState, now, clock);
+    const { data: updated, error: updateError } = await db
+      .from('chess_rooms')
+      .update({
+        game_state: JSON.parse(JSON.stringify(next)),
+        version: room.version + 1,
+        move_deadline: deadlineColumn(next, room.time_control),
+      })
+      .eq('id', room.id)
+      .eq('version', room.version)
+      .select('id');
+    if (updateError) {
+      console.error('Error expiring game:', updateError);
+    } else if (updated?.length) {
+      expired++;
+      await broadcastRoom(db, room, next, room.version + 1);
+    }
+  }
+  return { status: 200, body: { expired } };
+}
@@ -0,0 +1,593 @@
+// 0x88 move generator with in-place make/unmake.
+//
+// Squares are indexed row * 16 + col, matching Position (row 0 is rank 8), so
+// any index with a bit of 0x88 set lies off the board. Pieces are small
+// integers: the piece type in the low bits plus BLACK for black pieces. Moves
+// are packed into a single number (see encodeMove) so that move lists and the
+// undo stack stay cheap during search.
+
+import type { Board, CastlingRights, FenPosition, PieceColor, PieceType, Position } from '@/lib/chess';
+import { VARIANTS, Variant } from '@/lib/variants';
+
+export const PAWN = 1;
+export const KNIGHT = 2;
+export const BISHOP = 3;
+export const ROOK = 4;
+export const QUEEN = 5;
+export const KING = 6;
+// Shatranj pieces
+export const FERZ = 7;
+export const ALFIL = 8;
+
+export const BLACK = 16;
+const TYPE_MASK = 15;
+
+export const WHITE_SIDE = 0;
+export const BLACK_SIDE = 1;
+
+// Move flags
+export const FLAG_CAPTURE = 1;
+export const FLAG_EN_PASSANT = 2;
+export const FLAG_CASTLE = 4;
+export const FLAG_DOUBLE_PUSH = 8;
+
+const PIECE_CODES: Record<PieceType, number> = {
+  pawn: PAWN, knight: KNIGHT, bishop: BISHOP, rook: ROOK, queen: QUEEN, king: KING, ferz: FERZ, alfil: ALFIL,
+};
+
+const PIECE_TYPES: PieceType[] = ['pawn', 'pawn', 'knight', 'bishop', 'rook', 'queen', 'king', 'ferz', 'alfil'];
+
+// How each non-pawn piece moves: leapers jump to each offset once, sliders
+// repeat each offset until blocked
+interface PieceMovement {
+  offsets: number[];
+  slides: boolean;
+}
+
+const DIAGONALS = [-17, -15, 15, 17];
+const ORTHOGONALS = [-16, -1, 1, 16];
+
+const PIECE_MOVEMENT: Record<number, PieceMovement> = {
+  [KNIGHT]: { offsets: [-33, -31, -18, -14, 14, 18, 31, 33], slides: false },
+  [BISHOP]: { offsets: DIAGONALS, slides: true },
+  [ROOK]: { offsets: ORTHOGONALS, slides: true },
+  [QUEEN]: { offsets: [...DIAGONALS, ...ORTHOGONALS], slides: true },
+  [KING]: { offsets: [...DIAGONALS, ...ORTHOGONALS], slides: false },
+  [FERZ]: { offsets: DIAGONALS, slides: false },
+  [ALFIL]: { offsets: [-34, -30, 30, 34], slides: false },
+};
+
+// Attack tables derived from PIECE_MOVEMENT: for every offset, a bitmask of the
+// piece types that attack along it. Attack detection scans outward from the
+// target square once per offset instead of once per piece type.
+interface AttackVector {
+  offset: number;
+  types: number; // Bitmask of 1 << pieceType
+}
+
+const LEAP_ATTACKS: AttackVector[] = [];
+const SLIDE_ATTACKS: AttackVector[] = [];
+
+for (const [type, { offsets, slides }] of Object.entries(PIECE_MOVEMENT)) {
+  const table = slides ? SLIDE_ATTACKS : LEAP_ATTACKS;
+  for (const offset of offsets) {
+    const vector = table.find(v => v.offset === offset);
+    if (vector) {
+      vector.types |= 1 << Number(type);
+    } else {
+      table.push({ offset, types: 1 << Number(type) });
+    }
+  }
+}
+
+// Pawn push direction and capture offsets, indexed by side
+const PAWN_PUSH = [-16, 16];
+const PAWN_CAPTURES = [[-17, -15], [15, 17]];
+const PAWN_START_ROW = [6, 1];
+const PROMOTION_ROW = [0, 7];
+const HOME_ROW = [7, 0];
+
+export function encodeMove(from: number, to: number, promotion = 0, flags = 0): number {
+  return from | (to << 7) | (promotion << 14) | (flags << 18);
+}
+
+export const moveFrom = (move: number) => move & 127;
+export const moveTo = (move: number) => (move >> 7) & 127;
+export const movePromotion = (move: number) => (move >> 14) & 15;
+export const moveFlags = (move: number) => move >> 18;
+
+export const squareOf = (pos: Position) => pos.row * 16 + pos.col;
+export const rowOf = (sq: number) => sq >> 4;
+export const colOf = (sq: number) => sq & 7;
+
+export const pieceType = (piece: number) => piece & TYPE_MASK;
+export const pieceSide = (piece: number) => piece >> 4;
+
+// The square the king ends up on, which differs from the encoded target for
+// castling moves (encoded as the king capturing its own rook)
+export function kingDestination(move: number): number {
+  const from = moveFrom(move);
+  const to = moveTo(move);
+  if (!(moveFlags(move) & FLAG_CASTLE)) return to;
+  return (from & 0x70) | (to > from ? 6 : 2);
+}
+
+// The target square a player enters for a move: the king's destination when
+// castling, or its own rook's square under Chess960 rules, where the king may
+// not move at all or could also reach its destination by a normal move
+export function moveTarget(move: number, variant: Variant): number {
+  return variant.chess960Castling ? moveTo(move) : kingDestination(move);
+}
+
+// Zobrist keys, split into two 32-bit halves since the hash is XORed in place.
+// A fixed seed keeps hashes stable between runs (and between worker threads).
+const ZOBRIST_SIZE = 32 * 128 + 4 * 9 + 128 + 1;
+const ZOBRIST_LO = new Int32Array(ZOBRIST_SIZE);
+const ZOBRIST_HI = new Int32Array(ZOBRIST_SIZE);
+const Z_CASTLING = 32 * 128;
+const Z_EN_PASSANT = Z_CASTLING + 4 * 9;
+const Z_SIDE = Z_EN_PASSANT + 128;
+
+{
+  let seed = 0x9e3779b9;
+  const next = () => {
+    seed ^= seed << 13;
+    seed ^= seed >>> 17;
+    seed ^= seed << 5;
+    return seed | 0;
+  };
+  for (let i = 0; i < ZOBRIST_SIZE; i++) {
+    ZOBRIST_LO[i] = next();
+    ZOBRIST_HI[i] = next();
+  }
+}
+
+interface Undo {
+  move: number;
+  captured: number;
+  castling: number[];
+  enPassant: number;
+  halfmove: number;
+  hashLo: number;
+  hashHi: number;
+}
+
+export class Board88 {
+  squares = new Int8Array(128);
+  side = WHITE_SIDE;
+  // Rook file for [white kingside, white queenside, black kingside, black queenside], or -1
+  castling = [-1, -1, -1, -1];
+  enPassant = -1;
+  halfmove = 0;
+  fullmove = 1;
+  kings = [-1, -1];
+  hashLo = 0;
+  hashHi = 0;
+  variant: Variant = VARIANTS.standard;
+  private promotions = [QUEEN, ROOK, BISHOP, KNIGHT];
+  private history: Undo[] = [];
+
+  static fromPosition(position: FenPosition, variant?: Variant): Board88 {
+    const board = Board88.fromBoard(position.board, position.turn, position.enPassantTarget, position.castlingRights, variant);
+    board.halfmove = position.halfmoveClock;
+    board.fullmove = position.fullmoveNumber;
+    return board;
+  }
+
+  static fromBoard(board: Board, turn: PieceColor, enPassantTarget?: Position, castlingRights?: CastlingRights, variant?: Variant): Board88 {
+    const result = new Board88();
+    if (variant) result.setVariant(variant);
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const piece = board[row][col];
+        if (!piece) continue;
+        const sq = row * 16 + col;
+        const code = PIECE_CODES[piece.type] | (piece.color === 'black' ? BLACK : 0);
+        result.squares[sq] = code;
+        if (piece.type === 'king') result.kings[piece.color === 'white' ? WHITE_SIDE : BLACK_SIDE] = sq;
+      }
+    }
+    result.side = turn === 'white' ? WHITE_SIDE : BLACK_SIDE;
+    result.enPassant = enPassantTarget ? squareOf(enPassantTarget) : -1;
+    if (castlingRights) {
+      result.castling = [
+        castlingRights.white.kingside ?? -1,
+        castlingRights.white.queenside ?? -1,
+        castlingRights.black.kingside ?? -1,
+        castlingRights.black.queenside ?? -1,
+      ];
+    }
+    result.computeHash();
+    return result;
+  }
+
+  private setVariant(variant: Variant) {
+    this.variant = variant;
+    this.promotions = variant.promotionPieces.map(type => PIECE_CODES[type]);
+  }
+
+  clone(): Board88 {
+    const copy = new Board88();
+    copy.setVariant(this.variant);
+    copy.squares.set(this.squares);
+    copy.side = this.side;
+    copy.castling = this.castling.slice();
+    copy.enPassant = this.enPassant;
+    copy.halfmove = this.halfmove;
+    copy.fullmove = this.fullmove;
+    copy.kings = this.kings.slice();
+    copy.hashLo = this.hashLo;
+    copy.hashHi = this.hashHi;
+    return copy;
+  }
+
+  private computeHash() {
+    this.hashLo = 0;
+    this.hashHi = 0;
+    for (let sq = 0; sq < 128; sq++) {
+      if (!(sq & 0x88) && this.squares[sq]) this.toggleHash(this.squares[sq] * 128 + sq);
+    }
+    this.toggleStateHash();
+    if (this.side === BLACK_SIDE) this.toggleHash(Z_SIDE);
+  }
+
+  private toggleHash(key: number) {
+    this.hashLo ^= ZOBRIST_LO[key];
+    this.hashHi ^= ZOBRIST_HI[key];
+  }
+
+  // Castling rights and en passant square
+  private toggleStateHash() {
+    for (let index = 0; index < 4; index++) {
+      this.toggleHash(Z_CASTLING + index * 9 + this.castling[index] + 1);
+    }
+    if (this.enPassant >= 0) this.toggleHash(Z_EN_PASSANT + this.enPassant);
+  }
+
+  private put(sq: number, piece: number) {
+    const old = this.squares[sq];
+    if (old) this.toggleHash(old * 128 + sq);
+    if (piece) this.toggleHash(piece * 128 + sq);
+    this.squares[sq] = piece;
+  }
+
+  // Whether the current position already occurred since the last irreversible move
+  isRepetition(): boolean {
+    const { history } = this;
+    for (let i = history.length - 2; i >= 0 && i >= history.length - this.halfmove; i -= 2) {
+      if (history[i].hashLo === this.hashLo && history[i].hashHi === this.hashHi) return true;
+    }
+    return false;
+  }
+
+  // Whether `sq` is attacked by any piece of `bySide`
+  isAttacked(sq: number, bySide: number): boolean {
+    const { squares } = this;
+    const colorFlag = bySide === BLACK_SIDE ? BLACK : 0;
+
+    // Pawns attack diagonally forward, so look backward from the target
+    for (const offset of PAWN_CAPTURES[bySide]) {
+      const from = sq - offset;
+      if (!(from & 0x88) && squares[from] === (PAWN | colorFlag)) return true;
+    }
+
+    for (const { offset, types } of LEAP_ATTACKS) {
+      const from = sq + offset;
+      if (from & 0x88) continue;
+      const piece = squares[from];
+      if (piece && pieceSide(piece) === bySide && (types & (1 << pieceType(piece)))) return true;
+    }
+
+    for (const { offset, types } of SLIDE_ATTACKS) {
+      let from = sq + offset;
+      while (!(from & 0x88)) {
+        const piece = squares[from];
+        if (piece) {
+          if (pieceSide(piece) === bySide && (types & (1 << pieceType(piece)))) return true;
+          break;
+        }
+        from += offset;
+      }
+    }
+
+    return false;
+  }
+
+  inCheck(side = this.side): boolean {
+    const king = this.kings[side];
+    return king >= 0 && this.isAttacked(king, side ^ 1);
+  }
+
+  // Pseudo-legal moves for the side to move; moves may leave the king in check
+  generatePseudoMoves(moves: number[] = []): number[] {
+    const { squares, side } = this;
+
+    for (let sq = 0; sq < 128; sq++) {
+      if (sq & 0x88) {
+        sq += 7;
+        continue;
+      }
+      const piece = squares[sq];
+      if (!piece || pieceSide(piece) !== side) continue;
+      const type = pieceType(piece);
+
+      if (type === PAWN) {
+        this.generatePawnMoves(sq, moves);
+        continue;
+      }
+
+      const { offsets, slides } = PIECE_MOVEMENT[type];
+      for (const offset of offsets) {
+        let to = sq + offset;
+        while (!(to & 0x88)) {
+          const target = squares[to];
+          if (target) {
+            if (pieceSide(target) !== side) moves.push(encodeMove(sq, to, 0, FLAG_CAPTURE));
+            break;
+          }
+          moves.push(encodeMove(sq, to));
+          if (!slides) break;
+          to += offset;
+        }
+      }
+
+      if (type === KING) this.generateCastlingMoves(sq, moves);
+    }
+
+    return moves;
+  }
+
+  private generatePawnMoves(sq: number, moves: number[]) {
+    const { squares, side } = this;
+    const push = PAWN_PUSH[side];
+    const promotes = (to: number) => rowOf(to) === PROMOTION_ROW[side];
+    const add = (to: number, flags: number) => {
+      if (promotes(to)) {
+        for (const promotion of this.promotions) moves.push(encodeMove(sq, to, promotion, flags));
+      } else {
+        moves.push(encodeMove(sq, to, 0, flags));
+      }
+    };
+
+    const one = sq + push;
+    if (!(one & 0x88) && !squares[one]) {
+      add(one, 0);
+      const two = one + push;
+      if (this.variant.pawnDoubleStep && rowOf(sq) === PAWN_START_ROW[side] && !squares[two]) {
+        moves.push(encodeMove(sq, two, 0, FLAG_DOUBLE_PUSH));
+      }
+    }
+
+    for (const offset of PAWN_CAPTURES[side]) {
+      const to = sq + offset;
+      if (to & 0x88) continue;
+      const target = squares[to];
+      if (target && pieceSide(target) !== side) {
+        add(to, FLAG_CAPTURE);
+      } else if (to === this.enPassant) {
+        moves.push(encodeMove(sq, to, 0, FLAG_CAPTURE | FLAG_EN_PASSANT));
+      }
+    }
+  }
+
+  // Castling is encoded as the king moving onto its own rook. The king ends on
+  // the g- or c-file and the rook on the f- or d-file wherever they started.
+  private generateCastlingMoves(kingSq: number, moves: number[]) {
+    const { squares, side } = this;
+    const row = HOME_ROW[side];
+    if (rowOf(kingSq) !== row) return;
+
+    for (let index = 0; index < 2; index++) {
+      const rookCol = this.castling[side * 2 + index];
+      if (rookCol < 0) continue;
+      const rookSq = row * 16 + rookCol;
+      if (squares[rookSq] !== (ROOK | (side === BLACK_SIDE ? BLACK : 0))) continue;
+
+      const kingTo = row * 16 + (index === 0 ? 6 : 2);
+      const rookTo = row * 16 + (index === 0 ? 5 : 3);
+
+      // Every square the king or rook crosses must be empty apart from those two
+      const low = Math.min(kingSq, rookSq, kingTo, rookTo);
+      const high = Math.max(kingSq, rookSq, kingTo, rookTo);
+      let clear = true;
+      for (let sq = low; sq <= high; sq++) {
+        if (sq !== kingSq && sq !== rookSq && squares[sq]) {
+          clear = false;
+          break;
+        }
+      }
+      if (!clear) continue;
+
+      // The king may not castle out of, through or into check
+      const step = kingTo >= kingSq ? 1 : -1;
+      let safe = true;
+      for (let sq = kingSq; ; sq += step) {
+        if (this.isAttacked(sq, side ^ 1)) {
+          safe = false;
+          break;
+        }
+        if (sq === kingTo) break;
+      }
+      if (safe) moves.push(encodeMove(kingSq, rookSq, 0, FLAG_CASTLE));
+    }
+  }
+
+  // Legal moves for the side to move
+  generateLegalMoves(): number[] {
+    const legal: number[] = [];
+    for (const move of this.generatePseudoMoves()) {
+      if (this.makeMove(move)) legal.push(move);
+      this.unmakeMove();
+    }
+    return legal;
+  }
+
+  hasLegalMoves(): boolean {
+    for (const move of this.generatePseudoMoves()) {
+      const legal = this.makeMove(move);
+      this.unmakeMove();
+      if (legal) return true;
+    }
+    return false;
+  }
+
+  // Play a pseudo-legal move in place. Returns false if it leaves the mover's
+  // king in check; the move must be undone with unmakeMove() either way.
+  makeMove(move: number): boolean {
+    const { squares } = this;
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const flags = moveFlags(move);
+    const side = this.side;
+    const piece = squares[from];
+    const colorFlag = side === BLACK_SIDE ? BLACK : 0;
+
+    const undo: Undo = {
+      move,
+      captured: 0,
+      castling: this.castling.slice(),
+      enPassant: this.enPassant,
+      halfmove: this.halfmove,
+      hashLo: this.hashLo,
+      hashHi: this.hashHi,
+    };
+    this.history.push(undo);
+    this.toggleStateHash();
+
+    if (flags & FLAG_CASTLE) {
+      const kingTo = kingDestination(move);
+      const rookTo = (from & 0x70) | (to > from ? 5 : 3);
+      this.put(from, 0);
+      this.put(to, 0);
+      this.put(kingTo, KING | colorFlag);
+      this.put(rookTo, ROOK | colorFlag);
+      this.kings[side] = kingTo;
+    } else {
+      if (flags & FLAG_EN_PASSANT) {
+        const capturedSq = to - PAWN_PUSH[side];
+        undo.captured = squares[capturedSq];
+        this.put(capturedSq, 0);
+      } else {
+        undo.captured = squares[to];
+      }
+      const promotion = movePromotion(move);
+      this.put(to, promotion ? promotion | colorFlag : piece);
+      this.put(from, 0);
+      if (pieceType(piece) === KING) this.kings[side] = to;
+    }
+
+    // Castling rights: a king move loses both, touching a rook's home square
+    // loses that rook's right
+    if (pieceType(piece) === KING) {
+      this.castling[side * 2] = -1;
+      this.castling[side * 2 + 1] = -1;
+    }
+    for (let index = 0; index < 4; index++) {
+      const rookCol = this.castling[index];
+      if (rookCol < 0) continue;
+      const rookSq = HOME_ROW[index >> 1] * 16 + rookCol;
+      if (from === rookSq || to === rookSq) this.castling[index] = -1;
+    }
+
+    this.enPassant = flags & FLAG_DOUBLE_PUSH ? from + PAWN_PUSH[side] : -1;
+    this.halfmove = pieceType(piece) === PAWN || undo.captured ? 0 : this.halfmove + 1;
+    if (side === BLACK_SIDE) this.fullmove++;
+    this.side = side ^ 1;
+    this.toggleStateHash();
+    this.toggleHash(Z_SIDE);
+
+    return !this.isAttacked(this.kings[side], this.side);
+  }
+
+  unmakeMove(): void {
+    const undo = this.history.pop();
+    if (!undo) return;
+
+    const { squares } = this;
+    const { move } = undo;
+    const from = moveFrom(move);
+    const to = moveTo(move);
+    const flags = moveFlags(move);
+    this.side ^= 1;
+    const side = this.side;
+    const colorFlag = side === BLACK_SIDE ? BLACK : 0;
+
+    if (flags & FLAG_CASTLE) {
+      const kingTo = kingDestination(move);
+      const rookTo = (from & 0x70) | (to > from ? 5 : 3);
+      squares[kingTo] = 0;
+      squares[rookTo] = 0;
+      squares[from] = KING | colorFlag;
+      squares[to] = ROOK | colorFlag;
+      this.kings[side] = from;
+    } else {
+      const moved = movePromotion(move) ? PAWN | colorFlag : squares[to];
+      squares[from] = moved;
+      if (flags & FLAG_EN_PASSANT) {
+        squares[to] = 0;
+        squares[to - PAWN_PUSH[side]] = undo.captured;
+      } else {
+        squares[to] = undo.captured;
+      }
+      if (pieceType(moved) === KING) this.kings[side] = from;
+    }
+
+    this.castling = undo.castling;
+    this.enPassant = undo.enPassant;
+    this.halfmove = undo.halfmove;
+    this.hashLo = undo.hashLo;
+    this.hashHi = undo.hashHi;
+    if (side === BLACK_SIDE) this.fullmove--;
+  }
+
+  // Pass the turn without moving, for null-move pruning. Undo with unmakeNullMove().
+  makeNullMove(): void {
+    this.history.push({
+      move: 0,
+      captured: 0,
+      castling: this.castling,
+      enPassant: this.enPassant,
+      halfmove: this.halfmove,
+      hashLo: this.hashLo,
+      hashHi: this.hashHi,
+    });
+    if (this.enPassant >= 0) this.toggleHash(Z_EN_PASSANT + this.enPassant);
+    this.enPassant = -1;
+    this.halfmove++;
+    this.side ^= 1;
+    this.toggleHash(Z_SIDE);
+  }
+
+  unmakeNullMove(): void {
+    const undo = this.history.pop()!;
+    this.side ^= 1;
+    this.enPassant = undo.enPassant;
+    this.halfmove = undo.halfmove;
+    this.hashLo = undo.hashLo;
+    this.hashHi = undo.hashHi;
+  }
+
+  // Count leaf nodes of the legal move tree, for validating the generator
+  perft(depth: number): number {
+    if (depth === 0) return 1;
+    let nodes = 0;
+    for (const move of this.generatePseudoMoves()) {
+      if (this.makeMove(move)) {
+        nodes += depth === 1 ? 1 : this.perft(depth - 1);
+      }
+      this.unmakeMove();
+    }
+    return nodes;
+  }
+
+  pieceAt(sq: number): { type: PieceType; color: PieceColor } | null {
+    const piece = this.squares[sq];
+    if (!piece) return null;
+    return { type: PIECE_TYPES[pieceType(piece)], color: pieceSide(piece) === BLACK_SIDE ? 'black' : 'white' };
+  }
+}
+
+export function promotionType(move: number): PieceType | undefined {
+  const promotion = movePromotion(move);
+  return promotion ? PIECE_TYPES[promotion] : undefined;
+}
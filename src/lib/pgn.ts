@@ -0,0 +1,319 @@
+// PGN (Portable Game Notation) import/export
+
+import {
+  GameState,
+  Termination,
+  createInitialGameState,
+  endGame,
+  makeMove,
+  parseSan,
+  toFen,
+} from '@/lib/chess';
+import { SECONDS_PER_DAY, TimeControlStage, formatTimeControl, initialTime, parseTimeControl } from '@/lib/timeControl';
+import { findVariantByName, getVariant } from '@/lib/variants';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PgnExportOptions {
+  event?: string;
+  site?: string;
+  date?: Date;
+  round?: string;
+  white?: string;
+  black?: string;
+  timeControl?: string; // App format, e.g. "10+5" (see timeControl.ts)
+  roomCode?: string;
+  tags?: Record<string, string>; // Any further custom tags
+}
+
+export interface PgnGame {
+  tags: Record<string, string>;
+  moves: string[]; // SAN as written in the file
+  comments: Record<number, string>; // Keyed by the number of plies played before the comment
+  result: PgnResult;
+  state: GameState;
+}
+
+const RESULTS: PgnResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+const MAX_LINE_LENGTH = 80;
+
+// Result of a game as it should appear in the Result tag
+export function getPgnResult(state: GameState): PgnResult {
+  return (state.status === 'over' && state.result) || '*';
+}
+
+// The standard Termination tag value for how a game ended
+function getPgnTermination(termination: Termination): string {
+  switch (termination) {
+    case 'timeout':
+    case 'timeout-vs-insufficient-material':
+      return 'time forfeit';
+    case 'abandonment':
+      return 'abandoned';
+    case 'aborted':
+      return 'unterminated';
+    default:
+      return 'normal';
+  }
+}
+
+function formatPgnDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+}
+
+// App time controls in PGN's form, counted in seconds: "10+5" becomes
+// "600+5", "40/90+30, then 30+30" becomes "40/5400+30:1800+30" and
+// "hourglass 3" becomes "*180" and "3 days" becomes "1/259200". PGN cannot
+// express delays, so those are "?".
+function toPgnTimeControl(text: string): string {
+  const timeControl = parseTimeControl(text);
+  if (!timeControl) return '-';
+  if (timeControl.kind === 'hourglass') return `*${initialTime(timeControl)}`;
+  if (timeControl.kind === 'correspondence') return `1/${initialTime(timeControl)}`;
+  if (timeControl.stages.some(stage => stage.mode !== 'increment' && stage.bonus)) return '?';
+  return timeControl.stages
+    .map(stage => {
+      const moves = stage.moves ? `${stage.moves}/` : '';
+      const bonus = stage.bonus ? `+${stage.bonus}` : '';
+      return `${moves}${Math.round(stage.minutes * 60)}${bonus}`;
+    })
+    .join(':');
+}
+
+// The reverse of toPgnTimeControl; returns undefined for anything we cannot
+// express
+function fromPgnTimeControl(text: string): string | undefined {
+  const sandclock = /^\*(\d+)$/.exec(text);
+  if (sandclock) return formatTimeControl({ kind: 'hourglass', minutes: Number(sandclock[1]) / 60 });
+  const perMove = /^1\/(\d+)$/.exec(text);
+  if (perMove && Number(perMove[1]) % SECONDS_PER_DAY === 0) {
+    return formatTimeControl({ kind: 'correspondence', days: Number(perMove[1]) / SECONDS_PER_DAY });
+  }
+
+  const stages: TimeControlStage[] = [];
+  for (const field of text.split(':')) {
+    const match = /^(?:(\d+)\/)?(\d+)(?:\+(\d+))?$/.exec(field);
+    if (!match) return undefined;
+    stages.push({
+      moves: match[1] ? Number(match[1]) : undefined,
+      minutes: Number(match[2]) / 60,
+      bonus: Number(match[3] || 0),
+      mode: 'increment',
+    });
+  }
+  const timeControl = parseTimeControl(formatTimeControl({ kind: 'stages', stages }));
+  return timeControl ? formatTimeControl(timeControl) : undefined;
+}
+
+function escapeTagValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function wrapMovetext(tokens: string[]): string {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.join('\n');
+}
+
+// Export a game as PGN. The Seven Tag Roster (Event, Site, Date, Round, White,
+// Black, Result) always comes first, followed by TimeControl and custom tags.
+export function exportPgn(state: GameState, options: PgnExportOptions = {}): string {
+  const result = getPgnResult(state);
+  const tags: Record<string, string> = {
+    Event: options.event ?? 'Casual game',
+    Site: options.site ?? '?',
+    Date: options.date ? formatPgnDate(options.date) : '????.??.??',
+    Round: options.round ?? '-',
+    White: options.white ?? '?',
+    Black: options.black ?? '?',
+    Result: result,
+  };
+  if (options.timeControl) {
+    tags.TimeControl = toPgnTimeControl(options.timeControl);
+  }
+  if (state.status === 'over' && state.termination) {
+    tags.Termination = getPgnTermination(state.termination);
+  }
+  if (state.variant && state.variant !== 'standard') {
+    tags.Variant = getVariant(state.variant).name;
+  }
+  if (state.initialFen) {
+    tags.SetUp = '1';
+    tags.FEN = state.initialFen;
+  }
+  if (options.roomCode) {
+    tags.RoomCode = options.roomCode;
+  }
+  Object.assign(tags, options.tags);
+
+  const header = Object.entries(tags)
+    .map(([name, value]) => `[${name} "${escapeTagValue(value)}"]`)
+    .join('\n');
+
+  // Move numbers continue from the starting position's fullmove number
+  const start = createInitialGameState(undefined, state.initialFen, state.variant);
+  let moveNumber = start.fullmoveNumber;
+  let turn = start.turn;
+  const tokens: string[] = [];
+  state.moves.forEach((move, index) => {
+    if (turn === 'white') {
+      tokens.push(`${moveNumber}.`);
+    } else if (index === 0) {
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(move.notation || '');
+    if (turn === 'black') moveNumber++;
+    turn = turn === 'white' ? 'black' : 'white';
+  });
+  tokens.push(result);
+
+  return `${header}\n\n${wrapMovetext(tokens)}\n`;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+type PgnToken =
+  | { type: 'tag'; name: string; value: string }
+  | { type: 'move'; san: string }
+  | { type: 'comment'; text: string }
+  | { type: 'result'; result: PgnResult };
+
+function tokenizePgn(text: string): PgnToken[] {
+  const tokens: PgnToken[] = [];
+  // Lines starting with "%" are escaped and must be ignored
+  const source = text.replace(/^%.*$/gm, '');
+  let i = 0;
+  let variationDepth = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '{') {
+      const end = source.indexOf('}', i);
+      if (end === -1) throw new Error('Invalid PGN: unterminated comment');
+      if (variationDepth === 0) tokens.push({ type: 'comment', text: source.slice(i + 1, end).trim() });
+      i = end + 1;
+    } else if (char === ';') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      if (variationDepth === 0) tokens.push({ type: 'comment', text: source.slice(i + 1, stop).trim() });
+      i = stop;
+    } else if (char === '(') {
+      // Variations are skipped; only the main line is replayed
+      variationDepth++;
+      i++;
+    } else if (char === ')') {
+      if (variationDepth === 0) throw new Error('Invalid PGN: unbalanced ")"');
+      variationDepth--;
+      i++;
+    } else if (char === '[' && variationDepth === 0) {
+      const match = /^\[\s*([A-Za-z0-9_]+)\s+"((?:[^"\\]|\\.)*)"\s*\]/.exec(source.slice(i));
+      if (!match) throw new Error(`Invalid PGN: malformed tag near "${source.slice(i, i + 30)}"`);
+      tokens.push({ type: 'tag', name: match[1], value: match[2].replace(/\\(.)/g, '$1') });
+      i += match[0].length;
+    } else {
+      const match = /^[^\s{}();[\]]+/.exec(source.slice(i));
+      const word = match ? match[0] : char;
+      i += word.length;
+      if (variationDepth > 0) continue;
+
+      if ((RESULTS as string[]).includes(word)) {
+        tokens.push({ type: 'result', result: word as PgnResult });
+        continue;
+      }
+      // Strip move numbers ("12." / "12..."), NAGs ("$14") and annotation glyphs
+      const san = word.replace(/^\d+\.+/, '').replace(/[!?]+$/, '');
+      if (!san || /^\$\d+$/.test(san) || /^\.+$/.test(san)) continue;
+      tokens.push({ type: 'move', san });
+    }
+  }
+
+  if (variationDepth > 0) throw new Error('Invalid PGN: unterminated variation');
+  return tokens;
+}
+
+function buildGame(tags: Record<string, string>, moveTokens: string[], comments: Record<number, string>, result: PgnResult, gameNumber: number): PgnGame {
+  const timeControl = tags.TimeControl ? fromPgnTimeControl(tags.TimeControl) : undefined;
+  let state: GameState;
+  try {
+    const variant = tags.Variant ? findVariantByName(tags.Variant) : undefined;
+    if (tags.Variant && !variant) throw new Error(`unsupported variant "${tags.Variant}"`);
+    state = createInitialGameState(timeControl, tags.FEN, variant?.id);
+  } catch (err) {
+    throw new Error(`Invalid PGN in game ${gameNumber}: ${(err as Error).message}`);
+  }
+
+  moveTokens.forEach((san, ply) => {
+    const move = parseSan(state, san);
+    const next = move && makeMove(state, move.from, move.to, move.promotion);
+    if (!next) {
+      throw new Error(`Invalid PGN in game ${gameNumber}: illegal or ambiguous move "${san}" at ply ${ply + 1} (${toFen(state)})`);
+    }
+    state = next;
+  });
+
+  // A decisive or drawn result that the moves alone do not explain
+  if (state.status === 'playing' || state.status === 'waiting') {
+    if (result !== '*') state = endGame(state, result);
+  }
+
+  return { tags, moves: moveTokens, comments, result, state };
+}
+
+// Parse a PGN file containing one or more games
+export function parsePgn(text: string): PgnGame[] {
+  const games: PgnGame[] = [];
+  let tags: Record<string, string> = {};
+  let moves: string[] = [];
+  let comments: Record<number, string> = {};
+  let hasContent = false;
+
+  const finish = (result: PgnResult) => {
+    games.push(buildGame(tags, moves, comments, result, games.length + 1));
+    tags = {};
+    moves = [];
+    comments = {};
+    hasContent = false;
+  };
+
+  for (const token of tokenizePgn(text)) {
+    switch (token.type) {
+      case 'tag':
+        // A tag after movetext without a result token starts a new game
+        if (moves.length > 0) finish((tags.Result as PgnResult) || '*');
+        tags[token.name] = token.value;
+        hasContent = true;
+        break;
+      case 'move':
+        moves.push(token.san);
+        hasContent = true;
+        break;
+      case 'comment':
+        comments[moves.length] = comments[moves.length]
+          ? `${comments[moves.length]} ${token.text}`
+          : token.text;
+        hasContent = true;
+        break;
+      case 'result':
+        finish(token.result);
+        break;
+    }
+  }
+  if (hasContent) finish((tags.Result as PgnResult) || '*');
+
+  return games;
+}
@@ -0,0 +1,115 @@
+// Premoves: moves a player queues during the opponent's turn, played the
+// moment their turn comes if still legal. While queued they are only checked
+// against how the pieces move, since the opponent's reply can still open or
+// close lines, capture or block.
+
+import { Board, CastlingRights, GameState, PieceType, Position, cloneBoard, makeMove, resolveCastlingInput } from '@/lib/chess';
+import { VariantId, getVariant } from '@/lib/variants';
+
+export interface Premove {
+  from: Position;
+  to: Position;
+  promotion?: PieceType;
+}
+
+const KNIGHT_JUMPS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const DIAGONALS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+const ORTHOGONALS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// Squares the piece on `from` could move to on some later turn, ignoring
+// whatever stands in the way. Captures are left open onto the player's own
+// pieces too, to recapture a piece the opponent is expected to take.
+export function getPremoveTargets(board: Board, from: Position, castlingRights?: CastlingRights, variant?: VariantId): Position[] {
+  const piece = board[from.row][from.col];
+  if (!piece) return [];
+  const rules = getVariant(variant);
+  const targets: Position[] = [];
+  const add = (row: number, col: number) => {
+    if (row >= 0 && row < 8 && col >= 0 && col < 8) targets.push({ row, col });
+  };
+  const steps = (directions: number[][], distance: number) => {
+    for (const [dRow, dCol] of directions) {
+      for (let i = 1; i <= distance; i++) add(from.row + dRow * i, from.col + dCol * i);
+    }
+  };
+
+  switch (piece.type) {
+    case 'pawn': {
+      const forward = piece.color === 'white' ? -1 : 1;
+      const startRow = piece.color === 'white' ? 6 : 1;
+      add(from.row + forward, from.col);
+      if (rules.pawnDoubleStep && from.row === startRow) add(from.row + 2 * forward, from.col);
+      add(from.row + forward, from.col - 1);
+      add(from.row + forward, from.col + 1);
+      break;
+    }
+    case 'knight':
+      KNIGHT_JUMPS.forEach(([dRow, dCol]) => add(from.row + dRow, from.col + dCol));
+      break;
+    case 'ferz':
+      steps(DIAGONALS, 1);
+      break;
+    case 'alfil':
+      DIAGONALS.forEach(([dRow, dCol]) => add(from.row + 2 * dRow, from.col + 2 * dCol));
+      break;
+    case 'bishop':
+      steps(DIAGONALS, 7);
+      break;
+    case 'rook':
+      steps(ORTHOGONALS, 7);
+      break;
+    case 'queen':
+      steps([...DIAGONALS, ...ORTHOGONALS], 7);
+      break;
+    case 'king': {
+      steps([...DIAGONALS, ...ORTHOGONALS], 1);
+      const rights = castlingRights?.[piece.color];
+      if (!rules.castling || !rights || from.row !== (piece.color === 'white' ? 7 : 0)) break;
+      // Castling is entered as in a normal move: onto the rook in Chess960,
+      // two squares over otherwise
+      for (const side of ['kingside', 'queenside'] as const) {
+        const rookCol = rights[side];
+        if (rookCol === null) continue;
+        add(from.row, rules.chess960Castling ? rookCol : side === 'kingside' ? 6 : 2);
+      }
+      break;
+    }
+  }
+
+  return targets.filter(t => !(t.row === from.row && t.col === from.col));
+}
+
+// The board as it will look once the queued premoves are played, which later
+// premoves are made on
+export function applyPremoves(board: Board, premoves: Premove[]): Board {
+  const next = cloneBoard(board);
+  for (const { from, to, promotion } of premoves) {
+    const piece = next[from.row][from.col];
+    if (!piece) continue;
+    const target = next[to.row][to.col];
+    next[from.row][from.col] = null;
+
+    const castles = piece.type === 'king' && (
+      (target?.type === 'rook' && target.color === piece.color) || Math.abs(to.col - from.col) > 1
+    );
+    if (castles) {
+      const kingside = to.col > from.col;
+      const rookCol = target?.type === 'rook' ? to.col : kingside ? 7 : 0;
+      const rook = next[from.row][rookCol];
+      next[from.row][rookCol] = null;
+      next[from.row][kingside ? 6 : 2] = piece;
+      if (rook?.type === 'rook') next[from.row][kingside ? 5 : 3] = rook;
+      continue;
+    }
+    next[to.row][to.col] = promotion ? { ...piece, type: promotion } : piece;
+  }
+  return next;
+}
+
+// The first queued premove, if it can be played now
+export function playablePremove(state: GameState, premoves: Premove[]): Premove | null {
+  const [premove] = premoves;
+  if (!premove) return null;
+  const to = resolveCastlingInput(state.board, premove.from, premove.to, state.castlingRights, state.variant);
+  return makeMove(state, premove.from, to, premove.promotion) ? { ...premove, to } : null;
+}
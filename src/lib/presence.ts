@@ -0,0 +1,37 @@
+// Who is connected to a game room, from the realtime presence each browser
+// tracks on the room's channel: players by their colour, spectators by name
+
+import { PieceColor } from '@/lib/chess';
+
+// What each connection tracks
+export interface PresenceMeta {
+  color: PieceColor | null; // Null for spectators
+  name: string;
+}
+
+export interface RoomPresence {
+  white: boolean;
+  black: boolean;
+  spectators: string[]; // Names, one per connection
+}
+
+// Read a channel's presence state, which lists each client's connections
+export function roomPresence(state: Record<string, PresenceMeta[]>): RoomPresence {
+  const metas = Object.values(state).flat();
+  return {
+    white: metas.some(meta => meta.color === 'white'),
+    black: metas.some(meta => meta.color === 'black'),
+    spectators: metas.filter(meta => !meta.color).map(meta => meta.name),
+  };
+}
+
+// When the opponent of `color` was first missed (local time, ms), given when
+// they were missed before; null while they are connected
+export function opponentMissedSince(
+  presence: RoomPresence,
+  color: PieceColor,
+  missedSince: number | null,
+  now: number,
+): number | null {
+  return presence[color === 'white' ? 'black' : 'white'] ? null : missedSince ?? now;
+}
@@ -0,0 +1,422 @@
+// Player actions on a room's game, shared by the client (to update the board
+// straight away) and the game-action edge function, which re-checks every
+// action against the stored state before saving it
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CastlingRights,
+  DrawReason,
+  GameResult,
+  GameState,
+  PieceColor,
+  PieceType,
+  Position,
+  chess960Fen,
+  claimDraw,
+  createInitialGameState,
+  endGame,
+  getPositionKey,
+  hasInsufficientMaterial,
+  makeMove,
+  undoMove,
+  winResult,
+} from '@/lib/chess';
+import { ConditionalMoves } from '@/lib/conditionalMoves';
+import { clockElapsed, hasTimedOut, pressClock, rewindClock, stopClock, timeOut } from '@/lib/clock';
+import { getTimeControl } from '@/lib/timeControl';
+import { VariantId } from '@/lib/variants';
+
+export type RoomAction =
+  | { type: 'move'; from: Position; to: Position; promotion?: PieceType }
+  | { type: 'resign' }
+  | { type: 'offer-draw' }
+  | { type: 'accept-draw' }
+  | { type: 'decline-draw' }
+  | { type: 'claim-draw' }
+  | { type: 'abort' }
+  | { type: 'claim-abandonment' }
+  | { type: 'offer-takeback' }
+  | { type: 'accept-takeback' }
+  | { type: 'decline-takeback' }
+  | { type: 'offer-rematch' }
+  | { type: 'accept-rematch' }
+  | { type: 'decline-rematch' }
+  | { type: 'timeout' };
+
+// The body sent to the game-action function
+export interface GameActionRequest {
+  roomId: string;
+  playerId: string;
+  action:
+    | RoomAction
+    | { type: 'join'; playerCode: string } // Takes a free seat; the code proves the player was invited
+    | { type: 'time' } // The server's time only, for spectators' clocks
+    | { type: 'heartbeat' } // A seated player is still in the room
+    | { type: 'get-conditional-moves' }
+    | { type: 'set-conditional-moves'; moves: ConditionalMoves };
+  version?: number; // Room version the action is based on
+}
+
+// What a room is created with
+export interface RoomSettings {
+  timeControl: string;
+  variant: VariantId;
+  startPosition: number | null; // Chess960 position number
+  allowSpectators: boolean;
+  allowTakebacks: boolean;
+}
+
+// The body sent to the game-action function to open a room, which seats the
+// creator as White
+export interface CreateRoomRequest {
+  playerId: string;
+  action: { type: 'create'; settings: RoomSettings };
+}
+
+// A room's game and its version, which the server increments on every write
+export interface VersionedGameState {
+  gameState: GameState;
+  version: number;
+}
+
+// The parts of a game a room update carries: everything but the moves and
+// what follows from them
+const ROOM_UPDATE_FIELDS = [
+  'status',
+  'result',
+  'termination',
+  'whiteTime',
+  'blackTime',
+  'lastMoveAt',
+  'drawOffer',
+  'takebackOffer',
+  'rematchOffer',
+] as const;
+
+type RoomUpdateGame = Pick<GameState, (typeof ROOM_UPDATE_FIELDS)[number]>;
+
+// What the game-action function broadcasts on a room's channel whenever it
+// changes the room. The moves themselves reach players and spectators as
+// chess_moves rows, so a change never sends the whole game.
+export interface RoomUpdate {
+  version: number;
+  ply: number; // Moves in the game, which may be fewer after a takeback
+  game: RoomUpdateGame;
+  playerWhiteId: string | null;
+  playerBlackId: string | null;
+  rematchRoomId: string | null;
+}
+
+export function roomUpdateGame(state: GameState): RoomUpdateGame {
+  return Object.fromEntries(ROOM_UPDATE_FIELDS.map(field => [field, state[field]])) as RoomUpdateGame;
+}
+
+// The game after a room update, from the game as shown with the moves
+// streamed in so far: moves taken back are undone and the rest of the game
+// comes from the update. Null while some of its moves have yet to arrive.
+export function applyRoomUpdate(state: GameState, update: RoomUpdate): GameState | null {
+  let current: GameState | null = state;
+  while (current && current.moves.length > update.ply) current = undoMove(current);
+  if (!current || current.moves.length < update.ply) return null;
+  // Fields the update leaves out were cleared
+  const game = Object.fromEntries(ROOM_UPDATE_FIELDS.map(field => [field, update.game[field]]));
+  return { ...current, ...game };
+}
+
+// Points each seat of a room has scored in the earlier games of a match, by
+// the colour they play in this room
+export interface MatchScore {
+  white: number;
+  black: number;
+}
+
+export function parseMatchScore(json: unknown): MatchScore | null {
+  const score = json as Partial<MatchScore> | null;
+  if (typeof score?.white !== 'number' || typeof score.black !== 'number') return null;
+  return { white: score.white, black: score.black };
+}
+
+// The score a rematch of the game in `state` starts with. Colours swap, so
+// White's points carry over to Black and the other way round.
+export function rematchScore(score: MatchScore | null, state: GameState): MatchScore {
+  const previous = score ?? { white: 0, black: 0 };
+  const white = state.result === '1-0' ? 1 : state.result === '1/2-1/2' ? 0.5 : 0;
+  const black = state.result === '0-1' ? 1 : state.result === '1/2-1/2' ? 0.5 : 0;
+  return { white: previous.black + black, black: previous.white + white };
+}
+
+export interface RoomSetup {
+  id: string;
+  timeControl: string;
+  variant: VariantId;
+  startPosition: number | null;
+}
+
+// Rooms created before castling rights were tracked only marked moved kings
+// and rooks with a hasMoved flag on the piece
+function legacyCastlingRights(board: GameState['board']): CastlingRights {
+  const rights: CastlingRights = {
+    white: { kingside: null, queenside: null },
+    black: { kingside: null, queenside: null },
+  };
+  for (const color of ['white', 'black'] as const) {
+    const row = color === 'white' ? 7 : 0;
+    const unmoved = (col: number, type: string) => {
+      const piece = board[row][col] as { type: string; color: string; hasMoved?: boolean } | null;
+      return piece?.type === type && piece.color === color && !piece.hasMoved;
+    };
+    if (!unmoved(4, 'king')) continue;
+    if (unmoved(7, 'rook')) rights[color].kingside = 7;
+    if (unmoved(0, 'rook')) rights[color].queenside = 0;
+  }
+  return rights;
+}
+
+// Rooms finished before games had a result and termination used one status
+// per way of ending, with time losses stored as checkmates
+function legacyOutcome(gs: Record<string, unknown>): Pick<GameState, 'status' | 'result' | 'termination'> {
+  const winner = gs.winner as PieceColor | undefined;
+  const result: GameResult = winner ? winResult(winner) : '1/2-1/2';
+  switch (gs.status) {
+    case 'checkmate':
+    case 'stalemate':
+    case 'bare-king':
+      return { status: 'over', result, termination: gs.status };
+    case 'resigned':
+      return { status: 'over', result, termination: 'resignation' };
+    case 'draw':
+      return { status: 'over', result: '1/2-1/2', termination: (gs.drawReason as DrawReason) || undefined };
+    default:
+      return { status: (gs.status as GameState['status']) || 'waiting' };
+  }
+}
+
+// Parse the game_state JSON stored on a room, filling in defaults for fields
+// that older rooms may not have. The room's variant and start position
+// columns are authoritative.
+export function parseGameState(json: unknown, timeControl: string, variant: VariantId, startPosition: number | null): GameState {
+  const startFen = startPosition !== null ? chess960Fen(startPosition) : undefined;
+  if (!json || typeof json !== 'object') {
+    return createInitialGameState(timeControl, startFen, variant);
+  }
+
+  const gs = json as Record<string, unknown>;
+  const initial = createInitialGameState(timeControl, startFen || (gs.initialFen as string) || undefined, variant);
+  const moves = (gs.moves as GameState['moves']) || [];
+  const board = (gs.board as GameState['board']) || initial.board;
+  const parsed: GameState = {
+    board,
+    turn: (gs.turn as 'white' | 'black') || 'white',
+    status: (gs.status as GameState['status']) || 'waiting',
+    result: gs.result as GameState['result'],
+    termination: gs.termination as GameState['termination'],
+    moves,
+    whiteTime: (gs.whiteTime as number) ?? initial.whiteTime,
+    blackTime: (gs.blackTime as number) ?? initial.blackTime,
+    lastMoveAt: gs.lastMoveAt as number | undefined,
+    lastMove: gs.lastMove as GameState['lastMove'],
+    enPassantTarget: gs.enPassantTarget as GameState['enPassantTarget'],
+    castlingRights: (gs.castlingRights as CastlingRights) || legacyCastlingRights(board),
+    drawOffer: gs.drawOffer as GameState['drawOffer'],
+    takebackOffer: gs.takebackOffer as GameState['takebackOffer'],
+    rematchOffer: gs.rematchOffer as GameState['rematchOffer'],
+    clockHistory: gs.clockHistory as GameState['clockHistory'],
+    halfmoveClock: (gs.halfmoveClock as number) ?? 0,
+    fullmoveNumber: (gs.fullmoveNumber as number) ?? initial.fullmoveNumber + Math.floor(moves.length / 2),
+    initialFen: initial.initialFen,
+    positionHistory: (gs.positionHistory as string[]) || [],
+    variant: initial.variant,
+  };
+  if (!['waiting', 'playing', 'over'].includes(parsed.status)) {
+    Object.assign(parsed, legacyOutcome(gs));
+  }
+  if (parsed.positionHistory.length === 0) {
+    parsed.positionHistory = [getPositionKey(parsed)];
+  }
+  return parsed;
+}
+
+// Seconds the opponent has to be gone, without moving, before the game can
+// be claimed as abandoned. The server judges "gone" by the heartbeats their
+// browser sends while in the room, every HEARTBEAT_SECONDS, and by their
+// actions. Browsers run timers in hidden tabs as rarely as once a minute, so
+// a player is only gone once HEARTBEAT_TIMEOUT_SECONDS pass without a word.
+export const ABANDONMENT_SECONDS = 60;
+export const HEARTBEAT_SECONDS = 20;
+export const HEARTBEAT_TIMEOUT_SECONDS = 6 * HEARTBEAT_SECONDS;
+
+// Apply an action by the player seated as `color` at server time `now`.
+// Throws with a message for the player if the action isn't allowed.
+// `opponentSeenAt` is the server time the opponent was last heard from (0 if
+// never), which the server passes to judge an abandonment claim; without it
+// only the clock is checked.
+export function applyRoomAction(
+  state: GameState,
+  color: PieceColor,
+  action: RoomAction,
+  timeControl: string,
+  now = Date.now(),
+  opponentSeenAt?: number,
+): GameState {
+  // Once the side to move is out of time the game is lost on time (or aborted
+  // before the first moves), whatever either player does next
+  const clock = getTimeControl(timeControl);
+  if (hasTimedOut(state, now, clock)) return timeOut(state, now, clock);
+  if (action.type === 'timeout') {
+    throw new Error(state.status === 'over' ? 'The game is not in progress' : 'The clock has not run out');
+  }
+  if (action.type === 'claim-abandonment') {
+    if (state.status !== 'playing' || state.turn === color) throw new Error('Your opponent is not on the move');
+    if (clock.kind === 'correspondence') throw new Error('Correspondence games cannot be abandoned');
+    if (clockElapsed(state, now) < ABANDONMENT_SECONDS) throw new Error('Your opponent has not been gone long enough');
+    if (opponentSeenAt !== undefined && now - opponentSeenAt < HEARTBEAT_TIMEOUT_SECONDS * 1000) {
+      throw new Error('Your opponent is still connected');
+    }
+  }
+
+  const next = applyAction(state, color, action);
+  if (action.type === 'move') return pressClock(state, next, clock, now);
+  if (action.type === 'accept-takeback') return rewindClock(state, next, now, clock);
+  return state.status === 'playing' && next.status !== 'playing' ? stopClock(state, next, now, clock) : next;
+}
+
+function applyAction(state: GameState, color: PieceColor, action: RoomAction): GameState {
+  const opponent = color === 'white' ? 'black' : 'white';
+  const isPlaying = state.status === 'playing';
+  const isOver = state.status === 'over';
+
+  switch (action.type) {
+    case 'move': {
+      if (!isPlaying && state.status !== 'waiting') throw new Error('The game is over');
+      if (state.turn !== color) throw new Error('Not your turn');
+      const next = makeMove(state, action.from, action.to, action.promotion);
+      if (!next) throw new Error('Invalid move');
+      // Moving on instead of answering turns a takeback request down
+      return { ...next, takebackOffer: undefined };
+    }
+
+    case 'resign':
+      if (!isPlaying) throw new Error('The game is not in progress');
+      return endGame(state, winResult(opponent), 'resignation');
+
+    case 'offer-draw':
+      if (!isPlaying) throw new Error('The game is not in progress');
+      if (state.drawOffer) throw new Error('There is already a pending draw offer');
+      return { ...state, drawOffer: color };
+
+    case 'accept-draw':
+      if (!isPlaying || state.drawOffer !== opponent) throw new Error('There is no draw offer to accept');
+      return endGame(state, '1/2-1/2', 'agreement');
+
+    case 'decline-draw':
+      if (!isPlaying || state.drawOffer !== opponent) throw new Error('There is no draw offer to decline');
+      return { ...state, drawOffer: undefined };
+
+    case 'offer-takeback':
+      if (!isPlaying) throw new Error('The game is not in progress');
+      if (!state.moves.some(move => move.piece.color === color)) throw new Error('You have no move to take back');
+      if (state.takebackOffer) throw new Error('There is already a pending takeback request');
+      return { ...state, takebackOffer: color };
+
+    case 'accept-takeback': {
+      if (!isPlaying || state.takebackOffer !== opponent) throw new Error('There is no takeback request to accept');
+      // Take back the opponent's last move, and ours if we have replied to it
+      let next = undoMove(state);
+      if (next && state.turn === opponent) next = undoMove(next);
+      if (!next) throw new Error('The move cannot be taken back');
+      return { ...next, takebackOffer: undefined, drawOffer: undefined };
+    }
+
+    case 'decline-takeback':
+      if (!isPlaying || state.takebackOffer !== opponent) throw new Error('There is no takeback request to decline');
+      return { ...state, takebackOffer: undefined };
+
+    case 'abort':
+      if (isOver) throw new Error('The game is not in progress');
+      if (state.moves.length >= 2) throw new Error('The game can only be aborted before both sides have moved');
+      return endGame(state, undefined, 'aborted');
+
+    // The absent opponent loses, unless the claimant couldn't have mated
+    // them: as when a flag falls, the game is drawn if the claimant (not the
+    // absent player) lacks mating material, since only the claimant's pieces
+    // could have won it
+    case 'claim-abandonment':
+      return hasInsufficientMaterial(state.board, color)
+        ? endGame(state, '1/2-1/2', 'abandonment')
+        : endGame(state, winResult(color), 'abandonment');
+
+    case 'offer-rematch':
+      if (!isOver) throw new Error('The game is not over yet');
+      if (state.rematchOffer) throw new Error('There is already a pending rematch offer');
+      return { ...state, rematchOffer: color };
+
+    // The game-action function sets up the new room
+    case 'accept-rematch':
+      if (!isOver || state.rematchOffer !== opponent) throw new Error('There is no rematch offer to accept');
+      return { ...state, rematchOffer: undefined };
+
+    case 'decline-rematch':
+      if (!isOver || state.rematchOffer !== opponent) throw new Error('There is no rematch offer to decline');
+      return { ...state, rematchOffer: undefined };
+
+    case 'claim-draw': {
+      if (state.turn !== color) throw new Error('Not your turn');
+      const next = claimDraw(state);
+      if (!next) throw new Error('No draw can be claimed in this position');
+      return next;
+    }
+
+    default:
+      throw new Error('Unknown action');
+  }
+}
+
+// The JSON body of a failed function call, if there is one
+async function errorBody(error: unknown): Promise<Record<string, unknown> | null> {
+  const context = (error as { context?: Response }).context;
+  if (!context || typeof context.json !== 'function') return null;
+  try {
+    return await context.json();
+  } catch {
+    return null;
+  }
+}
+
+// Submit an action to the game-action function. When someone else changed
+// the game first, the server refuses the write and sends the current game:
+// `onStale` is told about it and the action is re-applied to that game and
+// retried, unless it no longer makes sense there. `now` gives the time on the
+// server's clock. Throws with a message for the player if the action is
+// rejected.
+export async function submitRoomAction(
+  client: Pick<SupabaseClient, 'functions'>,
+  room: RoomSetup,
+  playerId: string,
+  color: PieceColor,
+  current: VersionedGameState,
+  action: RoomAction,
+  onStale?: (latest: VersionedGameState) => void,
+  maxAttempts = 3,
+  now: () => number = Date.now,
+): Promise<VersionedGameState> {
+  const parse = (json: unknown) => parseGameState(json, room.timeControl, room.variant, room.startPosition);
+  let base = current;
+
+  for (let attempt = 1; ; attempt++) {
+    applyRoomAction(base.gameState, color, action, room.timeControl, now());
+
+    const body: GameActionRequest = { roomId: room.id, playerId, action, version: base.version };
+    const { data, error } = await client.functions.invoke('game-action', { body });
+    if (!error) {
+      return { gameState: parse(data.gameState), version: data.version };
+    }
+
+    const details = await errorBody(error);
+    const isStale = (error as { context?: Response }).context?.status === 409 && typeof details?.version === 'number';
+    if (!isStale || attempt >= maxAttempts) {
+      throw new Error((details?.error as string) || error.message);
+    }
+    base = { gameState: parse(details.gameState), version: details.version as number };
+    onStale?.(base);
+  }
+}
@@ -0,0 +1,12 @@
+// Codes players and spectators join rooms with. Letters and digits that are
+// easily confused (I, O, 0, 1) are left out, as codes are read out and typed.
+
+const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function generateRoomCode(): string {
+  let code = '';
+  for (let i = 0; i < 6; i++) {
+    code += CODE_CHARS[Math.floor(Math.random() * CODE_CHARS.length)];
+  }
+  return code;
+}
@@ -0,0 +1,54 @@
+// Seats this browser holds in rooms, kept in local storage so a refresh or a
+// later visit rejoins with the same player id and so reclaims the seat. The id
+// works as a secret: rooms only store a hash of it (see gameActionHandler.ts).
+
+import { PieceColor } from '@/lib/chess';
+
+export interface SavedSeat {
+  roomId: string;
+  playerCode: string;
+  playerId: string;
+  color: PieceColor;
+  joinedAt: string; // ISO timestamp
+}
+
+const STORAGE_KEY = 'chess-seats';
+const MAX_SAVED_SEATS = 20;
+
+function readSeats(): SavedSeat[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeSeats(seats: SavedSeat[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(seats.slice(0, MAX_SAVED_SEATS)));
+}
+
+// Most recently joined first
+export function listSavedSeats(): SavedSeat[] {
+  return readSeats();
+}
+
+export function newPlayerId(): string {
+  return `player_${crypto.randomUUID()}`;
+}
+
+// The player id to join a room with: the saved one when this browser already
+// has a seat there, otherwise a fresh one
+export function getPlayerId(playerCode: string): string {
+  const saved = readSeats().find(seat => seat.playerCode === playerCode);
+  return saved?.playerId ?? newPlayerId();
+}
+
+export function saveSeat(seat: Omit<SavedSeat, 'joinedAt'>) {
+  const others = readSeats().filter(saved => saved.roomId !== seat.roomId);
+  writeSeats([{ ...seat, joinedAt: new Date().toISOString() }, ...others]);
+}
+
+export function forgetSeat(roomId: string) {
+  writeSeats(readSeats().filter(seat => seat.roomId !== roomId));
+}
@@ -0,0 +1,122 @@
+// Time controls, stored on rooms as text such as "10+5". A control is either
+// a list of stages, each with its own time bonus per move, or an hourglass.
+//
+//   10+5                   10 minutes, 5 second increment (Fischer)
+//   10d5                   10 minutes, 5 second simple (US) delay
+//   10b5                   10 minutes, 5 second Bronstein delay
+//   40/90+30, then 30+30   90 minutes for 40 moves, then 30 more for the rest
+//   hourglass 3            3 minutes each; time one side uses goes to the other
+//   3 days                 correspondence: 3 days for every move
+//
+// A final stage with a move count repeats, e.g. "40/120, then 20/60".
+
+export type BonusMode = 'increment' | 'simple-delay' | 'bronstein';
+
+export interface TimeControlStage {
+  moves?: number; // Moves to make in this stage; absent for the rest of the game
+  minutes: number; // Added to the clock when the stage starts
+  bonus: number; // Seconds, used as set by `mode`
+  mode: BonusMode;
+}
+
+export type TimeControl =
+  | { kind: 'stages'; stages: TimeControlStage[] }
+  | { kind: 'hourglass'; minutes: number }
+  | { kind: 'correspondence'; days: number }; // Days per move
+
+export const DEFAULT_TIME_CONTROL = '10+0';
+
+const BONUS_SYMBOLS: Record<BonusMode, string> = { increment: '+', 'simple-delay': 'd', bronstein: 'b' };
+const BONUS_MODES: Record<string, BonusMode> = { '+': 'increment', d: 'simple-delay', b: 'bronstein' };
+
+const NUMBER = '(\\d+(?:\\.\\d+)?)';
+const STAGE_PATTERN = new RegExp(`^(?:(\\d+)\\s*/\\s*)?${NUMBER}(?:\\s*([+db])\\s*${NUMBER})?$`);
+const HOURGLASS_PATTERN = new RegExp(`^hourglass\\s+${NUMBER}$`);
+const CORRESPONDENCE_PATTERN = /^(\d+)\s*days?(?:\s+per\s+move)?$/;
+
+export const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Parse a time control, or return null if it isn't valid
+export function parseTimeControl(text: string): TimeControl | null {
+  const clean = text.trim().toLowerCase();
+
+  const hourglass = HOURGLASS_PATTERN.exec(clean);
+  if (hourglass) {
+    const minutes = Number(hourglass[1]);
+    return minutes > 0 ? { kind: 'hourglass', minutes } : null;
+  }
+
+  const correspondence = CORRESPONDENCE_PATTERN.exec(clean);
+  if (correspondence) {
+    const days = Number(correspondence[1]);
+    return days > 0 ? { kind: 'correspondence', days } : null;
+  }
+
+  const stages: TimeControlStage[] = [];
+  for (const part of clean.split(/\s*[,;]\s*(?:then\s+)?/)) {
+    const match = STAGE_PATTERN.exec(part);
+    if (!match) return null;
+    const stage: TimeControlStage = {
+      minutes: Number(match[2]),
+      bonus: match[4] ? Number(match[4]) : 0,
+      mode: match[3] ? BONUS_MODES[match[3]] : 'increment',
+    };
+    if (match[1]) stage.moves = Number(match[1]);
+    stages.push(stage);
+  }
+
+  // Only the last stage may leave out its move count, and the game has to
+  // start with time on the clock
+  if (stages.slice(0, -1).some(stage => !stage.moves) || stages.some(stage => stage.moves === 0)) return null;
+  if (stages[0].minutes <= 0) return null;
+  return { kind: 'stages', stages };
+}
+
+// The time control of a room; unreadable ones fall back to the default
+export function getTimeControl(text: string | null | undefined): TimeControl {
+  return (text && parseTimeControl(text)) || parseTimeControl(DEFAULT_TIME_CONTROL)!;
+}
+
+export function formatTimeControl(timeControl: TimeControl): string {
+  if (timeControl.kind === 'hourglass') return `hourglass ${timeControl.minutes}`;
+  if (timeControl.kind === 'correspondence') return `${timeControl.days} ${timeControl.days === 1 ? 'day' : 'days'}`;
+  // A lone stage keeps a zero increment, as in "10+0"
+  const { stages } = timeControl;
+  return stages
+    .map(stage => {
+      const moves = stage.moves ? `${stage.moves}/` : '';
+      const bonus = stage.bonus || stages.length === 1 ? `${BONUS_SYMBOLS[stage.mode]}${stage.bonus}` : '';
+      return `${moves}${stage.minutes}${bonus}`;
+    })
+    .join(', then ');
+}
+
+// Seconds each side starts with
+export function initialTime(timeControl: TimeControl): number {
+  if (timeControl.kind === 'correspondence') return timeControl.days * SECONDS_PER_DAY;
+  const minutes = timeControl.kind === 'hourglass' ? timeControl.minutes : timeControl.stages[0].minutes;
+  return Math.round(minutes * 60);
+}
+
+// The stage a player's `moveNumber`th move (counting from 1) is made in. The
+// last stage repeats if it has a move count, otherwise it lasts the game.
+export function stageForMove(stages: TimeControlStage[], moveNumber: number): TimeControlStage {
+  let movesBefore = 0;
+  for (let i = 0; ; i++) {
+    const stage = stages[Math.min(i, stages.length - 1)];
+    if (!stage.moves || moveNumber <= movesBefore + stage.moves) return stage;
+    movesBefore += stage.moves;
+  }
+}
+
+// Seconds added to a player's clock by their `moveNumber`th move, when it
+// completes a stage
+export function stageTimeAfterMove(stages: TimeControlStage[], moveNumber: number): number {
+  let movesBefore = 0;
+  for (let i = 0; movesBefore < moveNumber; i++) {
+    const stage = stages[Math.min(i, stages.length - 1)];
+    if (!stage.moves) return 0;
+    movesBefore += stage.moves;
+  }
+  return movesBefore === moveNumber ? Math.round(stageForMove(stages, moveNumber + 1).minutes * 60) : 0;
+}
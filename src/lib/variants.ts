@@ -0,0 +1,80 @@
+// Rule sets for the supported variants. The move generator and game logic
+// read these flags rather than assuming standard chess, so a new variant is
+// mostly a new entry here (plus any new piece movement in movegen.ts).
+
+import type { PieceType } from '@/lib/chess';
+
+export type VariantId = 'standard' | 'chess960' | 'shatranj';
+
+export interface Variant {
+  id: VariantId;
+  name: string; // As used in the PGN Variant tag
+  startingFen: string;
+  pieces: PieceType[]; // Piece types that may appear on the board
+  promotionPieces: PieceType[]; // The first is used when none is chosen
+  pawnDoubleStep: boolean; // Pawns may advance two squares (and be taken en passant)
+  castling: boolean;
+  // Chess960 castling: the king and rooks may start on any file, and castling
+  // is entered as the king moving onto its own rook
+  chess960Castling: boolean;
+  stalemateLoses: boolean; // Stalemate is a win for the side giving it instead of a draw
+  bareKingLoses: boolean; // Losing all pieces but the king loses the game
+  insufficientMaterialDraws: boolean;
+}
+
+export const VARIANTS: Record<VariantId, Variant> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard',
+    startingFen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    pieces: ['king', 'queen', 'rook', 'bishop', 'knight', 'pawn'],
+    promotionPieces: ['queen', 'rook', 'bishop', 'knight'],
+    pawnDoubleStep: true,
+    castling: true,
+    chess960Castling: false,
+    stalemateLoses: false,
+    bareKingLoses: false,
+    insufficientMaterialDraws: true,
+  },
+  // Chess960 (Fischer Random): standard rules from one of 960 shuffled back
+  // ranks, which the game stores as its initial FEN. The starting FEN here is
+  // position 518, the standard setup.
+  chess960: {
+    id: 'chess960',
+    name: 'Chess960',
+    startingFen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+    pieces: ['king', 'queen', 'rook', 'bishop', 'knight', 'pawn'],
+    promotionPieces: ['queen', 'rook', 'bishop', 'knight'],
+    pawnDoubleStep: true,
+    castling: true,
+    chess960Castling: true,
+    stalemateLoses: false,
+    bareKingLoses: false,
+    insufficientMaterialDraws: true,
+  },
+  // Shatranj, the medieval Arabic game: the ferz moves one square diagonally,
+  // the alfil jumps exactly two squares diagonally, pawns only step once and
+  // promote to a ferz, and there is no castling
+  shatranj: {
+    id: 'shatranj',
+    name: 'Shatranj',
+    startingFen: 'rnakfanr/pppppppp/8/8/8/8/PPPPPPPP/RNAFKANR w - - 0 1',
+    pieces: ['king', 'ferz', 'rook', 'alfil', 'knight', 'pawn'],
+    promotionPieces: ['ferz'],
+    pawnDoubleStep: false,
+    castling: false,
+    chess960Castling: false,
+    stalemateLoses: true,
+    bareKingLoses: true,
+    insufficientMaterialDraws: false,
+  },
+};
+
+export function getVariant(id?: string | null): Variant {
+  return VARIANTS[id as VariantId] ?? VARIANTS.standard;
+}
+
+// Look a variant up by its PGN Variant tag, ignoring case
+export function findVariantByName(name: string): Variant | undefined {
+  return Object.values(VARIANTS).find(variant => variant.name.toLowerCase() === name.trim().toLowerCase());
+}
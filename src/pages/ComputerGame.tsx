@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Settings, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import ChessBoard from '@/components/chess/ChessBoard';
+import GameStatus from '@/components/chess/GameStatus';
+import {
+  CHESS960_POSITION_COUNT,
+  GameState,
+  PieceColor,
+  PieceType,
+  Position,
+  chess960Fen,
+  claimDraw,
+  createInitialGameState,
+  endGame,
+  getClaimableDraw,
+  makeMove,
+  randomChess960Position,
+  toFen,
+  winResult,
+} from '@/lib/chess';
+import { getEngineLevel } from '@/lib/engine/computer';
+import { VariantId, getVariant } from '@/lib/variants';
+import { useEngine } from '@/hooks/useEngine';
+
+// The variant and Chess960 start position chosen when creating the game
+function startFromParams(params: URLSearchParams): { variant: VariantId; fen?: string } {
+  const variant = getVariant(params.get('variant')).id;
+  if (variant !== 'chess960') return { variant };
+  const position = Number(params.get('position') ?? NaN);
+  const valid = Number.isInteger(position) && position >= 0 && position < CHESS960_POSITION_COUNT;
+  return { variant, fen: chess960Fen(valid ? position : randomChess960Position()) };
+}
+
+function createComputerGame(start: { variant: VariantId; fen?: string }): GameState {
+  return { ...createInitialGameState('10+0', start.fen, start.variant), status: 'playing' };
+}
+
+const ComputerGame: React.FC = () => {
+  const { t, dir } = useLanguage();
+  const [searchParams] = useSearchParams();
+  const level = getEngineLevel(Number(searchParams.get('level')));
+  const playerColor: PieceColor = searchParams.get('color') === 'black' ? 'black' : 'white';
+  const [playerName] = useState(() => sessionStorage.getItem('chess-player-name') || 'Player');
+
+  const [start] = useState(() => startFromParams(searchParams));
+
+  const [gameState, setGameState] = useState<GameState>(() => createComputerGame(start));
+
+  const isComputerTurn = gameState.status === 'playing' && gameState.turn !== playerColor;
+  const { bestMove, searching: thinking, newGame } = useEngine(gameState, {
+    enabled: isComputerTurn,
+    limits: { depth: level.depth, timeMs: level.timeMs, noise: level.noise },
+  });
+
+  // Play the computer's move once the engine has finished with this position
+  useEffect(() => {
+    if (!isComputerTurn || !bestMove || bestMove.fen !== toFen(gameState)) return;
+    const next = makeMove(gameState, bestMove.move.from, bestMove.move.to, bestMove.move.promotion);
+    if (next) setGameState(next);
+  }, [bestMove, gameState, isComputerTurn]);
+
+  const handleMove = (from: Position, to: Position, promotion?: PieceType) => {
+    if (isComputerTurn) return;
+    const next = makeMove(gameState, from, to, promotion);
+    if (next) setGameState(next);
+  };
+
+  const handleResign = () => {
+    setGameState(prev => endGame(prev, winResult(playerColor === 'white' ? 'black' : 'white'), 'resignation'));
+  };
+
+  const handleClaimDraw = () => {
+    const next = claimDraw(gameState);
+    if (next) setGameState(next);
+  };
+
+  const handleNewGame = () => {
+    newGame();
+    setGameState(createComputerGame(start));
+  };
+
+  const opponentName = `${t('computer')} (${t(`engineLevel${level.id}`)})`;
+
+  const renderStatus = () => (
+    <>
+      <GameStatus
+        gameState={gameState}
+        playerColor={playerColor}
+        playerName={playerName}
+        opponentName={opponentName}
+        onResign={handleResign}
+        onClaimDraw={handleClaimDraw}
+        claimableDraw={gameState.status === 'playing' ? getClaimableDraw(gameState) : null}
+        showClocks={false}
+      />
+      {thinking && (
+        <p className="flex items-center justify-center gap-2 mt-4 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {t('computerThinking')}
+        </p>
+      )}
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-background geometric-pattern" dir={dir}>
+      {/* Header */}
+      <header className="fixed top-0 left-0 right-0 z-40 bg-background/80 backdrop-blur-md border-b border-border">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <Link to="/">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {t('leaveGame')}
+            </Button>
+          </Link>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleNewGame}
+              title={t('newGame')}
+            >
+              <RotateCcw className="w-5 h-5" />
+            </Button>
+            <Link to="/settings">
+              <Button variant="ghost" size="icon">
+                <Settings className="w-5 h-5" />
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="pt-20 pb-8 px-4">
+        <div className="container mx-auto max-w-5xl">
+          <div className="grid lg:grid-cols-[1fr,320px] gap-6 items-start">
+            {/* Chess Board */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="w-full max-w-[500px] mx-auto lg:max-w-none"
+            >
+              <ChessBoard
+                board={gameState.board}
+                turn={gameState.turn}
+                playerColor={playerColor}
+                lastMove={gameState.lastMove}
+                enPassantTarget={gameState.enPassantTarget}
+                castlingRights={gameState.castlingRights}
+                onMove={handleMove}
+                disabled={isComputerTurn || gameState.status !== 'playing'}
+                flipped={playerColor === 'black'}
+              />
+
+              {/* Mobile status below board */}
+              <div className="lg:hidden mt-6">
+                {renderStatus()}
+              </div>
+            </motion.div>
+
+            {/* Game Status - Desktop */}
+            <div className="hidden lg:block sticky top-24">
+              {renderStatus()}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ComputerGame;
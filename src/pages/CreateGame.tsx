@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft, Clock, Users, Copy, Check, Loader2 } from 'lucide-react';
+import { ArrowLeft, Clock, Users, Copy, Check, Loader2, Cpu, Swords, Shuffle, Undo2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -10,7 +10,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { supabase } from '@/integration-supabase/client';
-import { createInitialGameState } from '@/lib/chess';
+import { CHESS960_POSITION_COUNT, randomChess960Position } from '@/lib/chess';
+import { ENGINE_LEVELS } from '@/lib/engine/computer';
+import { RoomSettings } from '@/lib/roomActions';
+import { newPlayerId, saveSeat } from '@/lib/seats';
+import { TimeControl, formatTimeControl, getTimeControl, parseTimeControl } from '@/lib/timeControl';
+import { VARIANTS, VariantId } from '@/lib/variants';
+import TimeControlBuilder from '@/components/chess/TimeControlBuilder';
 import { toast } from 'sonner';
 
 const TIME_CONTROLS = [
@@ -23,16 +29,13 @@ const TIME_CONTROLS = [
   { value: '10+5', label: '10+5 (Rapid)' },
   { value: '15+10', label: '15+10 (Rapid)' },
   { value: '30+0', label: '30 min (Classical)' },
+  { value: '1 day', label: '1 day per move (Correspondence)' },
+  { value: '3 days', label: '3 days per move (Correspondence)' },
+  { value: '7 days', label: '7 days per move (Correspondence)' },
 ];
 
-function generateRoomCode(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
-  let code = '';
-  for (let i = 0; i < 6; i++) {
-    code += chars[Math.floor(Math.random() * chars.length)];
-  }
-  return code;
-}
+// Select value for building a time control that isn't in the list
+const CUSTOM_TIME_CONTROL = 'custom';
 
 const CreateGame: React.FC = () => {
   const { t, dir } = useLanguage();
@@ -40,7 +43,14 @@ const CreateGame: React.FC = () => {
   
   const [playerName, setPlayerName] = useState('');
   const [timeControl, setTimeControl] = useState('10+0');
+  const [customTimeControl, setCustomTimeControl] = useState<TimeControl>(() => getTimeControl('40/90+30, then 30+30'));
+  const [variant, setVariant] = useState<VariantId>('standard');
+  const [startPosition, setStartPosition] = useState(''); // Chess960 position number, empty for random
   const [allowSpectators, setAllowSpectators] = useState(true);
+  const [allowTakebacks, setAllowTakebacks] = useState(true);
+  const [vsComputer, setVsComputer] = useState(false);
+  const [computerLevel, setComputerLevel] = useState('3');
+  const [colorChoice, setColorChoice] = useState<'white' | 'black' | 'random'>('random');
   const [loading, setLoading] = useState(false);
   const [roomCodes, setRoomCodes] = useState<{ player: string; spectator: string } | null>(null);
   const [copiedCode, setCopiedCode] = useState<'player' | 'spectator' | null>(null);
@@ -51,27 +61,49 @@ const CreateGame: React.FC = () => {
       return;
     }
 
+    let chess960Position: number | null = null;
+    if (variant === 'chess960') {
+      chess960Position = startPosition.trim() ? Number(startPosition) : randomChess960Position();
+      if (!Number.isInteger(chess960Position) || chess960Position < 0 || chess960Position >= CHESS960_POSITION_COUNT) {
+        toast.error(t('invalidStartPosition'));
+        return;
+      }
+    }
+
+    // Games against the computer are played locally, no room needed
+    if (vsComputer) {
+      const color = colorChoice === 'random' ? (Math.random() < 0.5 ? 'white' : 'black') : colorChoice;
+      const params = new URLSearchParams({ level: computerLevel, color, variant });
+      if (chess960Position !== null) params.set('position', String(chess960Position));
+      sessionStorage.setItem('chess-player-name', playerName.trim());
+      navigate(`/computer?${params}`);
+      return;
+    }
+
+    const selectedTimeControl = timeControl === CUSTOM_TIME_CONTROL ? formatTimeControl(customTimeControl) : timeControl;
+    if (!parseTimeControl(selectedTimeControl)) {
+      toast.error(t('invalidTimeControl'));
+      return;
+    }
+
     setLoading(true);
     try {
-      const playerCode = generateRoomCode();
-      const spectatorCode = generateRoomCode();
-      const gameState = createInitialGameState(timeControl);
-
-      const { data, error } = await supabase
-        .from('chess_rooms')
-        .insert({
-          player_code: playerCode,
-          spectator_code: spectatorCode,
-          time_control: timeControl,
-          allow_spectators: allowSpectators,
-          game_state: JSON.parse(JSON.stringify(gameState)),
-        })
-        .select()
-        .single();
-
+      // The game-action function sets the game up and seats us as White
+      const playerId = newPlayerId();
+      const settings: RoomSettings = {
+        timeControl: selectedTimeControl,
+        variant,
+        startPosition: chess960Position,
+        allowSpectators,
+        allowTakebacks,
+      };
+      const { data, error } = await supabase.functions.invoke('game-action', {
+        body: { playerId, action: { type: 'create', settings } },
+      });
       if (error) throw error;
+      saveSeat({ roomId: data.roomId, playerCode: data.playerCode, playerId, color: 'white' });
 
-      setRoomCodes({ player: playerCode, spectator: spectatorCode });
+      setRoomCodes({ player: data.playerCode, spectator: data.spectatorCode });
       
       // Store player name for the game
       sessionStorage.setItem('chess-player-name', playerName.trim());
@@ -136,6 +168,106 @@ const CreateGame: React.FC = () => {
                     />
                   </div>
 
+                  {/* Computer opponent */}
+                  <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
+                    <div className="flex items-center gap-2">
+                      <Cpu className="w-4 h-4 text-muted-foreground" />
+                      <Label htmlFor="computer">{t('playVsComputer')}</Label>
+                    </div>
+                    <Switch
+                      id="computer"
+                      checked={vsComputer}
+                      onCheckedChange={setVsComputer}
+                    />
+                  </div>
+
+                  {/* Variant */}
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <Swords className="w-4 h-4" />
+                      {t('variant')}
+                    </Label>
+                    <Select value={variant} onValueChange={(value) => setVariant(value as VariantId)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(VARIANTS).map((v) => (
+                          <SelectItem key={v.id} value={v.id}>
+                            {t(`variant.${v.id}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">{t(`variant.${variant}.description`)}</p>
+                  </div>
+
+                  {/* Chess960 start position */}
+                  {variant === 'chess960' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="startPosition" className="flex items-center gap-2">
+                        <Shuffle className="w-4 h-4" />
+                        {t('startPosition')}
+                      </Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="startPosition"
+                          type="number"
+                          min={0}
+                          max={CHESS960_POSITION_COUNT - 1}
+                          placeholder={t('randomStartPosition')}
+                          value={startPosition}
+                          onChange={(e) => setStartPosition(e.target.value)}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setStartPosition(String(randomChess960Position()))}
+                          title={t('randomStartPosition')}
+                        >
+                          <Shuffle className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {vsComputer ? (
+                    <>
+                      {/* Computer Level */}
+                      <div className="space-y-2">
+                        <Label>{t('computerLevel')}</Label>
+                        <Select value={computerLevel} onValueChange={setComputerLevel}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ENGINE_LEVELS.map((level) => (
+                              <SelectItem key={level.id} value={String(level.id)}>
+                                {level.id}. {t(`engineLevel${level.id}`)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {/* Colour */}
+                      <div className="space-y-2">
+                        <Label>{t('playAs')}</Label>
+                        <Select value={colorChoice} onValueChange={(value) => setColorChoice(value as 'white' | 'black' | 'random')}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="white">{t('white')}</SelectItem>
+                            <SelectItem value="black">{t('black')}</SelectItem>
+                            <SelectItem value="random">{t('randomColor')}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </>
+                  ) : (
+                  <>
                   {/* Time Control */}
                   <div className="space-y-2">
                     <Label className="flex items-center gap-2">
@@ -152,8 +284,12 @@ const CreateGame: React.FC = () => {
                             {tc.label}
                           </SelectItem>
                         ))}
+                        <SelectItem value={CUSTOM_TIME_CONTROL}>{t('customTimeControl')}</SelectItem>
                       </SelectContent>
                     </Select>
+                    {timeControl === CUSTOM_TIME_CONTROL && (
+                      <TimeControlBuilder value={customTimeControl} onChange={setCustomTimeControl} />
+                    )}
                   </div>
 
                   {/* Spectators */}
@@ -169,6 +305,21 @@ const CreateGame: React.FC = () => {
                     />
                   </div>
 
+                  {/* Takebacks */}
+                  <div className="flex items-center justify-between p-4 rounded-lg bg-muted/50">
+                    <div className="flex items-center gap-2">
+                      <Undo2 className="w-4 h-4 text-muted-foreground" />
+                      <Label htmlFor="takebacks">{t('allowTakebacks')}</Label>
+                    </div>
+                    <Switch
+                      id="takebacks"
+                      checked={allowTakebacks}
+                      onCheckedChange={setAllowTakebacks}
+                    />
+                  </div>
+                  </>
+                  )}
+
                   {/* Create Button */}
                   <Button
                     onClick={handleCreate}
@@ -179,7 +330,7 @@ const CreateGame: React.FC = () => {
                     {loading ? (
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                     ) : null}
-                    {t('createRoom')}
+                    {vsComputer ? t('startGame') : t('createRoom')}
                   </Button>
                 </>
               ) : (
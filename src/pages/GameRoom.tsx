@@ -1,19 +1,25 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { useParams, Link } from 'react-router-dom';
-import { ArrowLeft, Settings, MessageCircle, Loader2 } from 'lucide-react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Settings, MessageCircle, Loader2, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useGameRoom } from '@/hooks/useGameRoom';
 import { useGameTimer } from '@/hooks/useGameTimer';
+import { usePremoves } from '@/hooks/usePremoves';
 import ChessBoard from '@/components/chess/ChessBoard';
 import GameStatus from '@/components/chess/GameStatus';
 import GameChat from '@/components/chess/GameChat';
+import SpectatorList from '@/components/chess/SpectatorList';
+import ConditionalMovesPanel from '@/components/chess/ConditionalMovesPanel';
 import { Position, PieceType } from '@/lib/chess';
+import { exportPgn } from '@/lib/pgn';
+import { DEFAULT_TIME_CONTROL, getTimeControl } from '@/lib/timeControl';
 
 const GameRoom: React.FC = () => {
   const { roomCode } = useParams<{ roomCode: string }>();
   const { t, dir } = useLanguage();
+  const navigate = useNavigate();
   const [playerName] = useState(() => sessionStorage.getItem('chess-player-name') || 'Player');
   const [chatOpen, setChatOpen] = useState(false);
 
@@ -28,27 +34,55 @@ const GameRoom: React.FC = () => {
     makeMove,
     sendMessage,
     opponentJoined,
+    serverNow,
     handleTimeout,
     handleResign,
     handleOfferDraw,
     handleAcceptDraw,
     handleDeclineDraw,
+    handleClaimDraw,
+    loadConditionalMoves,
+    saveConditionalMoves,
+    handleOfferTakeback,
+    handleAcceptTakeback,
+    handleDeclineTakeback,
+    handleAbort,
+    handleClaimAbandonment,
+    handleOfferRematch,
+    handleAcceptRematch,
+    handleDeclineRematch,
+    rematchCode,
+    presence,
     drawOffer,
+    takebackOffer,
+    canOfferTakeback,
+    rematchOffer,
+    canOfferRematch,
+    canAbort,
+    canClaimAbandonment,
+    claimableDraw,
   } = useGameRoom({
     roomCode: roomCode || '',
     playerName,
     isSpectator: false,
   });
 
-  // Use timer hook
-  const { whiteTime, blackTime, addIncrement } = useGameTimer({
-    roomId: room?.id || null,
+  // Use timer hook; only players report a flag fall
+  const { whiteTime, blackTime, moveDeadline, abortIn } = useGameTimer({
     gameState,
-    playerColor,
-    timeControl: room?.timeControl || '10+0',
-    onTimeout: handleTimeout,
+    timeControl: room?.timeControl ?? DEFAULT_TIME_CONTROL,
+    serverNow,
+    onTimeout: playerColor ? handleTimeout : undefined,
   });
 
+  // Moves queued on the opponent's turn are played as soon as it ends
+  const { premoves, queuePremove, clearPremoves } = usePremoves({ gameState, playerColor, onMove: makeMove });
+
+  // Players and spectators alike follow an accepted rematch to its room
+  useEffect(() => {
+    if (rematchCode) navigate(`/game/${rematchCode}`);
+  }, [rematchCode, navigate]);
+
   // Handle window resize for chat visibility
   const [isDesktop, setIsDesktop] = useState(window.innerWidth >= 1024);
 
@@ -61,16 +95,32 @@ const GameRoom: React.FC = () => {
   }, []);
 
   const handleMove = async (from: Position, to: Position, promotion?: PieceType) => {
-    const success = await makeMove(from, to, promotion);
-    if (success && playerColor) {
-      addIncrement(playerColor);
-    }
+    await makeMove(from, to, promotion);
   };
 
   const handleSendMessage = async (message: string) => {
     await sendMessage(message);
   };
 
+  const handleDownloadPgn = () => {
+    if (!room || !gameState) return;
+
+    const pgn = exportPgn(gameState, {
+      site: window.location.origin,
+      date: new Date(),
+      white: playerColor === 'white' ? playerName : 'White',
+      black: playerColor === 'black' ? playerName : 'Black',
+      timeControl: room.timeControl,
+      roomCode: room.playerCode,
+    });
+    const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `halal-chess-${room.playerCode}.pgn`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center" dir={dir}>
@@ -112,11 +162,38 @@ const GameRoom: React.FC = () => {
             </Button>
           </Link>
           <div className="flex items-center gap-2">
+            {room.variant !== 'standard' && (
+              <span
+                className="text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground"
+                title={room.startPosition !== null ? t('chess960Position') : undefined}
+              >
+                {t(`variant.${room.variant}`)}
+                {room.startPosition !== null && ` #${room.startPosition}`}
+              </span>
+            )}
             {isSpectator && (
               <span className="text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground">
                 {t('spectator')}
               </span>
             )}
+            {room.allowSpectators && <SpectatorList spectators={presence.spectators} />}
+            {playerColor && gameState.status !== 'over' && getTimeControl(room.timeControl).kind === 'correspondence' && (
+              <ConditionalMovesPanel
+                gameState={gameState}
+                playerColor={playerColor}
+                onLoad={loadConditionalMoves}
+                onSave={saveConditionalMoves}
+              />
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDownloadPgn}
+              disabled={gameState.moves.length === 0}
+              title={t('downloadPgn')}
+            >
+              <Download className="w-5 h-5" />
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -150,7 +227,12 @@ const GameRoom: React.FC = () => {
                 playerColor={playerColor}
                 lastMove={gameState.lastMove}
                 enPassantTarget={gameState.enPassantTarget}
+                castlingRights={gameState.castlingRights}
+                variant={room.variant}
                 onMove={handleMove}
+                premoves={premoves}
+                onPremove={queuePremove}
+                onClearPremoves={clearPremoves}
                 disabled={isSpectator || !opponentJoined || gameState.status !== 'playing' && gameState.status !== 'waiting'}
                 flipped={playerColor === 'black'}
               />
@@ -168,7 +250,23 @@ const GameRoom: React.FC = () => {
                   onOfferDraw={handleOfferDraw}
                   onAcceptDraw={handleAcceptDraw}
                   onDeclineDraw={handleDeclineDraw}
+                  onClaimDraw={handleClaimDraw}
+                  onOfferTakeback={canOfferTakeback ? handleOfferTakeback : undefined}
+                  onAcceptTakeback={handleAcceptTakeback}
+                  onDeclineTakeback={handleDeclineTakeback}
                   drawOffer={drawOffer}
+                  takebackOffer={takebackOffer}
+                  onOfferRematch={canOfferRematch ? handleOfferRematch : undefined}
+                  onAcceptRematch={handleAcceptRematch}
+                  onDeclineRematch={handleDeclineRematch}
+                  rematchOffer={rematchOffer}
+                  matchScore={room.matchScore}
+                  onAbort={canAbort ? handleAbort : undefined}
+                  onClaimAbandonment={canClaimAbandonment ? handleClaimAbandonment : undefined}
+                  abortIn={abortIn}
+                  connected={presence}
+                  claimableDraw={claimableDraw}
+                  moveDeadline={moveDeadline}
                 />
               </div>
             </motion.div>
@@ -186,7 +284,23 @@ const GameRoom: React.FC = () => {
                 onOfferDraw={handleOfferDraw}
                 onAcceptDraw={handleAcceptDraw}
                 onDeclineDraw={handleDeclineDraw}
+                onClaimDraw={handleClaimDraw}
+                onOfferTakeback={canOfferTakeback ? handleOfferTakeback : undefined}
+                onAcceptTakeback={handleAcceptTakeback}
+                onDeclineTakeback={handleDeclineTakeback}
                 drawOffer={drawOffer}
+                takebackOffer={takebackOffer}
+                onOfferRematch={canOfferRematch ? handleOfferRematch : undefined}
+                onAcceptRematch={handleAcceptRematch}
+                onDeclineRematch={handleDeclineRematch}
+                rematchOffer={rematchOffer}
+                matchScore={room.matchScore}
+                onAbort={canAbort ? handleAbort : undefined}
+                onClaimAbandonment={canClaimAbandonment ? handleClaimAbandonment : undefined}
+                abortIn={abortIn}
+                connected={presence}
+                claimableDraw={claimableDraw}
+                moveDeadline={moveDeadline}
               />
             </div>
 
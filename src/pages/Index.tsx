@@ -29,6 +29,7 @@ import {
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { ChessPiece } from '@/components/chess/ChessPieces';
+import ResumeGames from '@/components/chess/ResumeGames';
 
 const Index: React.FC = () => {
   const { t, dir } = useLanguage();
@@ -193,6 +194,9 @@ const { mode, toggleMode } = useTheme();
             </div>
           </motion.section>
 
+          {/* Games this browser has a seat in */}
+          <ResumeGames />
+
           {/* Features */}
           <motion.section className="grid md:grid-cols-3 gap-6">
             {features.map((f, i) => {
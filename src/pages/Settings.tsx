@@ -1,13 +1,14 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Sun, Moon, Globe, Palette, Check } from 'lucide-react';
+import { ArrowLeft, Sun, Moon, Globe, Palette, Check, Gauge } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useLanguage, Language } from '@/contexts/LanguageContext';
 import { useTheme, ColorTheme } from '@/contexts/ThemeContext';
+import { AnimationSpeed } from '@/lib/boardAnimation';
 import { cn } from '@/lib/utils';
 
 const THEMES: { id: ColorTheme; name: { en: string; ar: string }; color: string }[] = [
@@ -17,6 +18,8 @@ const THEMES: { id: ColorTheme; name: { en: string; ar: string }; color: string
   { id: 'amber', name: { en: 'Amber', ar: 'عنبري' }, color: 'bg-amber-500' },
 ];
 
+const ANIMATION_SPEEDS: AnimationSpeed[] = ['off', 'fast', 'normal', 'slow'];
+
 const LANGUAGES: { id: Language; name: string; nativeName: string }[] = [
   { id: 'en', name: 'English', nativeName: 'English' },
   { id: 'ar', name: 'Arabic', nativeName: 'العربية' },
@@ -24,7 +27,7 @@ const LANGUAGES: { id: Language; name: string; nativeName: string }[] = [
 
 const SettingsPage: React.FC = () => {
   const { t, language, setLanguage, dir } = useLanguage();
-  const { colorTheme, mode, setColorTheme, toggleMode } = useTheme();
+  const { colorTheme, mode, setColorTheme, toggleMode, animationSpeed, setAnimationSpeed } = useTheme();
 
   return (
     <div className="min-h-screen bg-background geometric-pattern" dir={dir}>
@@ -106,6 +109,35 @@ const SettingsPage: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* Board */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="w-5 h-5" />
+                {t('board')}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Label>{t('animationSpeed')}</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {ANIMATION_SPEEDS.map((speed) => (
+                  <button
+                    key={speed}
+                    onClick={() => setAnimationSpeed(speed)}
+                    className={cn(
+                      'p-2 rounded-lg border-2 text-sm font-medium transition-all',
+                      animationSpeed === speed
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:border-primary/50'
+                    )}
+                  >
+                    {t(`animationSpeed.${speed}`)}
+                  </button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Language */}
           <Card>
             <CardHeader>
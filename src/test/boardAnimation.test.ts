@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { createInitialGameState, makeMove, parseFen, squareToPosition as sq } from "@/lib/chess";
+import { getBoardChanges } from "@/lib/boardAnimation";
+
+function play(fen: string, from: string, to: string) {
+  const before = createInitialGameState("10+0", fen);
+  const after = makeMove(before, sq(from), sq(to));
+  expect(after, `${from}-${to}`).not.toBeNull();
+  return getBoardChanges(before.board, after!.board);
+}
+
+describe("board animation", () => {
+  it("slides the king and the rook when castling", () => {
+    const changes = play("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1", "e1", "g1");
+    expect(changes.slides).toEqual(expect.arrayContaining([
+      { from: sq("e1"), to: sq("g1") },
+      { from: sq("h1"), to: sq("f1") },
+    ]));
+    expect(changes.captured).toEqual([]);
+  });
+
+  it("fades out a piece taken, en passant included", () => {
+    const capture = play("4k3/8/8/3p4/4P3/8/8/4K3 w - - 0 1", "e4", "d5");
+    expect(capture).toEqual({
+      slides: [{ from: sq("e4"), to: sq("d5") }],
+      captured: [{ at: sq("d5"), piece: { type: "pawn", color: "black" } }],
+    });
+    const enPassant = play("4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1", "e5", "d6");
+    expect(enPassant.captured).toEqual([{ at: sq("d5"), piece: { type: "pawn", color: "black" } }]);
+  });
+
+  it("slides a promoting pawn to its new piece", () => {
+    const changes = play("4k3/P7/8/8/8/8/8/4K3 w - - 0 1", "a7", "a8");
+    expect(changes.slides).toEqual([{ from: sq("a7"), to: sq("a8") }]);
+  });
+
+  it("doesn't animate a whole new position", () => {
+    const start = parseFen("rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1").board;
+    const ending = parseFen("4k3/8/8/8/8/8/8/4K3 w - - 0 1").board;
+    expect(getBoardChanges(start, ending)).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { GameState, createInitialGameState, getLegalMoves, makeMove, squareToPosition as sq, toFen } from "@/lib/chess";
+
+const CORNERS = "r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1";
+
+function play(fen: string, ...moves: string[]): GameState {
+  let state = createInitialGameState("10+0", fen);
+  for (const move of moves) {
+    const next = makeMove(state, sq(move.slice(0, 2)), sq(move.slice(2)));
+    expect(next, move).not.toBeNull();
+    state = next!;
+  }
+  return state;
+}
+
+const castlingField = (state: GameState) => toFen(state).split(" ")[2];
+
+describe("castling rights", () => {
+  it("are lost on both sides when the king moves, even back home", () => {
+    const state = play(CORNERS, "e1e2", "e8e7", "e2e1", "e7e8");
+    expect(castlingField(state)).toBe("-");
+    expect(getLegalMoves(state.board, sq("e1"), undefined, state.castlingRights)).not.toContainEqual(sq("g1"));
+  });
+
+  it("are lost on one side when that rook moves", () => {
+    expect(castlingField(play(CORNERS, "h1h2"))).toBe("Qkq");
+    expect(castlingField(play(CORNERS, "h1h2", "a8a7"))).toBe("Qk");
+  });
+
+  it("are lost when the rook is captured on its home square", () => {
+    const state = play("r3k2r/8/8/8/8/8/6b1/R3K2R b KQkq - 0 1", "g2h1");
+    expect(castlingField(state)).toBe("Qkq");
+    const recaptured = play("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1", "a1a8");
+    expect(castlingField(recaptured)).toBe("Kk");
+  });
+
+  it("are kept by the other rook and the other side", () => {
+    const state = play(CORNERS, "a1b1", "a8b8");
+    expect(state.castlingRights).toEqual({
+      white: { kingside: 7, queenside: null },
+      black: { kingside: 7, queenside: null },
+    });
+    const castled = play(toFen(state), "e1g1");
+    expect(castled.moves[0].castling).toBe("kingside");
+  });
+});
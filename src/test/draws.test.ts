@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  GameState,
+  claimDraw,
+  createInitialGameState,
+  getClaimableDraw,
+  hasInsufficientMaterial,
+  makeMove,
+  parseFen,
+  squareToPosition,
+} from "@/lib/chess";
+
+function play(state: GameState, ...moves: string[]) {
+  for (const move of moves) {
+    const next = makeMove(state, squareToPosition(move.slice(0, 2))!, squareToPosition(move.slice(2))!);
+    expect(next, move).not.toBeNull();
+    state = next!;
+  }
+  return state;
+}
+
+const started = (fen?: string) => ({ ...createInitialGameState("10+0", fen), status: "playing" as const });
+const shuffle = ["g1f3", "g8f6", "f3g1", "f6g8"];
+const board = (fen: string) => parseFen(`${fen} w - - 0 1`).board;
+
+describe("draws", () => {
+  it("lets the side to move claim a threefold repetition", () => {
+    const twice = play(started(), ...shuffle);
+    expect(getClaimableDraw(twice)).toBeNull();
+    const thrice = play(twice, ...shuffle);
+    expect(getClaimableDraw(thrice)).toBe("threefold-repetition");
+    expect(claimDraw(thrice)).toMatchObject({ status: "over", result: "1/2-1/2", termination: "threefold-repetition" });
+  });
+
+  it("ends the game on a fivefold repetition", () => {
+    const state = play(started(), ...shuffle, ...shuffle, ...shuffle, ...shuffle);
+    expect(state).toMatchObject({ status: "over", result: "1/2-1/2", termination: "fivefold-repetition" });
+  });
+
+  it("can be claimed after 50 moves and ends the game after 75", () => {
+    const fifty = play(started("4k3/8/8/8/8/8/8/R3K3 w - - 99 80"), "a1a2");
+    expect(fifty.status).toBe("playing");
+    expect(getClaimableDraw(fifty)).toBe("fifty-move-rule");
+
+    const seventyFive = play(started("4k3/8/8/8/8/8/8/R3K3 w - - 149 80"), "a1a2");
+    expect(seventyFive).toMatchObject({ status: "over", termination: "seventy-five-move-rule" });
+  });
+
+  it("has nothing to claim before the counts are reached", () => {
+    expect(claimDraw(play(started("4k3/8/8/8/8/8/8/R3K3 w - - 97 80"), "a1a2"))).toBeNull();
+  });
+
+  it("ends the game when neither side can mate", () => {
+    const state = play(started("4k3/8/8/8/8/8/4q3/4K3 w - - 0 1"), "e1e2");
+    expect(state).toMatchObject({ status: "over", result: "1/2-1/2", termination: "insufficient-material" });
+  });
+
+  it("knows which material can't mate", () => {
+    expect(hasInsufficientMaterial(board("4k3/8/8/8/8/8/8/4K3"))).toBe(true);
+    expect(hasInsufficientMaterial(board("4k3/8/8/8/8/8/8/2B1K3"))).toBe(true);
+    expect(hasInsufficientMaterial(board("4k3/8/8/8/8/8/8/1N2K3"))).toBe(true);
+    expect(hasInsufficientMaterial(board("4k3/8/8/8/8/8/8/R3K3"))).toBe(false);
+    expect(hasInsufficientMaterial(board("4k3/8/8/8/8/8/8/4K1NN"))).toBe(false);
+    expect(hasInsufficientMaterial(board("4k3/8/8/8/8/8/P7/4K3"))).toBe(false);
+  });
+
+  it("draws bishops on one colour only", () => {
+    // c1 and f8 are both dark squares; c1 and c8 are not
+    expect(hasInsufficientMaterial(board("4kb2/8/8/8/8/8/8/2B1K3"))).toBe(true);
+    expect(hasInsufficientMaterial(board("2b1k3/8/8/8/8/8/8/2B1K3"))).toBe(false);
+    expect(hasInsufficientMaterial(board("4k3/8/8/8/8/8/8/B1B1K3"))).toBe(true);
+  });
+
+  it("judges one side's material on its own", () => {
+    const minorEach = board("4k1n1/8/8/8/8/8/8/2B1K3");
+    expect(hasInsufficientMaterial(minorEach, "white")).toBe(true);
+    expect(hasInsufficientMaterial(minorEach)).toBe(false);
+    expect(hasInsufficientMaterial(board("4k3/8/8/8/8/8/8/1NB1K3"), "white")).toBe(false);
+  });
+});
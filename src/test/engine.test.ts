@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { GameState, STARTING_FEN, createInitialGameState, makeMove, positionToSquare } from "@/lib/chess";
+import { ENGINE_LEVELS, boardFromGameState, boardFromUciMoves, chooseMove, getEngineLevel } from "@/lib/engine/computer";
+import { MATE_SCORE, Searcher } from "@/lib/engine/search";
+import { createEngineHost } from "@/lib/engine/host";
+import { EngineResponse } from "@/lib/engine/protocol";
+import { allocateTime, createUciEngine } from "@/lib/engine/uci";
+import { VARIANTS } from "@/lib/variants";
+
+function bestMove(fen: string, depth: number): string {
+  const move = chooseMove(createInitialGameState("10+0", fen), { ...getEngineLevel(6), depth, timeMs: 10000 });
+  return move ? positionToSquare(move.from) + positionToSquare(move.to) : "";
+}
+
+describe("search", () => {
+  it("finds a back-rank mate", () => {
+    expect(bestMove("6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1", 3)).toBe("a1a8");
+  });
+
+  it("wins a hanging queen", () => {
+    expect(bestMove("rnb1kbnr/pppp1ppp/8/4p1q1/3P4/2N5/PPP1PPPP/R1BQKBNR w KQkq - 0 1", 3)).toBe("c1g5");
+  });
+
+  it("reports mate scores", () => {
+    const board = boardFromGameState(createInitialGameState("10+0", "6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1"));
+    const result = new Searcher().search(board, { depth: 3 });
+    expect(result.score).toBe(MATE_SCORE - 1);
+  });
+
+  it("stops at the node limit", () => {
+    const board = boardFromGameState(createInitialGameState());
+    const result = new Searcher().search(board, { nodes: 5000 });
+    expect(result.bestMove).not.toBe(0);
+    expect(result.nodes).toBeLessThan(5000 + 1024);
+  });
+
+  it("plays legal moves at every level", () => {
+    for (const level of ENGINE_LEVELS.slice(0, 3)) {
+      let state: GameState = { ...createInitialGameState(), status: "playing" };
+      for (let ply = 0; ply < 6; ply++) {
+        const move = chooseMove(state, level)!;
+        state = makeMove(state, move.from, move.to, move.promotion)!;
+        expect(state).not.toBeNull();
+      }
+    }
+  });
+});
+
+describe("engine host", () => {
+  function collect() {
+    const responses: EngineResponse[] = [];
+    const host = createEngineHost(response => responses.push(response));
+    return { host, responses };
+  }
+
+  it("streams info lines and finishes with a best move", async () => {
+    const { host, responses } = collect();
+    host.handle({ type: "position", fen: STARTING_FEN, moves: ["e2e4", "e7e5"] });
+    host.handle({ type: "go", id: 1, limits: { depth: 3 } });
+    await host.idle();
+
+    const infos = responses.filter(r => r.type === "info");
+    expect(infos.map(r => r.type === "info" && r.depth)).toEqual([1, 2, 3]);
+    expect(infos.every(r => r.type === "info" && r.pv.length > 0)).toBe(true);
+    const last = responses[responses.length - 1];
+    expect(last).toMatchObject({ type: "bestmove", id: 1 });
+  });
+
+  it("stops between iterations", async () => {
+    const { host, responses } = collect();
+    host.handle({ type: "go", id: 1, limits: {} });
+    host.handle({ type: "stop" });
+    await host.idle();
+    expect(responses.filter(r => r.type === "info").length).toBe(1);
+    expect(responses[responses.length - 1]).toMatchObject({ type: "bestmove", id: 1 });
+  });
+
+  it("plays positions in the variant they belong to", async () => {
+    const { host, responses } = collect();
+    // The alfil jumps over the pawn in front of it
+    host.handle({ type: "position", fen: VARIANTS.shatranj.startingFen, moves: ["c1e3"], variant: "shatranj" });
+    host.handle({ type: "go", id: 1, limits: { depth: 2 } });
+    // Chess960 castling is the king moving onto its own rook
+    const castled = ["g1f3", "g8f6", "e2e3", "e7e6", "f1e2", "f8e7", "e1h1"];
+    host.handle({ type: "position", fen: STARTING_FEN, moves: castled, variant: "chess960" });
+    host.handle({ type: "go", id: 2, limits: { depth: 2 } });
+    await host.idle();
+
+    expect(responses.filter(r => r.type === "error")).toEqual([]);
+    expect(responses.filter(r => r.type === "bestmove").map(r => r.type === "bestmove" && r.id)).toEqual([1, 2]);
+    expect(() => boardFromUciMoves(VARIANTS.shatranj.startingFen, ["c1e3"])).toThrow();
+  });
+
+  it("reports illegal moves in a position", () => {
+    const { host, responses } = collect();
+    host.handle({ type: "position", fen: STARTING_FEN, moves: ["e2e5"] });
+    expect(responses).toEqual([{ type: "error", message: expect.stringContaining("e2e5") }]);
+  });
+});
+
+describe("UCI adapter", () => {
+  it("answers the handshake and searches a position", async () => {
+    const output: string[] = [];
+    const engine = createUciEngine(line => output.push(line));
+    engine.receive("uci");
+    engine.receive("isready");
+    engine.receive("position fen 6k1/5ppp/8/8/8/8/8/R5K1 w - - 0 1 moves a1b1 g8h8");
+    engine.receive("go depth 3");
+    await engine.idle();
+
+    expect(output.slice(0, 4)).toEqual(["id name Halal Chess", "id author Halal Chess contributors", "uciok", "readyok"]);
+    expect(output[output.length - 2]).toMatch(/^info depth \d+ score mate 1 .* pv b1b8$/);
+    expect(output[output.length - 1]).toBe("bestmove b1b8");
+  });
+
+  it("answers a search that a later go supersedes", async () => {
+    const output: string[] = [];
+    const engine = createUciEngine(line => output.push(line));
+    engine.receive("position startpos");
+    engine.receive("go depth 40");
+    engine.receive("go depth 2");
+    await engine.idle();
+    expect(output.filter(line => line.startsWith("bestmove")).length).toBe(2);
+  });
+
+  it("stops mid-search when another thread clears the shared flag", async () => {
+    const output: string[] = [];
+    const stopFlag = new SharedArrayBuffer(4);
+    const engine = createUciEngine(line => output.push(line), stopFlag);
+    engine.receive("position startpos");
+    engine.receive("go depth 40");
+    expect(Atomics.load(new Int32Array(stopFlag), 0)).not.toBe(0);
+    Atomics.store(new Int32Array(stopFlag), 0, 0);
+    await engine.idle();
+    expect(output[output.length - 1]).toMatch(/^bestmove /);
+  });
+
+  it("budgets time from the clock of the side to move", () => {
+    expect(allocateTime(60000, 1000)).toBe(2800);
+    expect(allocateTime(100)).toBe(10);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { STARTING_FEN, createInitialGameState, makeMove, parseFen, squareToPosition as sq, toFen } from "@/lib/chess";
+
+describe("FEN", () => {
+  it("round-trips positions", () => {
+    const fens = [
+      STARTING_FEN,
+      "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1",
+      "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1",
+      "rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq c6 0 2",
+      "4k3/8/8/8/8/8/8/4K2R b K - 12 40",
+    ];
+    for (const fen of fens) {
+      expect(toFen(parseFen(fen))).toBe(fen);
+    }
+  });
+
+  it("fills in missing move counters", () => {
+    expect(toFen(parseFen("4k3/8/8/8/8/8/8/4K3 w - -"))).toBe("4k3/8/8/8/8/8/8/4K3 w - - 0 1");
+  });
+
+  it("reads the en passant square and castling rights", () => {
+    const position = parseFen("r3k2r/8/8/3pP3/8/8/8/R3K2R w Kq d6 0 1");
+    expect(position.enPassantTarget).toEqual(sq("d6"));
+    expect(position.castlingRights).toEqual({
+      white: { kingside: 7, queenside: null },
+      black: { kingside: null, queenside: 0 },
+    });
+  });
+
+  it("writes the en passant square after a double pawn push", () => {
+    const state = makeMove(createInitialGameState(), sq("e2"), sq("e4"))!;
+    expect(toFen(state)).toBe("rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1");
+  });
+
+  it("names the field that is wrong", () => {
+    const errors: [string, string][] = [
+      ["8/8/8/8/8/8/8/8", "expected 4 to 6 fields, got 1"],
+      ["4k3/8/8/8/8/8/4K3 w - - 0 1", "expected 8 ranks, got 7"],
+      ["4k3/8/8/8/8/8/8/4K4 w - - 0 1", "rank 1 describes 9 squares instead of 8"],
+      ["4k3/8/8/8/8/8/8/4X3 w - - 0 1", 'unknown piece "X" on rank 1'],
+      ["8/8/8/8/8/8/8/4K3 w - - 0 1", "expected exactly one black king, found 0"],
+      ["P3k3/8/8/8/8/8/8/4K3 w - - 0 1", "pawn on rank 8"],
+      ["4k3/8/8/8/8/8/8/4K3 x - - 0 1", 'side to move must be "w" or "b", got "x"'],
+      ["4k3/8/8/8/8/8/8/4K3 w X - 0 1", 'malformed castling field "X"'],
+      ["4k3/8/8/8/8/8/8/4K3 w K - 0 1", "white has castling rights but no rook on h1"],
+      ["4k3/8/8/8/8/8/8/3K3R w K - 0 1", "white has castling rights but the king is not on its home square"],
+      ["4k3/8/8/8/8/8/8/4K3 w - e6 0 1", 'en passant square "e6" does not follow a double pawn push'],
+      ["4k3/8/8/8/8/8/8/4K3 w - e4 0 1", 'invalid en passant square "e4"'],
+      ["4k3/8/8/8/8/8/8/4K3 w - - x 1", 'halfmove clock must be a non-negative integer, got "x"'],
+      ["4k3/8/8/8/8/8/8/4K3 w - - 0 0", 'fullmove number must be a positive integer, got "0"'],
+      ["4k3/8/8/8/8/8/4r3/4K3 b - - 0 1", "the side not to move is in check"],
+    ];
+    for (const [fen, reason] of errors) {
+      expect(() => parseFen(fen), fen).toThrow(`Invalid FEN "${fen}": ${reason}`);
+    }
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { Board88, kingDestination, moveFrom, squareOf } from "@/lib/movegen";
+import { STARTING_FEN, createInitialGameState, getLegalMoves, makeMove, parseFen } from "@/lib/chess";
+
+// Reference node counts from https://www.chessprogramming.org/Perft_Results
+const PERFT_POSITIONS: { name: string; fen: string; counts: number[] }[] = [
+  {
+    name: "start position",
+    fen: STARTING_FEN,
+    counts: [20, 400, 8902, 197281],
+  },
+  {
+    name: "Kiwipete",
+    fen: "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 1",
+    counts: [48, 2039, 97862],
+  },
+  {
+    name: "position 3",
+    fen: "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 1",
+    counts: [14, 191, 2812, 43238],
+  },
+  {
+    name: "position 4",
+    fen: "r3k2r/Pppp1ppp/1b3nbN/nP6/BBP1P3/q4N2/Pp1P2PP/R2Q1RK1 w kq - 0 1",
+    counts: [6, 264, 9467],
+  },
+  {
+    name: "position 4 mirrored",
+    fen: "r2q1rk1/pP1p2pp/Q4n2/bbp1p3/Np6/1B3NBn/pPPP1PPP/R3K2R b KQ - 0 1",
+    counts: [6, 264, 9467],
+  },
+  {
+    name: "position 5",
+    fen: "rnbq1k1r/pp1Pbppp/2p5/8/2B5/8/PPP1NnPP/RNBQK2R w KQ - 1 8",
+    counts: [44, 1486, 62379],
+  },
+  {
+    name: "position 6",
+    fen: "r4rk1/1pp1qppp/p1np1n2/2b1p1B1/2B1P1b1/P1NP1N2/1PP1QPPP/R4RK1 w - - 0 10",
+    counts: [46, 2079, 89890],
+  },
+];
+
+describe("perft", () => {
+  for (const { name, fen, counts } of PERFT_POSITIONS) {
+    describe(name, () => {
+      counts.forEach((expected, index) => {
+        it(`depth ${index + 1}: ${expected} nodes`, () => {
+          const board = Board88.fromPosition(parseFen(fen));
+          expect(board.perft(index + 1)).toBe(expected);
+        });
+      });
+    });
+  }
+
+  it("restores the position after make/unmake", () => {
+    const position = parseFen(PERFT_POSITIONS[1].fen);
+    const board = Board88.fromPosition(position);
+    const before = Array.from(board.squares);
+    board.perft(3);
+    expect(Array.from(board.squares)).toEqual(before);
+    expect(board.castling).toEqual([7, 0, 7, 0]);
+    expect(board.side).toBe(0);
+  });
+
+  it("updates the Zobrist hash incrementally", () => {
+    let state = createInitialGameState("10+0", PERFT_POSITIONS[1].fen);
+    const board = Board88.fromPosition(state);
+    const initialHash = [board.hashLo, board.hashHi];
+
+    // Castling, a capture and a double pawn push
+    const moves = [
+      [{ row: 7, col: 4 }, { row: 7, col: 6 }],
+      [{ row: 4, col: 1 }, { row: 5, col: 2 }],
+      [{ row: 6, col: 0 }, { row: 4, col: 0 }],
+    ];
+    for (const [from, to] of moves) {
+      const move = board.generateLegalMoves().find(m => moveFrom(m) === squareOf(from) && kingDestination(m) === squareOf(to))!;
+      board.makeMove(move);
+      state = makeMove(state, from, to)!;
+      const fresh = Board88.fromPosition(state);
+      expect([board.hashLo, board.hashHi]).toEqual([fresh.hashLo, fresh.hashHi]);
+    }
+
+    for (let i = 0; i < moves.length; i++) board.unmakeMove();
+    expect([board.hashLo, board.hashHi]).toEqual(initialHash);
+  });
+});
+
+describe("public move API", () => {
+  // Counts legal moves through getLegalMoves/makeMove, which expand promotions
+  // into a single square plus an explicit piece choice
+  function countMoves(fen: string, depth: number): number {
+    const walk = (state: ReturnType<typeof createInitialGameState>, remaining: number): number => {
+      let nodes = 0;
+      for (let row = 0; row < 8; row++) {
+        for (let col = 0; col < 8; col++) {
+          const piece = state.board[row][col];
+          if (piece?.color !== state.turn) continue;
+          const from = { row, col };
+          for (const to of getLegalMoves(state.board, from, state.enPassantTarget, state.castlingRights)) {
+            const promotions = piece.type === "pawn" && (to.row === 0 || to.row === 7)
+              ? (["queen", "rook", "bishop", "knight"] as const)
+              : [undefined];
+            for (const promotion of promotions) {
+              const next = makeMove(state, from, to, promotion);
+              expect(next).not.toBeNull();
+              nodes += remaining === 1 ? 1 : walk(next!, remaining - 1);
+            }
+          }
+        }
+      }
+      return nodes;
+    };
+    return walk(createInitialGameState("10+0", fen), depth);
+  }
+
+  it("matches perft through getLegalMoves and makeMove", () => {
+    expect(countMoves(PERFT_POSITIONS[1].fen, 2)).toBe(2039);
+    expect(countMoves(PERFT_POSITIONS[3].fen, 2)).toBe(264);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { createInitialGameState, endGame, makeMove, parseSan, squareToPosition } from "@/lib/chess";
+import { exportPgn, parsePgn } from "@/lib/pgn";
+
+function playSan(...sans: string[]) {
+  let state = createInitialGameState("5+3");
+  for (const san of sans) {
+    const move = parseSan(state, san);
+    state = makeMove(state, move!.from, move!.to, move!.promotion)!;
+  }
+  return state;
+}
+
+describe("PGN export", () => {
+  it("writes the seven tag roster, optional tags and numbered moves", () => {
+    const state = endGame(playSan("e4", "e5", "Nf3"), "1-0", "resignation");
+    const pgn = exportPgn(state, {
+      site: "https://example.com",
+      date: new Date(2024, 2, 5),
+      white: 'Ali "the Lion"',
+      black: "Bilal",
+      timeControl: "5+3",
+      roomCode: "ABC123",
+      tags: { Annotator: "Me" },
+    });
+    expect(pgn).toBe([
+      '[Event "Casual game"]',
+      '[Site "https://example.com"]',
+      '[Date "2024.03.05"]',
+      '[Round "-"]',
+      '[White "Ali \\"the Lion\\""]',
+      '[Black "Bilal"]',
+      '[Result "1-0"]',
+      '[TimeControl "300+3"]',
+      '[Termination "normal"]',
+      '[RoomCode "ABC123"]',
+      '[Annotator "Me"]',
+      "",
+      "1. e4 e5 2. Nf3 1-0",
+      "",
+    ].join("\n"));
+  });
+
+  it("starts from a set-up position with its move number", () => {
+    const start = createInitialGameState(undefined, "4k3/8/8/8/8/8/8/4K2R b K - 0 30");
+    const state = makeMove(start, squareToPosition("e8")!, squareToPosition("d8")!)!;
+    const pgn = exportPgn(state);
+    expect(pgn).toContain('[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/8/4K2R b K - 0 30"]');
+    expect(pgn).toContain("30... Kd8 *");
+  });
+});
+
+describe("PGN import", () => {
+  it("keeps comments, skips NAGs, glyphs and variations", () => {
+    const [game] = parsePgn(`[Event "Test"]
+
+{Opening} 1. e4 $1 e5!? (1... c5 2. Nf3 (2. c3) d6) 2. Nf3 {Develops} ; rest of line
+Nc6?! 1/2-1/2`);
+    expect(game.moves).toEqual(["e4", "e5", "Nf3", "Nc6"]);
+    expect(game.comments).toEqual({ 0: "Opening", 3: "Develops rest of line" });
+    expect(game.result).toBe("1/2-1/2");
+    expect(game.state).toMatchObject({ status: "over", result: "1/2-1/2" });
+  });
+
+  it("reads several games from one file", () => {
+    const games = parsePgn(`[White "A"]
+
+1. e4 e5 1-0
+
+[White "B"]
+
+1. d4 d5 2. c4 *
+
+[White "C"]
+1. f3 e5 2. g4 Qh4#`);
+    expect(games.map(game => game.tags.White)).toEqual(["A", "B", "C"]);
+    expect(games.map(game => game.moves.length)).toEqual([2, 3, 4]);
+    expect(games[1].state.status).not.toBe("over");
+    expect(games[2].state).toMatchObject({ result: "0-1", termination: "checkmate" });
+  });
+
+  it("round-trips an exported game", () => {
+    const state = playSan("d4", "Nf6", "c4", "e6", "Nc3", "Bb4");
+    const [game] = parsePgn(exportPgn(state, { white: "X", black: "Y" }));
+    expect(game.tags).toMatchObject({ White: "X", Black: "Y", Result: "*" });
+    expect(game.state.board).toEqual(state.board);
+  });
+
+  it("reports illegal moves and malformed input", () => {
+    expect(() => parsePgn("1. e4 e4")).toThrow('Invalid PGN in game 1: illegal or ambiguous move "e4" at ply 2');
+    expect(() => parsePgn("1. e4 {never closed")).toThrow("Invalid PGN: unterminated comment");
+    expect(() => parsePgn("1. e4 (1. d4")).toThrow("Invalid PGN: unterminated variation");
+    expect(() => parsePgn('[Variant "Crazyhouse"] 1. e4')).toThrow('unsupported variant "Crazyhouse"');
+  });
+});
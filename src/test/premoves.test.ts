@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { createInitialGameState, makeMove, positionToSquare, squareToPosition as sq } from "@/lib/chess";
+import {
+  MAX_CONDITIONAL_MOVES,
+  formatConditionalLines,
+  parseConditionalLines,
+  parseConditionalMoves,
+} from "@/lib/conditionalMoves";
+import { applyPremoves, getPremoveTargets, playablePremove } from "@/lib/premoves";
+
+describe("premoves", () => {
+  it("offers squares by how the piece moves, ignoring what is in the way", () => {
+    const { board, castlingRights } = createInitialGameState("1+0");
+    const bishop = getPremoveTargets(board, sq("f1"), castlingRights).map(positionToSquare);
+    expect(bishop.sort()).toEqual(["a6", "b5", "c4", "d3", "e2", "g2", "h3"]);
+    const pawn = getPremoveTargets(board, sq("e2"), castlingRights).map(positionToSquare);
+    expect(pawn.sort()).toEqual(["d3", "e3", "e4", "f3"]);
+    expect(getPremoveTargets(board, sq("e1"), castlingRights).map(positionToSquare)).toContain("g1");
+  });
+
+  it("shows queued premoves played, castling included", () => {
+    const { board } = createInitialGameState("1+0");
+    const next = applyPremoves(board, [{ from: sq("g1"), to: sq("f3") }, { from: sq("e1"), to: sq("g1") }]);
+    expect(next[7][6]).toMatchObject({ type: "king" });
+    expect(next[7][5]).toMatchObject({ type: "rook" });
+    expect(next[5][5]).toMatchObject({ type: "knight" });
+  });
+
+  it("plays the first premove only if it has become legal", () => {
+    const start = { ...createInitialGameState("1+0"), status: "playing" as const };
+    const afterE4 = makeMove(start, sq("e2"), sq("e4"))!;
+    const recapture = [{ from: sq("e4"), to: sq("d5") }];
+    expect(playablePremove(makeMove(afterE4, sq("d7"), sq("d5"))!, recapture)).toEqual(recapture[0]);
+    expect(playablePremove(makeMove(afterE4, sq("e7"), sq("e5"))!, recapture)).toBeNull();
+  });
+});
+
+describe("conditional moves", () => {
+  const afterE4 = makeMove(createInitialGameState("3 days"), sq("e2"), sq("e4"))!;
+
+  it("merges lines into a tree of replies", () => {
+    const tree = parseConditionalLines(afterE4, "1... e5 2. Nf3 Nc6 Bb5\ne5 Nf3 d6 d4\nc5 Nf3");
+    expect(tree).toEqual({
+      e7e5: { move: "g1f3", then: { b8c6: { move: "f1b5" }, d7d6: { move: "d2d4" } } },
+      c7c5: { move: "g1f3" },
+    });
+    expect(formatConditionalLines(afterE4, tree)).toEqual(["e5 Nf3 Nc6 Bb5", "e5 Nf3 d6 d4", "c5 Nf3"]);
+  });
+
+  it("rejects illegal, unanswered or contradicting lines", () => {
+    expect(() => parseConditionalLines(afterE4, "e5 Ke3")).toThrow("Line 1: Ke3 is not legal there");
+    expect(() => parseConditionalLines(afterE4, "e5")).toThrow("every expected move needs a reply");
+    expect(() => parseConditionalLines(afterE4, "e5 Nf3\ne5 Nc3")).toThrow("Line 2: e5 already has a different reply");
+  });
+
+  it("caps the number of branches in a tree, nested ones included", () => {
+    const squares = [..."abcdefgh"].flatMap(file => [..."12345678"].map(rank => file + rank));
+    const expected = squares.flatMap(from => [`${from}h7`, `${from}h8`]);
+    const flat = (count: number) => Object.fromEntries(expected.slice(0, count).map(uci => [uci, { move: "e7e5" }]));
+    expect(parseConditionalMoves(flat(MAX_CONDITIONAL_MOVES))).not.toBeNull();
+    expect(parseConditionalMoves(flat(MAX_CONDITIONAL_MOVES + 1))).toBeNull();
+
+    const nested = (count: number) => Object.fromEntries(
+      expected.slice(0, count).map(uci => [uci, { move: "e7e5", then: { g1f3: { move: "b8c6" } } }]),
+    );
+    expect(parseConditionalMoves(nested(MAX_CONDITIONAL_MOVES / 2))).not.toBeNull();
+    expect(parseConditionalMoves(nested(MAX_CONDITIONAL_MOVES / 2 + 1))).toBeNull();
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { opponentMissedSince, roomPresence } from "@/lib/presence";
+
+describe("room presence", () => {
+  it("shows players by colour and lists every spectator connection", () => {
+    const presence = roomPresence({
+      a: [{ color: "white", name: "Ali" }],
+      b: [{ color: null, name: "Sara" }, { color: null, name: "Sara" }],
+      c: [{ color: null, name: "Omar" }],
+    });
+    expect(presence).toEqual({ white: true, black: false, spectators: ["Sara", "Sara", "Omar"] });
+    expect(roomPresence({})).toEqual({ white: false, black: false, spectators: [] });
+  });
+
+  it("remembers when the opponent was first missed until they return", () => {
+    const alone = roomPresence({ a: [{ color: "white", name: "Ali" }] });
+    const both = roomPresence({ a: [{ color: "white", name: "Ali" }], b: [{ color: "black", name: "Bilal" }] });
+    expect(opponentMissedSince(alone, "white", null, 1_000)).toBe(1_000);
+    expect(opponentMissedSince(alone, "white", 1_000, 5_000)).toBe(1_000);
+    expect(opponentMissedSince(both, "white", 1_000, 5_000)).toBeNull();
+    expect(opponentMissedSince(alone, "black", null, 5_000)).toBeNull();
+  });
+});
@@ -0,0 +1,488 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integration-supabase/types";
+import { createInitialGameState } from "@/lib/chess";
+import { FIRST_MOVE_SECONDS } from "@/lib/clock";
+import { expireOverdueGames, handleGameAction, seatId } from "@/lib/gameActionHandler";
+import {
+  GameActionRequest,
+  RoomSetup,
+  RoomUpdate,
+  VersionedGameState,
+  parseGameState,
+  submitRoomAction,
+} from "@/lib/roomActions";
+
+type RoomRow = Database["public"]["Tables"]["chess_rooms"]["Row"];
+type MoveRow = Database["public"]["Tables"]["chess_moves"]["Insert"];
+type ConditionalRow = Database["public"]["Tables"]["chess_conditional_moves"]["Insert"];
+type HeartbeatRow = Database["public"]["Tables"]["chess_player_heartbeats"]["Insert"];
+type Broadcast = { topic: string; event: string; payload: RoomUpdate };
+
+// Just enough of the Supabase client for the game-action handler and
+// submitRoomAction, backed by an in-memory table. Every query yields to the
+// event loop first, so concurrent callers interleave like real requests.
+function createFakeSupabase(
+  rows: RoomRow[],
+  moves: MoveRow[] = [],
+  conditionals: ConditionalRow[] = [],
+  heartbeats: HeartbeatRow[] = [],
+  broadcasts: Broadcast[] = [],
+) {
+  const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  function query(update?: Partial<RoomRow>) {
+    const filters: ((row: RoomRow) => boolean)[] = [];
+    const run = async () => {
+      await tick();
+      const matches = rows.filter(row => filters.every(filter => filter(row)));
+      if (update) matches.forEach(row => Object.assign(row, JSON.parse(JSON.stringify(update))));
+      return { data: JSON.parse(JSON.stringify(matches)) as RoomRow[], error: null };
+    };
+    const builder = {
+      select: () => builder,
+      eq: (column: keyof RoomRow, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      is: (column: keyof RoomRow, value: unknown) => builder.eq(column, value),
+      lt: (column: keyof RoomRow, value: string) => {
+        filters.push(row => row[column] !== null && String(row[column]) < value);
+        return builder;
+      },
+      maybeSingle: async () => {
+        const { data, error } = await run();
+        return { data: data[0] ?? null, error };
+      },
+      then: (resolve: (value: unknown) => void, reject: (reason: unknown) => void) => run().then(resolve, reject),
+    };
+    return builder;
+  }
+
+  // Rows of a table keyed by room and colour matching every filter added so far
+  function seatQuery<Row extends { room_id: string; color: string }>(table: Row[], remove: boolean) {
+    const filters: ((row: Row) => boolean)[] = [];
+    const run = async () => {
+      await tick();
+      const matches = table.filter(row => filters.every(filter => filter(row)));
+      if (remove) table.splice(0, table.length, ...table.filter(row => !matches.includes(row)));
+      return { data: JSON.parse(JSON.stringify(matches)) as Row[], error: null };
+    };
+    const builder = {
+      eq: (column: keyof Row, value: unknown) => {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      maybeSingle: async () => {
+        const { data, error } = await run();
+        return { data: data[0] ?? null, error };
+      },
+      then: (resolve: (value: unknown) => void, reject: (reason: unknown) => void) => run().then(resolve, reject),
+    };
+    return builder;
+  }
+
+  // Reads, deletes and upserts of a table keyed by room and colour
+  function seatTable<Row extends { room_id: string; color: string }>(table: Row[]) {
+    return {
+      select: () => seatQuery(table, false),
+      delete: () => seatQuery(table, true),
+      upsert: async (row: Row) => {
+        await tick();
+        const kept = table.filter(r => r.room_id !== row.room_id || r.color !== row.color);
+        table.splice(0, table.length, ...kept, JSON.parse(JSON.stringify(row)));
+        return { error: null };
+      },
+    };
+  }
+
+  const db = {
+    from: (table: string) => table === "chess_conditional_moves"
+      ? seatTable(conditionals)
+      : table === "chess_player_heartbeats"
+      ? seatTable(heartbeats)
+      : table === "chess_moves"
+      ? {
+          insert: async (row: MoveRow | MoveRow[]) => {
+            await tick();
+            moves.push(...[row].flat());
+            return { error: null };
+          },
+          delete: () => ({
+            eq: () => ({
+              gt: async (_column: string, ply: number) => {
+                await tick();
+                moves.splice(0, moves.length, ...moves.filter(move => move.ply <= ply));
+                return { error: null };
+              },
+            }),
+          }),
+        }
+      : {
+          select: () => query(),
+          update: (values: Partial<RoomRow>) => query(values),
+          insert: (values: Partial<RoomRow>) => ({
+            select: () => ({
+              single: async () => {
+                await tick();
+                const inserted = { ...JSON.parse(JSON.stringify(values)), id: `room-${rows.length + 1}`, version: 0 };
+                rows.push(inserted);
+                return { data: inserted, error: null };
+              },
+            }),
+          }),
+          delete: () => ({
+            eq: async (_column: string, id: string) => {
+              await tick();
+              rows.splice(0, rows.length, ...rows.filter(row => row.id !== id));
+              return { error: null };
+            },
+          }),
+        },
+    channel: (topic: string) => ({
+      httpSend: async (event: string, payload: RoomUpdate) => {
+        await tick();
+        broadcasts.push({ topic, event, payload: JSON.parse(JSON.stringify(payload)) });
+        return { success: true };
+      },
+    }),
+    functions: {
+      invoke: async (_name: string, { body }: { body: unknown }) => {
+        const { status, body: response } = await handleGameAction(client, JSON.parse(JSON.stringify(body)));
+        if (status === 200) return { data: response, error: null };
+        const context = new Response(JSON.stringify(response), { status });
+        return { data: null, error: Object.assign(new Error("Edge Function returned a non-2xx status code"), { context }) };
+      },
+    },
+  };
+  const client = db as unknown as SupabaseClient<Database>;
+  return client;
+}
+
+const room: RoomSetup = { id: "room-1", timeControl: "5+0", variant: "standard", startPosition: null };
+const e2e4 = { type: "move" as const, from: { row: 6, col: 4 }, to: { row: 4, col: 4 } };
+const e7e5 = { type: "move" as const, from: { row: 1, col: 4 }, to: { row: 3, col: 4 } };
+
+describe("versioned room updates", () => {
+  let row: RoomRow;
+  let client: SupabaseClient<Database>;
+  let initial: VersionedGameState;
+  let moves: MoveRow[];
+  let rooms: RoomRow[];
+  let conditionals: ConditionalRow[];
+  let heartbeats: HeartbeatRow[];
+  let broadcasts: Broadcast[];
+
+  beforeEach(async () => {
+    const gameState = { ...createInitialGameState("5+0"), status: "playing" as const };
+    row = {
+      id: room.id,
+      player_code: "PLAYER",
+      spectator_code: "WATCH",
+      time_control: "5+0",
+      variant: "standard",
+      start_position: null,
+      allow_spectators: true,
+      allow_takebacks: true,
+      player_white_id: await seatId("white"),
+      player_black_id: await seatId("black"),
+      game_state: JSON.parse(JSON.stringify(gameState)),
+      version: 0,
+      move_deadline: null,
+      match_score: null,
+      rematch_room_id: null,
+      created_at: "",
+      updated_at: "",
+    };
+    moves = [];
+    rooms = [row];
+    conditionals = [];
+    heartbeats = [];
+    broadcasts = [];
+    client = createFakeSupabase(rooms, moves, conditionals, heartbeats, broadcasts);
+    initial = { gameState, version: 0 };
+  });
+
+  const stored = () => parseGameState(row.game_state, "5+0", "standard", null);
+
+  it("increments the version on every write", async () => {
+    const saved = await submitRoomAction(client, room, "white", "white", initial, e2e4);
+    expect(saved.version).toBe(1);
+    expect(row.version).toBe(1);
+    expect(stored().moves).toHaveLength(1);
+  });
+
+  it("broadcasts each change to the room without its moves", async () => {
+    await handleGameAction(client, { roomId: room.id, playerId: "white", action: e2e4, version: 0 }, 1000);
+    expect(broadcasts).toEqual([{
+      topic: `room-${room.id}`,
+      event: "room",
+      payload: {
+        version: 1,
+        ply: 1,
+        game: { status: "playing", whiteTime: 300, blackTime: 300, lastMoveAt: 1000 },
+        playerWhiteId: await seatId("white"),
+        playerBlackId: await seatId("black"),
+        rematchRoomId: null,
+      },
+    }]);
+  });
+
+  it("logs each move with its position and clock", async () => {
+    const saved = await submitRoomAction(client, room, "white", "white", initial, e2e4);
+    await submitRoomAction(client, room, "black", "black", saved, { type: "offer-draw" });
+    expect(moves).toEqual([
+      expect.objectContaining({
+        room_id: room.id,
+        ply: 1,
+        uci: "e2e4",
+        san: "e4",
+        fen_after: "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1",
+        clock_after: 300,
+      }),
+    ]);
+  });
+
+  it("logs a Shatranj promotion to a ferz", async () => {
+    const fen = "4k3/P7/8/8/8/8/8/4K3 w - - 0 1";
+    const gameState = { ...createInitialGameState("5+0", fen, "shatranj"), status: "playing" as const };
+    Object.assign(row, { variant: "shatranj", game_state: JSON.parse(JSON.stringify(gameState)) });
+    const shatranj = { ...room, variant: "shatranj" as const };
+    const a7a8 = { type: "move" as const, from: { row: 1, col: 0 }, to: { row: 0, col: 0 } };
+    await submitRoomAction(client, shatranj, "white", "white", { gameState, version: 0 }, a7a8);
+    expect(moves).toEqual([expect.objectContaining({ uci: "a7a8f", san: "a8=F" })]);
+  });
+
+  it("drops taken back moves from the log, unless takebacks are off", async () => {
+    const saved = await submitRoomAction(client, room, "white", "white", initial, e2e4);
+    const asked = await submitRoomAction(client, room, "white", "white", saved, { type: "offer-takeback" });
+    await submitRoomAction(client, room, "black", "black", asked, { type: "accept-takeback" });
+    expect(stored().moves).toHaveLength(0);
+    expect(moves).toHaveLength(0);
+
+    row.allow_takebacks = false;
+    const again = await handleGameAction(client, { roomId: room.id, playerId: "white", action: e2e4, version: 3 });
+    const refused = await handleGameAction(client, {
+      roomId: room.id, playerId: "white", action: { type: "offer-takeback" }, version: 4,
+    });
+    expect(again.status).toBe(200);
+    expect(refused).toMatchObject({ status: 400, body: { error: "Takebacks are not allowed in this room" } });
+  });
+
+  it("starts a rematch in a new room with the seats swapped and the score kept", async () => {
+    const resigned = await submitRoomAction(client, room, "black", "black", initial, { type: "resign" });
+    const offered = await submitRoomAction(client, room, "black", "black", resigned, { type: "offer-rematch" });
+    await handleGameAction(client, {
+      roomId: room.id, playerId: "white", action: { type: "accept-rematch" }, version: offered.version,
+    }, 1000);
+
+    const rematch = rooms.find(r => r.id === row.rematch_room_id);
+    expect(rematch).toMatchObject({
+      time_control: "5+0",
+      player_white_id: await seatId("black"),
+      player_black_id: await seatId("white"),
+      match_score: { white: 0, black: 1 },
+    });
+    expect(rematch.player_code).not.toBe(row.player_code);
+    // The seats are filled already, so White's first move is on the clock
+    expect(rematch.game_state).toMatchObject({ lastMoveAt: 1000 });
+    expect(rematch.move_deadline).toBe(new Date(1000 + FIRST_MOVE_SECONDS * 1000).toISOString());
+    const again = await handleGameAction(client, {
+      roomId: room.id, playerId: "black", action: { type: "offer-rematch" }, version: row.version,
+    });
+    expect(again).toMatchObject({ status: 400, body: { error: "The rematch has already started" } });
+  });
+
+  it("answers a move with the opponent's conditional reply and keeps the rest of the line", async () => {
+    row.time_control = "3 days";
+    const g1f3 = { type: "move" as const, from: { row: 7, col: 6 }, to: { row: 5, col: 5 } };
+    const setMoves = (playerId: string) => handleGameAction(client, {
+      roomId: room.id,
+      playerId,
+      action: { type: "set-conditional-moves", moves: { e2e4: { move: "e7e5", then: { g1f3: { move: "b8c6" } } } } },
+    });
+    expect(await setMoves("white")).toMatchObject({ status: 400, body: { error: "Conditional moves are set on your opponent's turn" } });
+    const tooMany = Object.fromEntries([..."abcdefgh"].flatMap(file =>
+      [..."12345678"].flatMap(rank => [`${file}${rank}h7`, `${file}${rank}h8`]),
+    ).map(uci => [uci, { move: "e7e5" }]));
+    const refused = await handleGameAction(client, {
+      roomId: room.id, playerId: "black", action: { type: "set-conditional-moves", moves: tooMany },
+    });
+    expect(refused).toMatchObject({ status: 400, body: { error: "Invalid conditional moves" } });
+    expect((await setMoves("black")).status).toBe(200);
+
+    await handleGameAction(client, { roomId: room.id, playerId: "white", action: e2e4, version: 0 });
+    expect(moves.map(move => move.san)).toEqual(["e4", "e5"]);
+    expect(stored().turn).toBe("white");
+
+    await handleGameAction(client, { roomId: room.id, playerId: "white", action: g1f3, version: 1 });
+    expect(moves.map(move => move.san)).toEqual(["e4", "e5", "Nf3", "Nc6"]);
+    expect(conditionals).toHaveLength(0);
+  });
+
+  it("creates a room from its settings with the creator seated as White", async () => {
+    const settings = { timeControl: "3+2", variant: "chess960" as const, startPosition: 518, allowSpectators: true, allowTakebacks: false };
+    const created = await handleGameAction(client, { playerId: "creator", action: { type: "create", settings } });
+    expect(created).toMatchObject({ status: 200, body: { color: "white" } });
+
+    const stored = rooms.find(r => r.id === created.body.roomId);
+    expect(stored).toMatchObject({
+      player_code: created.body.playerCode,
+      spectator_code: created.body.spectatorCode,
+      time_control: "3+2",
+      start_position: 518,
+      allow_takebacks: false,
+      player_white_id: await seatId("creator"),
+      version: 0,
+    });
+    expect(stored.player_black_id).toBeUndefined();
+    expect(parseGameState(stored.game_state, "3+2", "chess960", 518)).toMatchObject({ moves: [], whiteTime: 180 });
+  });
+
+  it("refuses to create a room from settings it can't set up", async () => {
+    const settings = { timeControl: "5+0", variant: "standard" as const, startPosition: null, allowSpectators: true, allowTakebacks: true };
+    const create = (changes: object) =>
+      handleGameAction(client, { playerId: "creator", action: { type: "create", settings: { ...settings, ...changes } } });
+    expect(await create({ timeControl: "soon" })).toMatchObject({ status: 400, body: { error: "Invalid time control" } });
+    expect(await create({ variant: "crazyhouse" })).toMatchObject({ status: 400, body: { error: "Unknown variant" } });
+    expect(await create({ variant: "chess960", startPosition: 960 })).toMatchObject({ status: 400, body: { error: "Invalid start position" } });
+    expect(await create({ allowTakebacks: "yes" })).toMatchObject({ status: 400, body: { error: "Invalid room settings" } });
+    expect(rooms).toHaveLength(1);
+  });
+
+  it("only seats players who have the player code", async () => {
+    row.player_black_id = null;
+    const join = (playerCode: string) =>
+      handleGameAction(client, { roomId: room.id, playerId: "guest", action: { type: "join", playerCode } });
+    expect(await join("WATCH")).toMatchObject({ status: 403, body: { error: "Wrong player code" } });
+    expect(row.player_black_id).toBeNull();
+    expect(await join("PLAYER")).toMatchObject({ status: 200, body: { color: "black" } });
+    expect(row.player_black_id).toBe(await seatId("guest"));
+  });
+
+  it("tells a spectator the server time without seating them", async () => {
+    row.player_black_id = null;
+    const result = await handleGameAction(client, { roomId: room.id, playerId: "viewer", action: { type: "time" } }, 1234);
+    expect(result).toEqual({ status: 200, body: { serverTime: 1234 } });
+    expect(row.player_black_id).toBeNull();
+  });
+
+  it("only grants an abandonment claim once the opponent's heartbeats have stopped", async () => {
+    const act = (playerId: string, action: GameActionRequest["action"], now: number) =>
+      handleGameAction(client, { roomId: room.id, playerId, action }, now);
+    await act("white", e2e4, 0);
+    await act("black", e7e5, 1_000);
+    expect(await act("white", { type: "heartbeat" }, 20_000)).toEqual({ status: 200, body: { serverTime: 20_000 } });
+    expect(heartbeats.find(beat => beat.color === "white")?.seen_at).toBe(new Date(20_000).toISOString());
+
+    const early = await act("black", { type: "claim-abandonment" }, 130_000);
+    expect(early).toMatchObject({ status: 400, body: { error: "Your opponent is still connected" } });
+    const claimed = await act("black", { type: "claim-abandonment" }, 140_000);
+    expect(claimed.status).toBe(200);
+    expect(stored()).toMatchObject({ result: "0-1", termination: "abandonment" });
+  });
+
+  it("counts any action as hearing from the player", async () => {
+    await handleGameAction(client, { roomId: room.id, playerId: "white", action: e2e4 }, 5_000);
+    expect(heartbeats).toEqual([{ room_id: room.id, color: "white", seen_at: new Date(5_000).toISOString() }]);
+  });
+
+  it("only takes heartbeats from seated players", async () => {
+    const result = await handleGameAction(client, { roomId: room.id, playerId: "viewer", action: { type: "heartbeat" } });
+    expect(result.status).toBe(403);
+    expect(heartbeats).toHaveLength(0);
+  });
+
+  it("refuses an action based on an old version and sends the current game", async () => {
+    await submitRoomAction(client, room, "white", "white", initial, e2e4);
+    const result = await handleGameAction(client, {
+      roomId: room.id,
+      playerId: "black",
+      action: { type: "offer-draw" },
+      version: 0,
+    });
+    expect(result.status).toBe(409);
+    expect(result.body.version).toBe(1);
+    expect(row.version).toBe(1);
+  });
+
+  it("rebases and retries the later of two concurrent writers", async () => {
+    const onStale = vi.fn();
+    const [move, offer] = await Promise.all([
+      submitRoomAction(client, room, "white", "white", initial, e2e4),
+      submitRoomAction(client, room, "black", "black", initial, { type: "offer-draw" }, onStale),
+    ]);
+
+    expect(move.version).toBe(1);
+    expect(offer.version).toBe(2);
+    expect(onStale).toHaveBeenCalledWith(expect.objectContaining({ version: 1 }));
+    // Neither write undid the other
+    expect(stored().moves).toHaveLength(1);
+    expect(stored().drawOffer).toBe("black");
+  });
+
+  it("decides a flag fall from the stored clock, not the caller's", async () => {
+    await handleGameAction(client, { roomId: room.id, playerId: "white", action: e2e4, version: 0 }, 0);
+    await handleGameAction(client, { roomId: room.id, playerId: "black", action: e7e5, version: 1 }, 0);
+    row.game_state = { ...(row.game_state as object), whiteTime: 10, lastMoveAt: 1000 };
+    const claim = { roomId: room.id, playerId: "black", action: { type: "timeout" as const }, version: 2 };
+
+    const early = await handleGameAction(client, claim, 5000);
+    expect(early).toMatchObject({ status: 400, body: { error: "The clock has not run out" } });
+
+    const late = await handleGameAction(client, claim, 11000);
+    expect(late.status).toBe(200);
+    expect(stored()).toMatchObject({ status: "over", result: "0-1", termination: "timeout", whiteTime: 0 });
+  });
+
+  it("stores when the side to move runs out of time", async () => {
+    // Black has a while to make a first move before the game is aborted
+    await handleGameAction(client, { roomId: room.id, playerId: "white", action: e2e4, version: 0 }, 1000);
+    expect(row.move_deadline).toBe(new Date(1000 + 30_000).toISOString());
+    await handleGameAction(client, { roomId: room.id, playerId: "black", action: e7e5, version: 1 }, 2000);
+    expect(row.move_deadline).toBe(new Date(2000 + 300_000).toISOString());
+
+    await handleGameAction(client, { roomId: room.id, playerId: "black", action: { type: "resign" }, version: 2 }, 3000);
+    expect(row.move_deadline).toBeNull();
+  });
+
+  it("ends overdue games in the cron job's sweep", async () => {
+    await handleGameAction(client, { roomId: room.id, playerId: "white", action: e2e4, version: 0 }, 1000);
+    await handleGameAction(client, { roomId: room.id, playerId: "black", action: e7e5, version: 1 }, 2000);
+    expect(await expireOverdueGames(client, 301_000)).toEqual({ status: 200, body: { expired: 0 } });
+
+    expect(await expireOverdueGames(client, 303_000)).toEqual({ status: 200, body: { expired: 1 } });
+    expect(stored()).toMatchObject({ status: "over", result: "0-1", termination: "timeout", whiteTime: 0 });
+    expect(row.version).toBe(3);
+    expect(row.move_deadline).toBeNull();
+    expect(broadcasts[broadcasts.length - 1].payload).toMatchObject({ version: 3, game: { status: "over", result: "0-1" } });
+    expect(await expireOverdueGames(client, 400_000)).toEqual({ status: 200, body: { expired: 0 } });
+  });
+
+  it("gives up when the action no longer applies to the current game", async () => {
+    const results = await Promise.allSettled([
+      submitRoomAction(client, room, "black", "black", initial, { type: "resign" }),
+      submitRoomAction(client, room, "white", "white", initial, { type: "offer-draw" }),
+    ]);
+    expect(results[0].status).toBe("fulfilled");
+    expect(results[1]).toMatchObject({ status: "rejected", reason: new Error("The game is not in progress") });
+    expect(row.version).toBe(1);
+    expect(stored().termination).toBe("resignation");
+  });
+
+  it("stops retrying after the given number of attempts", async () => {
+    // Another writer gets in before every attempt
+    const busy = {
+      functions: {
+        invoke: async (name: string, options: { body: unknown }) => {
+          row.version++;
+          return client.functions.invoke(name, options);
+        },
+      },
+    } as unknown as SupabaseClient;
+    await expect(
+      submitRoomAction(busy, room, "white", "white", initial, e2e4, undefined, 2),
+    ).rejects.toThrow("The game has changed");
+    expect(stored().moves).toHaveLength(0);
+  });
+});
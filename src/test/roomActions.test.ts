@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { createInitialGameState, makeMove, parseFen } from "@/lib/chess";
+import { RoomUpdate, applyRoomAction, applyRoomUpdate, parseGameState, roomUpdateGame } from "@/lib/roomActions";
+
+const e2 = { row: 6, col: 4 };
+const e4 = { row: 4, col: 4 };
+const e5 = { row: 3, col: 4 };
+
+describe("applyRoomAction", () => {
+  it("plays legal moves for the side to move only", () => {
+    const state = createInitialGameState();
+    const next = applyRoomAction(state, "white", { type: "move", from: e2, to: e4 }, "10+0");
+    expect(next.turn).toBe("black");
+    expect(next.status).toBe("playing");
+
+    expect(() => applyRoomAction(state, "black", { type: "move", from: e2, to: e4 }, "10+0")).toThrow("Not your turn");
+    expect(() => applyRoomAction(state, "white", { type: "move", from: e2, to: e5 }, "10+0")).toThrow("Invalid move");
+  });
+
+  it("rejects moves once the game is over", () => {
+    const state = applyRoomAction(createInitialGameState(), "white", { type: "move", from: e2, to: e4 }, "10+0");
+    const resigned = applyRoomAction(state, "black", { type: "resign" }, "10+0");
+    expect(resigned).toMatchObject({ status: "over", result: "1-0", termination: "resignation" });
+    expect(() => applyRoomAction(resigned, "black", { type: "move", from: { row: 1, col: 4 }, to: e5 }, "10+0")).toThrow();
+  });
+
+  it("only lets the opponent answer a draw offer", () => {
+    const state = applyRoomAction(createInitialGameState(), "white", { type: "move", from: e2, to: e4 }, "10+0");
+    const offered = applyRoomAction(state, "white", { type: "offer-draw" }, "10+0");
+    expect(() => applyRoomAction(offered, "white", { type: "offer-draw" }, "10+0")).toThrow();
+    expect(() => applyRoomAction(offered, "white", { type: "accept-draw" }, "10+0")).toThrow();
+    const drawn = applyRoomAction(offered, "black", { type: "accept-draw" }, "10+0");
+    expect(drawn).toMatchObject({ status: "over", result: "1/2-1/2", termination: "agreement" });
+  });
+});
+
+describe("room clocks", () => {
+  const e7 = { row: 1, col: 4 };
+  // White's first move starts Black's clock at t = 0
+  const started = () => applyRoomAction(createInitialGameState("5+3"), "white", { type: "move", from: e2, to: e4 }, "5+3", 0);
+  // Both sides have moved, and White is to move at t = 0
+  const underway = () => applyRoomAction(started(), "black", { type: "move", from: e7, to: e5 }, "5+3", 0);
+  const g1 = { row: 7, col: 6 };
+  const f3 = { row: 5, col: 5 };
+
+  it("charges each move from the time of the last one and adds the increment", () => {
+    const state = started();
+    expect(state).toMatchObject({ whiteTime: 303, blackTime: 300, lastMoveAt: 0 });
+
+    const next = applyRoomAction(state, "black", { type: "move", from: e7, to: e5 }, "5+3", 10_500);
+    expect(next).toMatchObject({ whiteTime: 303, blackTime: 292.5, lastMoveAt: 10_500 });
+  });
+
+  it("only ends the game on time once the stored clock has run out", () => {
+    const state = underway();
+    expect(() => applyRoomAction(state, "black", { type: "timeout" }, "5+3", 302_000)).toThrow("The clock has not run out");
+
+    const flagged = applyRoomAction(state, "black", { type: "timeout" }, "5+3", 303_000);
+    expect(flagged).toMatchObject({ result: "0-1", termination: "timeout", whiteTime: 0 });
+    // A move made too late loses on time as well
+    const late = applyRoomAction(state, "white", { type: "move", from: g1, to: f3 }, "5+3", 304_000);
+    expect(late).toMatchObject({ result: "0-1", termination: "timeout", moves: state.moves });
+  });
+
+  it("draws on time when the opponent has no mating material", () => {
+    const bare = { ...underway(), board: parseFen("4kn2/8/8/8/8/8/8/4K3 w - - 0 1").board };
+    const flagged = applyRoomAction(bare, "black", { type: "timeout" }, "5+3", 303_000);
+    expect(flagged).toMatchObject({ status: "over", result: "1/2-1/2", termination: "timeout-vs-insufficient-material" });
+  });
+
+  it("aborts a game when a side doesn't make its first move in time", () => {
+    const seated = { ...createInitialGameState("5+3"), lastMoveAt: 0 };
+    expect(() => applyRoomAction(seated, "black", { type: "timeout" }, "5+3", 29_000)).toThrow("The clock has not run out");
+    const aborted = applyRoomAction(started(), "white", { type: "timeout" }, "5+3", 30_000);
+    expect(aborted).toMatchObject({ status: "over", result: undefined, termination: "aborted" });
+    expect(() => applyRoomAction(underway(), "white", { type: "abort" }, "5+3", 1_000)).toThrow(/before both sides/);
+  });
+
+  it("lets a player claim a game once their opponent's heartbeats have stopped", () => {
+    const claim = { type: "claim-abandonment" as const };
+    expect(() => applyRoomAction(underway(), "white", claim, "5+3", 60_000, 0)).toThrow("Your opponent is not on the move");
+    expect(() => applyRoomAction(underway(), "black", claim, "5+3", 59_000, 0)).toThrow(/not been gone long enough/);
+    // White hasn't moved for over three minutes, but was heard from within the
+    // two minutes a hidden tab may go between heartbeats
+    expect(() => applyRoomAction(underway(), "black", claim, "5+3", 200_000, 90_000)).toThrow("Your opponent is still connected");
+
+    const claimed = applyRoomAction(underway(), "black", claim, "5+3", 200_000, 80_000);
+    expect(claimed).toMatchObject({ result: "0-1", termination: "abandonment" });
+  });
+
+  it("draws an abandonment claim when the claimant has no mating material", () => {
+    const claim = { type: "claim-abandonment" as const };
+    // Black claims with a lone knight against White's bare king
+    const knight = { ...underway(), board: parseFen("4kn2/8/8/8/8/8/8/4K3 w - - 0 1").board };
+    expect(applyRoomAction(knight, "black", claim, "5+3", 200_000, 0)).toMatchObject({ result: "1/2-1/2", termination: "abandonment" });
+    const rook = { ...underway(), board: parseFen("4kr2/8/8/8/8/8/8/4K3 w - - 0 1").board };
+    expect(applyRoomAction(rook, "black", claim, "5+3", 200_000, 0)).toMatchObject({ result: "0-1", termination: "abandonment" });
+  });
+
+  it("takes back moves with the clocks as they were", () => {
+    const replied = applyRoomAction(started(), "black", { type: "move", from: e7, to: e5 }, "5+3", 10_000);
+    const asked = applyRoomAction(replied, "white", { type: "offer-takeback" }, "5+3", 12_000);
+    expect(() => applyRoomAction(asked, "white", { type: "accept-takeback" }, "5+3", 13_000)).toThrow();
+
+    // White's move is taken back along with Black's reply to it
+    const rewound = applyRoomAction(asked, "black", { type: "accept-takeback" }, "5+3", 15_000);
+    expect(rewound).toMatchObject({ moves: [], turn: "white", whiteTime: 300, blackTime: 300, lastMoveAt: 15_000 });
+    expect(rewound.takebackOffer).toBeUndefined();
+
+    // Black's reply alone is taken back, giving Black its time back
+    const blackAsks = applyRoomAction(replied, "black", { type: "offer-takeback" }, "5+3", 12_000);
+    const undone = applyRoomAction(blackAsks, "white", { type: "accept-takeback" }, "5+3", 15_000);
+    expect(undone).toMatchObject({ turn: "black", whiteTime: 303, blackTime: 300, lastMoveAt: 15_000 });
+    expect(undone.moves).toHaveLength(1);
+  });
+
+  it("stops the clocks when the game ends", () => {
+    const resigned = applyRoomAction(started(), "black", { type: "resign" }, "5+3", 5_000);
+    expect(resigned.blackTime).toBe(295);
+  });
+});
+
+describe("parseGameState", () => {
+  it("round-trips a stored game", () => {
+    const state = applyRoomAction(createInitialGameState("5+0"), "white", { type: "move", from: e2, to: e4 }, "5+0");
+    const parsed = parseGameState(JSON.parse(JSON.stringify(state)), "5+0", "standard", null);
+    expect(parsed).toEqual(JSON.parse(JSON.stringify(state)));
+  });
+
+  it("reads the outcome of games stored before results were kept", () => {
+    const state = JSON.parse(JSON.stringify(createInitialGameState("5+0")));
+    const timedOut = parseGameState({ ...state, status: "checkmate", winner: "black" }, "5+0", "standard", null);
+    expect(timedOut).toMatchObject({ status: "over", result: "0-1", termination: "checkmate" });
+    const drawn = parseGameState({ ...state, status: "draw", drawReason: "agreement" }, "5+0", "standard", null);
+    expect(drawn).toMatchObject({ status: "over", result: "1/2-1/2", termination: "agreement" });
+  });
+
+  it("sets up a fresh room from the room's columns", () => {
+    const parsed = parseGameState(null, "5+0", "chess960", 0);
+    expect(parsed.variant).toBe("chess960");
+    expect(parsed.board[7][0]).toEqual({ type: "bishop", color: "white" });
+  });
+});
+
+describe("applyRoomUpdate", () => {
+  const playing = { ...createInitialGameState("5+0"), status: "playing" as const };
+  const update = (ply: number, game: Partial<RoomUpdate["game"]> = {}): RoomUpdate => ({
+    version: 2,
+    ply,
+    game: { ...roomUpdateGame(playing), ...game },
+    playerWhiteId: "w",
+    playerBlackId: "b",
+    rematchRoomId: null,
+  });
+
+  it("takes the rest of the game from the update once its moves have arrived", () => {
+    const moved = makeMove(playing, e2, e4)!;
+    expect(applyRoomUpdate(playing, update(1))).toBeNull();
+
+    const shown = applyRoomUpdate({ ...moved, drawOffer: "white" }, update(1, { blackTime: 290, lastMoveAt: 5000 }));
+    expect(shown).toMatchObject({ moves: moved.moves, turn: "black", blackTime: 290, lastMoveAt: 5000 });
+    // An offer the update leaves out has been withdrawn
+    expect(shown!.drawOffer).toBeUndefined();
+  });
+
+  it("undoes moves the update has taken back", () => {
+    const moved = makeMove(playing, e2, e4)!;
+    const rewound = applyRoomUpdate(moved, update(0));
+    expect(rewound).toMatchObject({ moves: [], turn: "white", board: playing.board });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { GameState, createInitialGameState, makeMove, parseSan, squareToPosition as sq } from "@/lib/chess";
+import { VariantId } from "@/lib/variants";
+
+// The SAN written for a move from one square to another
+function san(fen: string, from: string, to: string, variant?: VariantId) {
+  const next = makeMove(createInitialGameState("10+0", fen, variant), sq(from), sq(to));
+  expect(next, `${from}-${to}`).not.toBeNull();
+  return next!.moves[next!.moves.length - 1].notation;
+}
+
+function play(...sans: string[]): GameState {
+  let state = createInitialGameState();
+  for (const text of sans) {
+    const move = parseSan(state, text);
+    expect(move, text).not.toBeNull();
+    state = makeMove(state, move!.from, move!.to, move!.promotion)!;
+  }
+  return state;
+}
+
+describe("SAN", () => {
+  it("disambiguates by file, then rank, then square", () => {
+    expect(san("4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1", "b1", "d2")).toBe("Nbd2");
+    expect(san("4k3/8/8/R7/8/8/8/R3K3 w - - 0 1", "a1", "a3")).toBe("R1a3");
+    expect(san("8/7k/8/8/8/Q7/8/Q1Q4K w - - 0 1", "a1", "b2")).toBe("Qa1b2");
+  });
+
+  it("doesn't disambiguate against a pinned piece", () => {
+    expect(san("4k3/4r3/8/8/8/8/4N3/1N2K3 w - - 0 1", "b1", "c3")).toBe("Nc3");
+  });
+
+  it("disambiguates by the variant's own piece moves", () => {
+    expect(san("4k3/8/8/8/8/8/8/2A1K1A1 w - - 0 1", "c1", "e3", "shatranj")).toBe("Ace3");
+  });
+
+  it("marks check and mate", () => {
+    const check = play("e4", "f6", "Qh5+");
+    expect(check.moves[2].notation).toBe("Qh5+");
+    const mate = play("e4", "e5", "Bc4", "Nc6", "Qh5", "Nf6", "Qxf7#");
+    expect(mate.moves[6].notation).toBe("Qxf7#");
+    expect(mate.termination).toBe("checkmate");
+  });
+
+  it("reads disambiguated, captured and promoting moves", () => {
+    const knights = createInitialGameState("10+0", "4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1");
+    expect(parseSan(knights, "Nbd2")).toEqual({ from: sq("b1"), to: sq("d2"), promotion: undefined });
+    expect(parseSan(knights, "N3d2")).toEqual({ from: sq("f3"), to: sq("d2"), promotion: undefined });
+    const promotion = createInitialGameState("10+0", "1r2k3/P7/8/8/8/8/8/4K3 w - - 0 1");
+    expect(parseSan(promotion, "axb8=N+")).toEqual({ from: sq("a7"), to: sq("b8"), promotion: "knight" });
+  });
+
+  it("rejects ambiguous, illegal and malformed SAN", () => {
+    const knights = createInitialGameState("10+0", "4k3/8/8/8/8/5N2/8/1N2K3 w - - 0 1");
+    expect(parseSan(knights, "Nd2")).toBeNull();
+    expect(parseSan(knights, "Nd3")).toBeNull();
+    expect(parseSan(knights, "Ke3x")).toBeNull();
+    expect(parseSan(knights, "Nd2=Q")).toBeNull();
+    expect(parseSan(knights, "O-O")).toBeNull();
+    expect(parseSan(knights, "Zz9")).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { forgetSeat, getPlayerId, listSavedSeats, saveSeat } from "@/lib/seats";
+
+describe("saved seats", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("reuses the player id of a saved seat", () => {
+    const first = getPlayerId("ABC123");
+    expect(getPlayerId("ABC123")).not.toBe(first);
+
+    saveSeat({ roomId: "room-1", playerCode: "ABC123", playerId: first, color: "white" });
+    expect(getPlayerId("ABC123")).toBe(first);
+    expect(getPlayerId("XYZ789")).not.toBe(first);
+  });
+
+  it("lists the most recently joined room first, once", () => {
+    saveSeat({ roomId: "room-1", playerCode: "AAAAAA", playerId: "p1", color: "white" });
+    saveSeat({ roomId: "room-2", playerCode: "BBBBBB", playerId: "p2", color: "black" });
+    saveSeat({ roomId: "room-1", playerCode: "AAAAAA", playerId: "p1", color: "white" });
+    expect(listSavedSeats().map(seat => seat.roomId)).toEqual(["room-1", "room-2"]);
+
+    forgetSeat("room-1");
+    expect(listSavedSeats().map(seat => seat.roomId)).toEqual(["room-2"]);
+  });
+
+  it("ignores unreadable storage", () => {
+    localStorage.setItem("chess-seats", "{not json");
+    expect(listSavedSeats()).toEqual([]);
+  });
+});
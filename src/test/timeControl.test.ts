@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { GameState, createInitialGameState } from "@/lib/chess";
+import { flagDeadline, remainingTime } from "@/lib/clock";
+import { applyRoomAction } from "@/lib/roomActions";
+import { formatTimeControl, getTimeControl, parseTimeControl } from "@/lib/timeControl";
+
+describe("parseTimeControl", () => {
+  it("reads each kind of time control and writes it back", () => {
+    for (const text of ["10+5", "3+0", "10d5", "25b10", "40/90+30, then 30+30", "40/120, then 20/60", "hourglass 3", "1 day", "7 days"]) {
+      expect(formatTimeControl(parseTimeControl(text)!)).toBe(text);
+    }
+    expect(parseTimeControl("40/90+30; 30+30")).toEqual(parseTimeControl("40/90+30, then 30+30"));
+    expect(parseTimeControl("10d5")).toEqual({
+      kind: "stages",
+      stages: [{ minutes: 10, bonus: 5, mode: "simple-delay" }],
+    });
+  });
+
+  it("rejects time controls that can't be played", () => {
+    for (const text of ["", "abc", "0+5", "90+30, then 30", "0/90", "hourglass 0", "10x5"]) {
+      expect(parseTimeControl(text)).toBeNull();
+    }
+    expect(getTimeControl("abc")).toEqual(parseTimeControl("10+0"));
+  });
+});
+
+// Plays the given moves, one every `thinkMs`, after White's first move at t = 0
+function playMoves(timeControl: string, moves: [number, number, number, number][], thinkMs: number) {
+  let state: GameState = createInitialGameState(timeControl);
+  moves.forEach(([fromRow, fromCol, toRow, toCol], i) => {
+    state = applyRoomAction(state, state.turn, {
+      type: "move",
+      from: { row: fromRow, col: fromCol },
+      to: { row: toRow, col: toCol },
+    }, timeControl, i * thinkMs);
+  });
+  return state;
+}
+
+// Knights hopping out and back, so any number of moves can be played
+const KNIGHT_SHUFFLE: [number, number, number, number][] = [
+  [7, 6, 5, 5], [0, 6, 2, 5], [5, 5, 7, 6], [2, 5, 0, 6],
+];
+const shuffle = (count: number) => Array.from({ length: count }, (_, i) => KNIGHT_SHUFFLE[i % 4]);
+
+describe("clock modes", () => {
+  it("doesn't charge time used within a simple delay", () => {
+    const state = playMoves("5d10", shuffle(2), 8_000);
+    expect(state.blackTime).toBe(300);
+    expect(remainingTime(state, "white", 8_000 + 15_000, getTimeControl("5d10"))).toBe(295);
+  });
+
+  it("gives back time used up to a Bronstein delay", () => {
+    const fast = playMoves("5b10", shuffle(2), 8_000);
+    expect(fast.blackTime).toBe(300);
+    const slow = playMoves("5b10", shuffle(2), 15_000);
+    expect(slow.blackTime).toBe(295);
+  });
+
+  it("adds the next stage's time once a stage's moves are made", () => {
+    const timeControl = "2/10, then 1/5";
+    expect(playMoves(timeControl, shuffle(3), 1_000).whiteTime).toBe(600 - 1 + 300);
+    // The last stage repeats after every move
+    expect(playMoves(timeControl, shuffle(5), 1_000).whiteTime).toBe(600 - 1 + 300 - 1 + 300);
+  });
+
+  it("moves the time one side uses to the other in an hourglass", () => {
+    const state = playMoves("hourglass 1", shuffle(2), 10_000);
+    expect(state).toMatchObject({ whiteTime: 70, blackTime: 50 });
+    const clock = getTimeControl("hourglass 1");
+    expect(remainingTime(state, "white", 30_000, clock)).toBe(50);
+    expect(remainingTime(state, "black", 30_000, clock)).toBe(70);
+  });
+
+  it("gives a correspondence player the full time for every move", () => {
+    const day = 24 * 60 * 60;
+    const state = playMoves("3 days", shuffle(3), 2 * day * 1000);
+    expect(state).toMatchObject({ whiteTime: 3 * day, blackTime: 3 * day });
+    expect(flagDeadline(state, getTimeControl("3 days"))).toBe((4 * day + 3 * day) * 1000);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { GameState, createInitialGameState, makeMove, squareToPosition as sq } from "@/lib/chess";
+import { usePremoves } from "@/hooks/usePremoves";
+
+function play(state: GameState, ...moves: string[]) {
+  for (const move of moves) state = makeMove(state, sq(move.slice(0, 2)), sq(move.slice(2)))!;
+  return state;
+}
+
+describe("usePremoves", () => {
+  it("plays queued premoves one opponent reply at a time", async () => {
+    const onMove = vi.fn(async () => true);
+    const afterE4 = play({ ...createInitialGameState("5+0"), status: "playing" }, "e2e4");
+    const { result, rerender } = renderHook(
+      ({ gameState }) => usePremoves({ gameState, playerColor: "white", onMove }),
+      { initialProps: { gameState: afterE4 } },
+    );
+    act(() => {
+      result.current.queuePremove({ from: sq("d2"), to: sq("d4") });
+      result.current.queuePremove({ from: sq("g1"), to: sq("f3") });
+    });
+    expect(onMove).not.toHaveBeenCalled();
+
+    // The first goes as soon as Black replies; the second waits, though our
+    // move hasn't arrived yet and it's still our turn
+    const afterE5 = play(afterE4, "e7e5");
+    await act(async () => rerender({ gameState: afterE5 }));
+    expect(onMove).toHaveBeenCalledTimes(1);
+    expect(onMove).toHaveBeenLastCalledWith(sq("d2"), sq("d4"), undefined);
+    expect(result.current.premoves).toHaveLength(1);
+
+    const afterD4 = play(afterE5, "d2d4");
+    await act(async () => rerender({ gameState: afterD4 }));
+    expect(onMove).toHaveBeenCalledTimes(1);
+
+    await act(async () => rerender({ gameState: play(afterD4, "b8c6") }));
+    expect(onMove).toHaveBeenCalledTimes(2);
+    expect(onMove).toHaveBeenLastCalledWith(sq("g1"), sq("f3"), undefined);
+    expect(result.current.premoves).toHaveLength(0);
+  });
+
+  it("drops the rest of the queue when a premove fails to save", async () => {
+    const onMove = vi.fn(async () => false);
+    const afterE4 = play({ ...createInitialGameState("5+0"), status: "playing" }, "e2e4");
+    const { result, rerender } = renderHook(
+      ({ gameState }) => usePremoves({ gameState, playerColor: "white", onMove }),
+      { initialProps: { gameState: afterE4 } },
+    );
+    act(() => {
+      result.current.queuePremove({ from: sq("d2"), to: sq("d4") });
+      result.current.queuePremove({ from: sq("g1"), to: sq("f3") });
+    });
+    await act(async () => rerender({ gameState: play(afterE4, "e7e5") }));
+    expect(onMove).toHaveBeenCalledTimes(1);
+    expect(result.current.premoves).toHaveLength(0);
+  });
+});
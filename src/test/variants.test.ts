@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  chess960Fen,
+  createInitialGameState,
+  getLegalMoves,
+  makeMove,
+  parseFen,
+  resolveCastlingInput,
+  squareToPosition as sq,
+  toFen,
+} from "@/lib/chess";
+import { exportPgn, parsePgn } from "@/lib/pgn";
+import { VARIANTS } from "@/lib/variants";
+import { Board88 } from "@/lib/movegen";
+
+function play(fen: string, ...moves: [string, string][]) {
+  let state = createInitialGameState("10+0", fen, "shatranj");
+  for (const [from, to] of moves) {
+    const next = makeMove(state, sq(from), sq(to));
+    expect(next, `${from}-${to}`).not.toBeNull();
+    state = next!;
+  }
+  return state;
+}
+
+describe("shatranj", () => {
+  it("sets up the starting position", () => {
+    const state = createInitialGameState("10+0", undefined, "shatranj");
+    expect(state.variant).toBe("shatranj");
+    expect(state.board[7][3]).toEqual({ type: "ferz", color: "white" });
+    expect(state.board[0][2]).toEqual({ type: "alfil", color: "black" });
+    expect(toFen(state)).toBe(VARIANTS.shatranj.startingFen);
+    // Eight single pawn steps, four knight moves and four alfil jumps
+    expect(Board88.fromPosition(state, VARIANTS.shatranj).perft(1)).toBe(16);
+    expect(Board88.fromPosition(state, VARIANTS.shatranj).perft(2)).toBe(256);
+  });
+
+  it("moves the ferz one square and the alfil two squares diagonally", () => {
+    const state = createInitialGameState("10+0", "4k3/8/8/8/3F4/8/8/A3K3 w - - 0 1", "shatranj");
+    expect(getLegalMoves(state.board, sq("d4"), undefined, undefined, "shatranj")).toHaveLength(4);
+    // The alfil leaps over anything in between
+    const alfil = getLegalMoves(state.board, sq("a1"), undefined, undefined, "shatranj");
+    expect(alfil).toEqual([sq("c3")]);
+  });
+
+  it("promotes pawns to a ferz only", () => {
+    const state = play("4k3/P7/8/8/8/8/8/4K3 w - - 0 1", ["a7", "a8"]);
+    expect(state.board[0][0]).toEqual({ type: "ferz", color: "white" });
+    expect(state.lastMove?.notation).toBe("a8=F");
+    const queen = makeMove(createInitialGameState("10+0", "4k3/P7/8/8/8/8/8/4K3 w - - 0 1", "shatranj"), sq("a7"), sq("a8"), "queen");
+    expect(queen?.board[0][0]?.type).toBe("ferz");
+  });
+
+  it("has no castling or double pawn steps", () => {
+    expect(() => parseFen("r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1", "shatranj")).toThrow(/no castling/);
+    const state = createInitialGameState("10+0", undefined, "shatranj");
+    expect(getLegalMoves(state.board, sq("e2"), undefined, undefined, "shatranj")).toEqual([sq("e3")]);
+  });
+
+  it("wins by baring the opponent's king", () => {
+    const state = play("4k3/8/8/8/8/8/4r3/R3K3 w - - 0 1", ["e1", "e2"]);
+    expect(state).toMatchObject({ status: "over", result: "1-0", termination: "bare-king" });
+  });
+
+  it("lets the bared side answer by baring back, which draws", () => {
+    const state = play("8/8/8/8/8/3k4/R2r4/7K w - - 0 1", ["a2", "d2"]);
+    expect(state.status).toBe("playing");
+    const drawn = play("8/8/8/8/8/3k4/R2r4/7K w - - 0 1", ["a2", "d2"], ["d3", "d2"]);
+    expect(drawn).toMatchObject({ status: "over", result: "1/2-1/2", termination: "insufficient-material" });
+  });
+
+  it("counts stalemate as a win for the side giving it", () => {
+    const state = play("k7/8/1K1F4/p7/P7/8/8/8 w - - 0 1", ["d6", "c7"]);
+    expect(state).toMatchObject({ status: "over", result: "1-0", termination: "stalemate" });
+  });
+
+  it("round-trips through PGN with a Variant tag", () => {
+    const state = play(VARIANTS.shatranj.startingFen, ["e2", "e3"], ["d7", "d6"], ["c1", "a3"]);
+    const pgn = exportPgn(state);
+    expect(pgn).toContain('[Variant "Shatranj"]');
+    expect(pgn).toContain("1. e3 d6 2. Aa3");
+    const [game] = parsePgn(pgn);
+    expect(game.state.variant).toBe("shatranj");
+    expect(toFen(game.state)).toBe(toFen(state));
+  });
+});
+
+describe("chess960", () => {
+  it("numbers the start positions like Scharnagl", () => {
+    expect(chess960Fen(518)).toBe(VARIANTS.standard.startingFen);
+    expect(chess960Fen(0)).toBe("bbqnnrkr/pppppppp/8/8/8/8/PPPPPPPP/BBQNNRKR w KQkq - 0 1");
+    expect(chess960Fen(959)).toBe("rkrnnqbb/pppppppp/8/8/8/8/PPPPPPPP/RKRNNQBB w KQkq - 0 1");
+    expect(() => chess960Fen(960)).toThrow();
+  });
+
+  it("generates 960 distinct legal start positions", () => {
+    const ranks = new Set<string>();
+    for (let n = 0; n < 960; n++) {
+      const rank = chess960Fen(n).split("/")[0];
+      ranks.add(rank);
+      expect(rank.indexOf("b") % 2).not.toBe(rank.lastIndexOf("b") % 2);
+      expect(rank.indexOf("r")).toBeLessThan(rank.indexOf("k"));
+      expect(rank.lastIndexOf("r")).toBeGreaterThan(rank.indexOf("k"));
+    }
+    expect(ranks.size).toBe(960);
+  });
+
+  it("reads Shredder-FEN castling and writes X-FEN", () => {
+    const fen = "bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w HFhf - 2 9";
+    const position = parseFen(fen, "chess960");
+    expect(position.castlingRights.white).toEqual({ kingside: 7, queenside: 5 });
+    expect(toFen(position)).toBe("bqnb1rkr/pp3ppp/3ppn2/2p5/5P2/P2P4/NPP1P1PP/BQ1BNRKR w KQkq - 2 9");
+    const board = Board88.fromPosition(position, VARIANTS.chess960);
+    expect([1, 2, 3].map(depth => board.perft(depth))).toEqual([21, 528, 12189]);
+    expect(() => parseFen(fen)).toThrow(/malformed castling/);
+  });
+
+  it("castles by moving the king onto its rook", () => {
+    // King on g1 with rooks on b1 and h1
+    const fen = "1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4KR w KQkq - 0 1";
+    const state = createInitialGameState("10+0", fen, "chess960");
+    const king = getLegalMoves(state.board, sq("g1"), undefined, state.castlingRights, "chess960");
+    expect(king).toContainEqual(sq("h1"));
+    expect(king).toContainEqual(sq("b1"));
+
+    const short = makeMove(state, sq("g1"), sq("h1"))!;
+    expect(short.lastMove?.notation).toBe("O-O");
+    expect(short.board[7][6]).toEqual({ type: "king", color: "white" });
+    expect(short.board[7][5]).toEqual({ type: "rook", color: "white" });
+    expect(short.board[7][7]).toBeNull();
+
+    const long = makeMove(state, sq("g1"), sq("b1"))!;
+    expect(long.lastMove?.notation).toBe("O-O-O");
+    expect(toFen(long).split(" ")[0]).toBe("1r4kr/pppppppp/8/8/8/8/PPPPPPPP/2KR3R");
+    expect(toFen(long).split(" ")[2]).toBe("kq");
+  });
+
+  it("accepts king-onto-rook input in standard chess", () => {
+    const state = createInitialGameState("10+0", "r3k2r/8/8/8/8/8/8/R3K2R w KQkq - 0 1");
+    expect(resolveCastlingInput(state.board, sq("e1"), sq("h1"), state.castlingRights)).toEqual(sq("g1"));
+    expect(resolveCastlingInput(state.board, sq("e1"), sq("a1"), state.castlingRights)).toEqual(sq("c1"));
+    expect(resolveCastlingInput(state.board, sq("e1"), sq("e2"), state.castlingRights)).toEqual(sq("e2"));
+  });
+
+  it("replays castling from PGN", () => {
+    const [game] = parsePgn([
+      '[Variant "Chess960"]',
+      '[FEN "1r4kr/pppppppp/8/8/8/8/PPPPPPPP/1R4KR w KQkq - 0 1"]',
+      '[SetUp "1"]',
+      "",
+      "1. O-O O-O-O *",
+    ].join("\n"));
+    expect(game.state.moves.map(move => move.castling)).toEqual(["kingside", "queenside"]);
+    expect(toFen(game.state).split(" ")[0]).toBe("2kr3r/pppppppp/8/8/8/8/PPPPPPPP/1R3RK1");
+  });
+});
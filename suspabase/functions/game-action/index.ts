@@ -0,0 +1,48 @@
+// Creates rooms and validates and applies player actions on them; see
+// gameActionHandler.ts. Clients can read rooms but not create or update them,
+// so every game is set up and changed here, including the cron job's sweep of
+// overdue games. The chess rules are the app's own, imported through the
+// "@/" entry in deno.json.
+
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/integration-supabase/types';
+import { expireOverdueGames, handleGameAction } from '@/lib/gameActionHandler';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient<Database>(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  let status = 400;
+  let body: unknown = { error: 'Invalid request body' };
+  try {
+    const request = await req.json();
+    if (request?.action?.type === 'expire-overdue-games') {
+      // Only the cron job, which holds the service role key, may sweep
+      ({ status, body } = req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`
+        ? await expireOverdueGames(supabase)
+        : { status: 401, body: { error: 'Not allowed' } });
+    } else {
+      ({ status, body } = await handleGameAction(supabase, request));
+    }
+  } catch (err) {
+    if (!(err instanceof SyntaxError)) {
+      console.error('game-action failed:', err);
+      status = 500;
+      body = { error: 'Internal error' };
+    }
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+});
@@ -0,0 +1,4 @@
+-- Chess variant played in the room
+ALTER TABLE public.chess_rooms
+ADD COLUMN variant TEXT NOT NULL DEFAULT 'standard'
+CONSTRAINT chess_rooms_variant_check CHECK (variant IN ('standard', 'shatranj'));
@@ -0,0 +1,10 @@
+-- Chess960 rooms store the number (0-959) of their start position so every
+-- player and spectator sets up the same back rank
+ALTER TABLE public.chess_rooms
+DROP CONSTRAINT chess_rooms_variant_check,
+ADD CONSTRAINT chess_rooms_variant_check CHECK (variant IN ('standard', 'chess960', 'shatranj')),
+ADD COLUMN start_position SMALLINT,
+ADD CONSTRAINT chess_rooms_start_position_check CHECK (
+  (variant = 'chess960' AND start_position BETWEEN 0 AND 959)
+  OR (variant <> 'chess960' AND start_position IS NULL)
+);
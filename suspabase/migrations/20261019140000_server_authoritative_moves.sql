@@ -0,0 +1,17 @@
+-- Game state and seats are now only written by the game-action edge function,
+-- which checks the player's seat and the legality of every move and uses the
+-- service role. Clients may still read and create rooms.
+DROP POLICY "Anyone can update rooms" ON public.chess_rooms;
+REVOKE UPDATE ON public.chess_rooms FROM anon, authenticated;
+
+-- New rooms start with empty seats and no moves; players take seats and
+-- move through the function
+DROP POLICY "Anyone can create rooms" ON public.chess_rooms;
+CREATE POLICY "Anyone can create rooms"
+ON public.chess_rooms
+FOR INSERT
+WITH CHECK (
+  player_white_id IS NULL
+  AND player_black_id IS NULL
+  AND jsonb_array_length(COALESCE(game_state->'moves', '[]'::jsonb)) = 0
+);
@@ -0,0 +1,5 @@
+-- Incremented on every game_state write. The game-action function only
+-- writes when the version is still the one it read, and refuses actions
+-- based on an older version, so concurrent writers can't overwrite each other.
+ALTER TABLE public.chess_rooms
+ADD COLUMN version INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,23 @@
+-- One row per move, so games can be queried, move times computed and new
+-- moves streamed to clients without sending the whole game. Rows are written
+-- by the game-action function alongside the room's game_state.
+CREATE TABLE public.chess_moves (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  room_id UUID REFERENCES public.chess_rooms(id) ON DELETE CASCADE NOT NULL,
+  ply INTEGER NOT NULL CHECK (ply > 0),
+  uci TEXT NOT NULL,
+  san TEXT NOT NULL,
+  fen_after TEXT NOT NULL,
+  clock_after DOUBLE PRECISION, -- Mover's remaining time in seconds
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (room_id, ply)
+);
+
+ALTER TABLE public.chess_moves ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view moves"
+ON public.chess_moves
+FOR SELECT
+USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chess_moves;
@@ -0,0 +1,30 @@
+-- When the side to move runs out of time, kept by the game-action function
+-- alongside game_state. Correspondence games can go days between visits, so
+-- overdue games are ended here rather than waiting for a player's clock to
+-- report the flag fall.
+ALTER TABLE public.chess_rooms
+ADD COLUMN move_deadline TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX chess_rooms_move_deadline_idx
+ON public.chess_rooms (move_deadline)
+WHERE move_deadline IS NOT NULL;
+
+-- The side to move loses on time, as flagFall in src/lib/clock.ts does
+CREATE OR REPLACE FUNCTION public.expire_overdue_games()
+RETURNS void AS $$
+  UPDATE public.chess_rooms
+  SET
+    game_state = (game_state - 'drawOffer') || jsonb_build_object(
+      'status', 'checkmate',
+      'winner', CASE game_state->>'turn' WHEN 'white' THEN 'black' ELSE 'white' END,
+      CASE game_state->>'turn' WHEN 'white' THEN 'whiteTime' ELSE 'blackTime' END, 0
+    ),
+    version = version + 1,
+    move_deadline = NULL
+  WHERE move_deadline < now()
+    AND game_state->>'status' = 'playing';
+$$ LANGUAGE sql SET search_path = public;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-overdue-games', '* * * * *', 'SELECT public.expire_overdue_games()');
@@ -0,0 +1,45 @@
+-- Finished games now keep a status of 'over' with a result ('1-0', '0-1' or
+-- '1/2-1/2') and a termination, instead of one status per way of ending.
+-- Rooms finished earlier are read as before (parseGameState in
+-- src/lib/roomActions.ts).
+
+-- Whether `color` has more than a lone king or king and single minor piece
+-- left, as hasInsufficientMaterial in src/lib/chess.ts
+CREATE OR REPLACE FUNCTION public.has_mating_material(board JSONB, color TEXT)
+RETURNS boolean AS $$
+  SELECT count(*) > 1 OR bool_or(piece->>'type' NOT IN ('bishop', 'knight'))
+  FROM jsonb_array_elements(board) AS rank, jsonb_array_elements(rank) AS piece
+  WHERE piece->>'color' = color
+    AND piece->>'type' <> 'king';
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- The side to move loses on time, or draws when the opponent can't mate, as
+-- flagFall in src/lib/clock.ts does
+CREATE OR REPLACE FUNCTION public.expire_overdue_games()
+RETURNS void AS $$
+  UPDATE public.chess_rooms
+  SET
+    game_state = (game_state - 'drawOffer') || jsonb_build_object(
+      'status', 'over',
+      'result', CASE
+        WHEN NOT coalesce(public.has_mating_material(game_state->'board', opponent), false) THEN '1/2-1/2'
+        WHEN opponent = 'white' THEN '1-0'
+        ELSE '0-1'
+      END,
+      'termination', CASE
+        WHEN NOT coalesce(public.has_mating_material(game_state->'board', opponent), false)
+          THEN 'timeout-vs-insufficient-material'
+        ELSE 'timeout'
+      END,
+      CASE game_state->>'turn' WHEN 'white' THEN 'whiteTime' ELSE 'blackTime' END, 0
+    ),
+    version = version + 1,
+    move_deadline = NULL
+  FROM (
+    SELECT id AS room_id, CASE game_state->>'turn' WHEN 'white' THEN 'black' ELSE 'white' END AS opponent
+    FROM public.chess_rooms
+  ) AS sides
+  WHERE sides.room_id = chess_rooms.id
+    AND move_deadline < now()
+    AND game_state->>'status' = 'playing';
+$$ LANGUAGE sql SET search_path = public;
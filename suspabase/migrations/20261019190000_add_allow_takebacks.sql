@@ -0,0 +1,4 @@
+-- Whether players may ask each other to take back moves, set by the room's
+-- creator. The game-action function refuses takeback requests when it's off.
+ALTER TABLE public.chess_rooms
+ADD COLUMN allow_takebacks BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,10 @@
+-- Rematches. When a rematch is accepted the game-action function creates a
+-- room with the same settings and the seats swapped, and links it here so
+-- both players and any spectators can follow it.
+ALTER TABLE public.chess_rooms
+ADD COLUMN rematch_room_id UUID REFERENCES public.chess_rooms(id) ON DELETE SET NULL;
+
+-- Points each seat scored in the match's earlier games, as {"white", "black"}
+-- by the colours played in this room; null for a match's first game
+ALTER TABLE public.chess_rooms
+ADD COLUMN match_score JSONB;
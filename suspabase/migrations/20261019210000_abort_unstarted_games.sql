@@ -0,0 +1,38 @@
+-- Games where a side never made its first move are aborted, without a
+-- result, rather than lost on time (timeOut in src/lib/clock.ts). The
+-- game-action function now sets move_deadline from the moment both players
+-- are seated, so rooms whose first move never comes are swept up here too.
+CREATE OR REPLACE FUNCTION public.expire_overdue_games()
+RETURNS void AS $$
+  UPDATE public.chess_rooms
+  SET
+    game_state = CASE
+      WHEN jsonb_array_length(coalesce(game_state->'moves', '[]'::jsonb)) < 2 THEN
+        (game_state - 'drawOffer' - 'takebackOffer' - 'result')
+          || jsonb_build_object('status', 'over', 'termination', 'aborted')
+      ELSE
+        (game_state - 'drawOffer' - 'takebackOffer') || jsonb_build_object(
+          'status', 'over',
+          'result', CASE
+            WHEN NOT coalesce(public.has_mating_material(game_state->'board', opponent), false) THEN '1/2-1/2'
+            WHEN opponent = 'white' THEN '1-0'
+            ELSE '0-1'
+          END,
+          'termination', CASE
+            WHEN NOT coalesce(public.has_mating_material(game_state->'board', opponent), false)
+              THEN 'timeout-vs-insufficient-material'
+            ELSE 'timeout'
+          END,
+          CASE game_state->>'turn' WHEN 'white' THEN 'whiteTime' ELSE 'blackTime' END, 0
+        )
+    END,
+    version = version + 1,
+    move_deadline = NULL
+  FROM (
+    SELECT id AS room_id, CASE game_state->>'turn' WHEN 'white' THEN 'black' ELSE 'white' END AS opponent
+    FROM public.chess_rooms
+  ) AS sides
+  WHERE sides.room_id = chess_rooms.id
+    AND move_deadline < now()
+    AND game_state->>'status' IN ('waiting', 'playing');
+$$ LANGUAGE sql SET search_path = public;
@@ -0,0 +1,14 @@
+-- Conditional moves a correspondence player has set for their opponent's next
+-- moves (see src/lib/conditionalMoves.ts). Only the game-action function
+-- reads or writes them, so no policies are granted: the opponent must not
+-- see them.
+CREATE TABLE public.chess_conditional_moves (
+  room_id UUID REFERENCES public.chess_rooms(id) ON DELETE CASCADE NOT NULL,
+  color TEXT NOT NULL CHECK (color IN ('white', 'black')),
+  moves JSONB NOT NULL,
+  ply INTEGER NOT NULL, -- Moves played when the tree was set; it answers the next one
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, color)
+);
+
+ALTER TABLE public.chess_conditional_moves ENABLE ROW LEVEL SECURITY;
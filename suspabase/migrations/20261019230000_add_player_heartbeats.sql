@@ -0,0 +1,12 @@
+-- When the game-action function last heard from each seated player. Their
+-- browsers send a heartbeat while in the room, and a game can only be claimed
+-- as abandoned once the opponent's has gone quiet. Only the function reads or
+-- writes it, so no policies are granted.
+CREATE TABLE public.chess_player_heartbeats (
+  room_id UUID REFERENCES public.chess_rooms(id) ON DELETE CASCADE NOT NULL,
+  color TEXT NOT NULL CHECK (color IN ('white', 'black')),
+  seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, color)
+);
+
+ALTER TABLE public.chess_player_heartbeats ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,6 @@
+-- Rooms are now created by the game-action function as well, which sets the
+-- game up from the chosen settings and seats the creator. Clients could
+-- otherwise insert a room with any board, clock, version or deadline, which
+-- the function would then take as authoritative.
+DROP POLICY "Anyone can create rooms" ON public.chess_rooms;
+REVOKE INSERT ON public.chess_rooms FROM anon, authenticated;
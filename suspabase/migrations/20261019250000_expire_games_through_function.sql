@@ -0,0 +1,30 @@
+-- Overdue games are now ended by the game-action function, with the same
+-- rules as every other action (expireOverdueGames in
+-- src/lib/gameActionHandler.ts), instead of a copy of them in SQL. The cron
+-- job calls the function every minute with the service role key.
+--
+-- The function's address and the key are read from Vault, which needs:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+SELECT cron.unschedule('expire-overdue-games');
+
+DROP FUNCTION IF EXISTS public.expire_overdue_games();
+DROP FUNCTION IF EXISTS public.has_mating_material(JSONB, TEXT);
+
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'expire-overdue-games',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/game-action',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": {"type": "expire-overdue-games"}}'::jsonb
+  );
+  $$
+);
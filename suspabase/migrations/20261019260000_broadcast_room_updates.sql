@@ -0,0 +1,5 @@
+-- Room changes reach players and spectators as a broadcast from the
+-- game-action function carrying everything but the moves, which stream as
+-- chess_moves rows. Realtime changes to chess_rooms would send the whole
+-- game with every move, so the table leaves the publication.
+ALTER PUBLICATION supabase_realtime DROP TABLE public.chess_rooms;